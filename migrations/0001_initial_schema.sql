@@ -1,8 +1,9 @@
--- 3800km Hiking Tracker Database Schema
--- Run this SQL in your Supabase SQL editor to set up the database
+-- Users and activities as originally created from supabase-schema.sql.
+-- Every statement is idempotent so deployments set up from that script can adopt the
+-- migration runner: already-present objects are left as they are.
 
 -- Users table to store Strava authentication data
-CREATE TABLE users (
+CREATE TABLE IF NOT EXISTS users (
   id TEXT PRIMARY KEY,
   strava_id TEXT UNIQUE NOT NULL,
   access_token TEXT NOT NULL,
@@ -13,7 +14,7 @@ CREATE TABLE users (
 );
 
 -- Activities table to store hiking/walking activities
-CREATE TABLE activities (
+CREATE TABLE IF NOT EXISTS activities (
   id SERIAL PRIMARY KEY,
   strava_id TEXT UNIQUE NOT NULL,
   name TEXT NOT NULL,
@@ -29,12 +30,11 @@ CREATE TABLE activities (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
--- Create indexes for better query performance
-CREATE INDEX idx_activities_user_id ON activities(user_id);
-CREATE INDEX idx_activities_start_date ON activities(start_date);
-CREATE INDEX idx_activities_strava_id ON activities(strava_id);
+CREATE INDEX IF NOT EXISTS idx_activities_user_id ON activities(user_id);
+CREATE INDEX IF NOT EXISTS idx_activities_start_date ON activities(start_date);
+CREATE INDEX IF NOT EXISTS idx_activities_strava_id ON activities(strava_id);
 
--- Create a trigger to automatically update the updated_at column
+-- Keep updated_at current on every update
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
 BEGIN
@@ -43,14 +43,15 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
--- Apply the trigger to both tables
+DROP TRIGGER IF EXISTS update_users_updated_at ON users;
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_activities_updated_at ON activities;
 CREATE TRIGGER update_activities_updated_at BEFORE UPDATE ON activities
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
--- Optional: Create a view for easy progress tracking
+-- Progress per user, for ad-hoc queries in the SQL editor
 CREATE OR REPLACE VIEW user_progress AS
 SELECT 
     u.id as user_id,
@@ -65,6 +66,3 @@ SELECT
 FROM users u
 LEFT JOIN activities a ON u.id = a.user_id
 GROUP BY u.id, u.strava_id;
-
--- Sample query to check progress (uncomment to use):
--- SELECT * FROM user_progress; 
\ No newline at end of file
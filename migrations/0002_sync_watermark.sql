@@ -0,0 +1,2 @@
+-- Unix timestamp of the newest activity start seen by the last sync (incremental sync watermark)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_synced_at BIGINT;
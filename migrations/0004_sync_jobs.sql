@@ -0,0 +1,36 @@
+-- Background sync jobs: one row per sync, advanced a page at a time by the worker.
+-- The cursor (next_page) and running totals are saved after every page so a failed
+-- or timed-out step resumes where it stopped.
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  mode TEXT NOT NULL CHECK (mode IN ('incremental', 'full')),
+  after BIGINT,
+  next_page INTEGER NOT NULL DEFAULT 1,
+  pages_fetched INTEGER NOT NULL DEFAULT 0,
+  activities_fetched INTEGER NOT NULL DEFAULT 0,
+  activities_qualified INTEGER NOT NULL DEFAULT 0,
+  activities_upserted INTEGER NOT NULL DEFAULT 0,
+  activities_removed INTEGER NOT NULL DEFAULT 0,
+  seen_ids TEXT[] NOT NULL DEFAULT '{}',
+  qualified_ids TEXT[] NOT NULL DEFAULT '{}',
+  unknown_ids TEXT[] NOT NULL DEFAULT '{}',
+  latest_start BIGINT,
+  earliest_failed_start BIGINT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_user_id ON sync_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_due ON sync_jobs(status, run_after);
+
+DROP TRIGGER IF EXISTS update_sync_jobs_updated_at ON sync_jobs;
+CREATE TRIGGER update_sync_jobs_updated_at BEFORE UPDATE ON sync_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,32 @@
+-- Audit trail: one row per sync (manual, webhook event or cron), with what it changed.
+-- distance_before/after are the user's stored total in meters around the run, so a
+-- jump in the total can be traced to the run that caused it.
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES sync_jobs(id) ON DELETE SET NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'webhook', 'cron')),
+  triggered_by TEXT NOT NULL,
+  mode TEXT NOT NULL CHECK (mode IN ('incremental', 'full', 'event')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  activities_fetched INTEGER NOT NULL DEFAULT 0,
+  activities_qualified INTEGER NOT NULL DEFAULT 0,
+  activities_inserted INTEGER NOT NULL DEFAULT 0,
+  activities_updated INTEGER NOT NULL DEFAULT 0,
+  activities_removed INTEGER NOT NULL DEFAULT 0,
+  distance_before REAL,
+  distance_after REAL,
+  errors JSONB NOT NULL DEFAULT '[]',
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_user_started ON sync_runs(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_job_id ON sync_runs(job_id);
+
+-- Sync jobs count inserts and updates separately and keep every error for the run record
+ALTER TABLE sync_jobs
+  ADD COLUMN IF NOT EXISTS activities_inserted INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS activities_updated INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS errors TEXT[] NOT NULL DEFAULT '{}';
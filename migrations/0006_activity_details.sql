@@ -0,0 +1,19 @@
+-- Keep the rest of what Strava returns for an activity. Rows synced before this
+-- migration get the new columns filled in by a full resync (POST /api/sync-jobs?full=true).
+ALTER TABLE activities
+  ADD COLUMN IF NOT EXISTS elapsed_time INTEGER,
+  ADD COLUMN IF NOT EXISTS sport_type TEXT,
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  -- Wall-clock time where the activity happened, paired with its timezone
+  ADD COLUMN IF NOT EXISTS start_date_local TIMESTAMP WITHOUT TIME ZONE,
+  ADD COLUMN IF NOT EXISTS timezone TEXT,
+  ADD COLUMN IF NOT EXISTS start_latlng DOUBLE PRECISION[],
+  ADD COLUMN IF NOT EXISTS end_latlng DOUBLE PRECISION[],
+  ADD COLUMN IF NOT EXISTS summary_polyline TEXT,
+  ADD COLUMN IF NOT EXISTS average_speed REAL,
+  ADD COLUMN IF NOT EXISTS max_speed REAL,
+  ADD COLUMN IF NOT EXISTS average_heartrate REAL,
+  ADD COLUMN IF NOT EXISTS max_heartrate REAL,
+  ADD COLUMN IF NOT EXISTS gear_id TEXT,
+  ADD COLUMN IF NOT EXISTS max_elevation REAL,
+  ADD COLUMN IF NOT EXISTS min_elevation REAL;
@@ -0,0 +1,14 @@
+-- Activities can come from uploaded GPX, TCX and FIT files as well as Strava. Uploaded
+-- rows have no strava_id; track_hash identifies the recorded track so the same file
+-- (or the same track exported in another format) is only counted once.
+ALTER TABLE activities
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'strava',
+  ADD COLUMN IF NOT EXISTS track_hash TEXT;
+
+ALTER TABLE activities ALTER COLUMN strava_id DROP NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_activities_user_track_hash
+  ON activities(user_id, track_hash) WHERE track_hash IS NOT NULL;
+
+-- Uploads are checked against every stored activity starting at the same moment
+CREATE INDEX IF NOT EXISTS idx_activities_user_start_date ON activities(user_id, start_date);
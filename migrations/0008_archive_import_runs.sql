@@ -0,0 +1,4 @@
+-- Imports from a Strava bulk-export archive are recorded as sync runs like any other sync
+ALTER TABLE sync_runs DROP CONSTRAINT IF EXISTS sync_runs_trigger_check;
+ALTER TABLE sync_runs ADD CONSTRAINT sync_runs_trigger_check
+  CHECK (trigger IN ('manual', 'webhook', 'cron', 'import'));
@@ -0,0 +1,18 @@
+-- Full-resolution GPS, elevation, distance, time and heart rate streams for counted
+-- activities, fetched from Strava on first use. Each stream is stored as text: latlng
+-- as an encoded polyline, the others delta-encoded with the same varint scheme
+-- (altitude and distance in decimeters, time in seconds, heart rate in bpm).
+-- NULL means Strava had no such stream for the activity.
+CREATE TABLE IF NOT EXISTS activity_streams (
+  activity_id INTEGER PRIMARY KEY REFERENCES activities(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  point_count INTEGER NOT NULL,
+  latlng TEXT,
+  altitude TEXT,
+  distance TEXT,
+  time TEXT,
+  heartrate TEXT,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_streams_user_id ON activity_streams(user_id);
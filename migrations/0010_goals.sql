@@ -0,0 +1,75 @@
+-- Distance goals, replacing the 3800 km that used to be hard-coded in the app and in
+-- the user_progress view. A goal counts the user's stored (qualifying) activities from
+-- start_date through deadline, both inclusive UTC days; with a hashtag, only those
+-- whose description contains it (case-insensitive).
+CREATE TABLE IF NOT EXISTS goals (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  target_km REAL NOT NULL CHECK (target_km > 0),
+  start_date DATE NOT NULL,
+  deadline DATE CHECK (deadline IS NULL OR deadline >= start_date),
+  hashtag TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_goals_user_id ON goals(user_id);
+
+DROP TRIGGER IF EXISTS update_goals_updated_at ON goals;
+CREATE TRIGGER update_goals_updated_at BEFORE UPDATE ON goals
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Existing users keep the goal they had: 3800 km, counting everything already stored
+INSERT INTO goals (user_id, name, target_km, start_date)
+SELECT u.id, '3800km', 3800, COALESCE(
+  (SELECT MIN(a.start_date AT TIME ZONE 'UTC')::date FROM activities a WHERE a.user_id = u.id),
+  (u.created_at AT TIME ZONE 'UTC')::date,
+  CURRENT_DATE
+)
+FROM users u
+WHERE NOT EXISTS (SELECT 1 FROM goals g WHERE g.user_id = u.id);
+
+-- Progress per user toward their active goal: the one running today, else the one that
+-- started most recently, else the next to start (src/lib/goals.ts picks the same one).
+-- Users without goals have NULL goal columns and every activity counted.
+DROP VIEW IF EXISTS user_progress;
+CREATE VIEW user_progress AS
+SELECT
+    u.id as user_id,
+    u.strava_id,
+    g.id as goal_id,
+    g.name as goal_name,
+    g.target_km as goal_km,
+    g.start_date as goal_start_date,
+    g.deadline as goal_deadline,
+    COUNT(a.id) as total_activities,
+    COALESCE(SUM(a.distance), 0) as total_distance_meters,
+    COALESCE(SUM(a.distance) / 1000, 0) as total_distance_km,
+    COALESCE(SUM(a.moving_time), 0) as total_moving_time_seconds,
+    COALESCE(SUM(a.elevation_gain), 0) as total_elevation_gain,
+    ROUND((COALESCE(SUM(a.distance), 0) / 1000 / g.target_km * 100)::numeric, 2) as progress_percentage,
+    MAX(a.start_date) as last_activity_date
+FROM users u
+LEFT JOIN LATERAL (
+    SELECT *
+    FROM goals
+    WHERE goals.user_id = u.id
+    ORDER BY
+        CASE
+            WHEN start_date <= CURRENT_DATE AND (deadline IS NULL OR deadline >= CURRENT_DATE) THEN 0
+            WHEN start_date <= CURRENT_DATE THEN 1
+            ELSE 2
+        END,
+        CASE WHEN start_date <= CURRENT_DATE THEN start_date END DESC NULLS LAST,
+        start_date,
+        id DESC
+    LIMIT 1
+) g ON TRUE
+LEFT JOIN activities a ON a.user_id = u.id
+    AND (g.id IS NULL OR (
+        a.start_date >= g.start_date::timestamp AT TIME ZONE 'UTC'
+        AND (g.deadline IS NULL OR a.start_date < (g.deadline + 1)::timestamp AT TIME ZONE 'UTC')
+        AND (g.hashtag IS NULL OR POSITION(LOWER(g.hashtag) IN LOWER(COALESCE(a.description, ''))) > 0)
+    ))
+GROUP BY u.id, u.strava_id, g.id, g.name, g.target_km, g.start_date, g.deadline;
@@ -0,0 +1,59 @@
+-- Goals become challenges measured in one of several metrics, so people can track
+-- "3800km hiking", "100,000 m of climbing this year" and "52 summits" side by side.
+-- target is in the metric's unit: km for distance, meters for elevation, activities
+-- for count and hours for moving_time. Existing goals are distance goals.
+ALTER TABLE goals
+  ADD COLUMN IF NOT EXISTS metric TEXT NOT NULL DEFAULT 'distance'
+    CHECK (metric IN ('distance', 'elevation', 'count', 'moving_time'));
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'goals' AND column_name = 'target_km'
+  ) THEN
+    ALTER TABLE goals RENAME COLUMN target_km TO target;
+  END IF;
+END $$;
+
+-- user_progress stays a distance view: progress toward the active distance goal
+DROP VIEW IF EXISTS user_progress;
+CREATE VIEW user_progress AS
+SELECT
+    u.id as user_id,
+    u.strava_id,
+    g.id as goal_id,
+    g.name as goal_name,
+    g.target as goal_km,
+    g.start_date as goal_start_date,
+    g.deadline as goal_deadline,
+    COUNT(a.id) as total_activities,
+    COALESCE(SUM(a.distance), 0) as total_distance_meters,
+    COALESCE(SUM(a.distance) / 1000, 0) as total_distance_km,
+    COALESCE(SUM(a.moving_time), 0) as total_moving_time_seconds,
+    COALESCE(SUM(a.elevation_gain), 0) as total_elevation_gain,
+    ROUND((COALESCE(SUM(a.distance), 0) / 1000 / g.target * 100)::numeric, 2) as progress_percentage,
+    MAX(a.start_date) as last_activity_date
+FROM users u
+LEFT JOIN LATERAL (
+    SELECT *
+    FROM goals
+    WHERE goals.user_id = u.id AND goals.metric = 'distance'
+    ORDER BY
+        CASE
+            WHEN start_date <= CURRENT_DATE AND (deadline IS NULL OR deadline >= CURRENT_DATE) THEN 0
+            WHEN start_date <= CURRENT_DATE THEN 1
+            ELSE 2
+        END,
+        CASE WHEN start_date <= CURRENT_DATE THEN start_date END DESC NULLS LAST,
+        start_date,
+        id DESC
+    LIMIT 1
+) g ON TRUE
+LEFT JOIN activities a ON a.user_id = u.id
+    AND (g.id IS NULL OR (
+        a.start_date >= g.start_date::timestamp AT TIME ZONE 'UTC'
+        AND (g.deadline IS NULL OR a.start_date < (g.deadline + 1)::timestamp AT TIME ZONE 'UTC')
+        AND (g.hashtag IS NULL OR POSITION(LOWER(g.hashtag) IN LOWER(COALESCE(a.description, ''))) > 0)
+    ))
+GROUP BY u.id, u.strava_id, g.id, g.name, g.target, g.start_date, g.deadline;
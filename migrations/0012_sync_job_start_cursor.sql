@@ -0,0 +1,7 @@
+-- Sync jobs page through Strava by start time instead of page number. Page numbers
+-- shift when an activity is deleted on Strava between two steps, which can be hours
+-- apart after a rate-limit deferral, so an activity could be skipped and then removed
+-- by the job's reconciliation. Full jobs fetch activities before earliest_start (the
+-- oldest start seen so far), incremental jobs those after latest_start; next_page is
+-- now only a page counter.
+ALTER TABLE sync_jobs ADD COLUMN IF NOT EXISTS earliest_start BIGINT;
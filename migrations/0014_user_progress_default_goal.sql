@@ -0,0 +1,48 @@
+-- Users who haven't created any goal measure progress against the default 3800 km
+-- counting every stored hike (DEFAULT_GOAL in src/lib/goals.ts), but the view gave them
+-- NULL goal and progress columns. They now get the default as their goal row, with a
+-- NULL goal_id since it isn't stored. Users whose goals are all in other metrics still
+-- get NULL goal columns, as they have no distance goal to follow.
+DROP VIEW IF EXISTS user_progress;
+CREATE VIEW user_progress AS
+SELECT
+    u.id as user_id,
+    u.strava_id,
+    g.id as goal_id,
+    g.name as goal_name,
+    g.target as goal_km,
+    g.start_date as goal_start_date,
+    g.deadline as goal_deadline,
+    COUNT(a.id) as total_activities,
+    COALESCE(SUM(a.distance), 0) as total_distance_meters,
+    COALESCE(SUM(a.distance) / 1000, 0) as total_distance_km,
+    COALESCE(SUM(a.moving_time), 0) as total_moving_time_seconds,
+    COALESCE(SUM(a.elevation_gain), 0) as total_elevation_gain,
+    ROUND((COALESCE(SUM(a.distance), 0) / 1000 / g.target * 100)::numeric, 2) as progress_percentage,
+    MAX(a.start_date) as last_activity_date
+FROM users u
+LEFT JOIN LATERAL (
+    (
+        SELECT id, name, target, start_date, deadline, hashtag
+        FROM goals
+        WHERE goals.user_id = u.id AND goals.metric = 'distance'
+        ORDER BY
+            CASE
+                WHEN start_date <= CURRENT_DATE AND (deadline IS NULL OR deadline >= CURRENT_DATE) THEN 0
+                WHEN start_date <= CURRENT_DATE THEN 1
+                ELSE 2
+            END,
+            CASE WHEN start_date <= CURRENT_DATE THEN start_date END DESC NULLS LAST,
+            start_date,
+            id DESC
+        LIMIT 1
+    )
+    UNION ALL
+    SELECT NULL::integer, '3800km', 3800::real, NULL::date, NULL::date, NULL::text
+    WHERE NOT EXISTS (SELECT 1 FROM goals WHERE goals.user_id = u.id)
+) g ON TRUE
+LEFT JOIN activities a ON a.user_id = u.id
+    AND (g.start_date IS NULL OR a.start_date >= g.start_date::timestamp AT TIME ZONE 'UTC')
+    AND (g.deadline IS NULL OR a.start_date < (g.deadline + 1)::timestamp AT TIME ZONE 'UTC')
+    AND (g.hashtag IS NULL OR a.source <> 'strava' OR POSITION(LOWER(g.hashtag) IN LOWER(COALESCE(a.description, ''))) > 0)
+GROUP BY u.id, u.strava_id, g.id, g.name, g.target, g.start_date, g.deadline;
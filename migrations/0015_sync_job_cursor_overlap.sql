@@ -0,0 +1,11 @@
+-- Start times are whole seconds, so paging strictly before/after the cursor skipped
+-- activities sharing the cursor second across a page boundary. Jobs now list the cursor
+-- second again and skip the activities in cursor_ids, the ones already processed at that
+-- second; cursor_kept_ids are those among them that reconciliation must keep. Each page
+-- reconciles the rows it covers, so the job no longer accumulates every ID it has seen.
+ALTER TABLE sync_jobs
+  DROP COLUMN IF EXISTS seen_ids,
+  DROP COLUMN IF EXISTS qualified_ids,
+  DROP COLUMN IF EXISTS unknown_ids,
+  ADD COLUMN IF NOT EXISTS cursor_ids TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS cursor_kept_ids TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+
+/**
+ * Backup and Restore
+ *
+ * Writes one user's data to a versioned JSON bundle, or restores one, using the app's
+ * Supabase settings (NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY).
+ *
+ *   npm run backup -- --user=12345                         write 3800km-backup-12345-<date>.json
+ *   npm run backup -- --user=12345 --out=backup.json       choose the file
+ *   npm run backup -- --restore=backup.json                restore into the bundle's user
+ *
+ * The user must exist on the target (sign in with Strava there once) before restoring.
+ * Restoring is idempotent, so re-running after a failure is safe.
+ */
+
+import { readFileSync, writeFileSync } from 'fs'
+import { createBackup, parseBackupBundle, restoreBackup } from '../src/lib/backup'
+
+function parseArgs(argv: string[]) {
+  const value = (name: string) => {
+    const arg = argv.find(arg => arg.startsWith(`--${name}=`))
+    return arg ? arg.slice(name.length + 3) : undefined
+  }
+
+  return {
+    user: value('user'),
+    out: value('out'),
+    restore: value('restore')
+  }
+}
+
+async function backup(userId: string, out: string | undefined) {
+  const bundle = await createBackup(userId)
+  const filename = out || `3800km-backup-${userId}-${bundle.createdAt.slice(0, 10)}.json`
+
+  writeFileSync(filename, JSON.stringify(bundle, null, 2) + '\n')
+  console.log(`✅ Wrote ${bundle.activities.length} activities and ${bundle.goals.length} goals for user ${userId} to ${filename}`)
+}
+
+async function restore(filename: string, userId: string | undefined) {
+  const parsed = parseBackupBundle(JSON.parse(readFileSync(filename, 'utf8')))
+
+  if (!parsed.bundle) {
+    console.error(`❌ ${filename} is not a valid backup:`)
+    for (const error of parsed.errors) console.error(`   ${error}`)
+    process.exit(1)
+  }
+
+  const result = await restoreBackup(userId || parsed.bundle.user.id, parsed.bundle)
+  console.log(`✅ Restored ${filename}: ${result.inserted} activities added, ${result.updated} updated, ${result.goalsRestored} goals${result.skipped > 0 ? `, ${result.skipped} skipped (stored under another user)` : ''}`)
+  if (result.lastSyncedAt) {
+    console.log(`   Next sync starts after ${result.lastSyncedAt}`)
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+
+  if (args.restore) {
+    await restore(args.restore, args.user)
+  } else if (args.user) {
+    await backup(args.user, args.out)
+  } else {
+    console.error('❌ Pass --user=<id> to back up, or --restore=<file> to restore')
+    process.exit(1)
+  }
+
+  // The Supabase client keeps the event loop alive
+  process.exit(0)
+}
+
+main().catch(error => {
+  console.error('❌ Backup failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
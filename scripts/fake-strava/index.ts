@@ -0,0 +1,69 @@
+#!/usr/bin/env tsx
+
+/**
+ * Local Fake Strava Server
+ *
+ * Serves fixture activities over the same endpoints the app uses on Strava, so sync,
+ * OAuth and webhooks can be exercised without a real account or rate limits.
+ *
+ *   npm run fake-strava                                  listen on port 4010
+ *   npm run fake-strava -- --port=4020                   pick another port
+ *   npm run fake-strava -- --fixtures=./my-fixtures.json load other activities
+ *   npm run fake-strava -- --token-ttl=60                expire access tokens after a minute
+ *
+ * Then start the app with STRAVA_BASE_URL=http://localhost:4010. See server.ts for
+ * the /__fake control endpoints that simulate 401s, 429s and expired tokens.
+ */
+
+import { readFileSync } from 'fs'
+import path from 'path'
+import { createFakeStravaServer, type FakeStravaFixtures } from './server'
+
+const DEFAULT_PORT = 4010
+const DEFAULT_FIXTURES = path.resolve(process.cwd(), 'scripts/fake-strava/fixtures.json')
+
+function parseArgs(argv: string[]) {
+  const valueOf = (name: string) => {
+    const arg = argv.find(candidate => candidate.startsWith(`--${name}=`))
+    return arg ? arg.slice(name.length + 3) : undefined
+  }
+
+  return {
+    port: Number(valueOf('port') || process.env.FAKE_STRAVA_PORT || DEFAULT_PORT),
+    fixtures: path.resolve(process.cwd(), valueOf('fixtures') || DEFAULT_FIXTURES),
+    tokenTtlSeconds: valueOf('token-ttl') ? Number(valueOf('token-ttl')) : undefined,
+    quiet: argv.includes('--quiet')
+  }
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const fixtures = JSON.parse(readFileSync(args.fixtures, 'utf8')) as FakeStravaFixtures
+
+  const fake = createFakeStravaServer({
+    fixtures,
+    tokenTtlSeconds: args.tokenTtlSeconds,
+    log: args.quiet ? undefined : message => console.log(`[fake-strava] ${message}`)
+  })
+
+  fake.server.listen(args.port, () => {
+    const baseUrl = `http://localhost:${args.port}`
+    console.log(`🏔️  Fake Strava listening on ${baseUrl}`)
+    console.log(`   ${fixtures.activities.length} activities for athlete ${fixtures.athlete.id} from ${path.relative(process.cwd(), args.fixtures)}`)
+    console.log('')
+    console.log('   Point the app at it:')
+    console.log(`     STRAVA_BASE_URL=${baseUrl}`)
+    if (fixtures.tokens) {
+      console.log(`     STRAVA_ACCESS_TOKEN=${fixtures.tokens.access_token}`)
+      console.log(`     STRAVA_REFRESH_TOKEN=${fixtures.tokens.refresh_token}`)
+    }
+    console.log('')
+    console.log(`   Simulate failures: curl -X POST ${baseUrl}/__fake/faults -d status=429 -d count=2`)
+  })
+
+  const shutdown = () => fake.server.close(() => process.exit(0))
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main()
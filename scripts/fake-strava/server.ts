@@ -0,0 +1,618 @@
+/**
+ * Fake Strava API
+ *
+ * A small in-process stand-in for the parts of Strava this app talks to: OAuth,
+ * the athlete activity list, activity detail and streams, and webhook subscriptions.
+ * Point the app at it with STRAVA_BASE_URL. Everything lives in memory and resets on restart.
+ *
+ * Failures are injected through the /__fake control endpoints (or the controller
+ * returned by createFakeStravaServer):
+ *
+ *   POST /__fake/faults          {"status": 429, "count": 3, "path": "/api/v3/athlete/activities"}
+ *   POST /__fake/expire-tokens   every issued access token now gets a 401
+ *   POST /__fake/revoke          also rejects refresh tokens, like a deauthorized app
+ *   POST /__fake/activities      add or replace an activity, then notify the webhook
+ *   DELETE /__fake/activities/:id
+ *   POST /__fake/events          send a raw webhook event to the subscription
+ *   GET  /__fake/state           tokens, faults, subscription and request counts
+ *   POST /__fake/reset           back to the fixtures
+ */
+
+import { randomBytes } from 'crypto'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import type { StravaActivity, StravaStreamSet } from '../../src/lib/strava'
+import { decodePolyline } from '../../src/lib/polyline'
+
+export interface FakeStravaFixtures {
+  athlete: {
+    id: number
+    firstname: string
+    lastname: string
+  }
+  // Tokens that are valid from startup, so STRAVA_ACCESS_TOKEN can point at them
+  tokens?: {
+    access_token: string
+    refresh_token: string
+  }
+  activities: StravaActivity[]
+}
+
+export interface FakeStravaOptions {
+  fixtures: FakeStravaFixtures
+  // Lifetime of issued access tokens; Strava uses six hours
+  tokenTtlSeconds?: number
+  // Reported in the rate limit headers as "short,daily"
+  rateLimits?: { shortTerm: number; daily: number }
+  log?: (message: string) => void
+}
+
+export interface FakeFault {
+  status: 401 | 429 | 500 | 503
+  // How many matching requests fail before the fault clears
+  remaining: number
+  // Only requests whose path starts with this fail; all API requests when omitted
+  path?: string
+}
+
+interface IssuedToken {
+  refreshToken: string
+  expiresAt: number
+}
+
+interface Subscription {
+  id: number
+  callback_url: string
+  verify_token: string
+  created_at: string
+  updated_at: string
+}
+
+interface WebhookEvent {
+  object_type: 'activity' | 'athlete'
+  object_id: number
+  aspect_type: 'create' | 'update' | 'delete'
+  updates?: Record<string, string>
+}
+
+const DEFAULT_TOKEN_TTL_SECONDS = 6 * 60 * 60
+const DEFAULT_RATE_LIMITS = { shortTerm: 200, daily: 2000 }
+const SHORT_TERM_WINDOW_MS = 15 * 60 * 1000
+
+const nowSeconds = () => Math.floor(Date.now() / 1000)
+const newToken = () => randomBytes(20).toString('hex')
+
+class HttpError extends Error {
+  constructor(public status: number, public body: unknown) {
+    super(`HTTP ${status}`)
+    this.name = 'HttpError'
+  }
+}
+
+function stravaError(status: number, message: string, resource: string, field: string, code: string): HttpError {
+  return new HttpError(status, { message, errors: [{ resource, field, code }] })
+}
+
+// The list endpoint returns summary activities: no description and no full polyline
+function toSummary(activity: StravaActivity): StravaActivity {
+  const summary: StravaActivity = {
+    ...activity,
+    map: activity.map ? { id: activity.map.id, summary_polyline: activity.map.summary_polyline } : undefined
+  }
+  delete summary.description
+  return summary
+}
+
+/**
+ * Fixtures only carry a polyline, so streams are made up from it: points spread evenly
+ * along the line, distance and time spread evenly over the activity, one climb and
+ * descent between elev_low and elev_high, and a steady heart rate. Activities without
+ * a polyline have no streams, like manual activities on Strava.
+ */
+function toStreams(activity: StravaActivity): StravaStreamSet | null {
+  const encoded = activity.map?.polyline || activity.map?.summary_polyline
+  const vertices = encoded ? decodePolyline(encoded) : []
+  if (vertices.length < 2) return null
+
+  const count = Math.min(2000, Math.max(2, Math.round(activity.distance / 20)))
+  const indexes = Array.from({ length: count }, (_, index) => index / (count - 1))
+  const stream = <T>(data: T[]) => ({ data, series_type: 'distance' as const, original_size: count, resolution: 'high' as const })
+  const low = activity.elev_low ?? 0
+  const high = activity.elev_high ?? low + activity.total_elevation_gain
+
+  return {
+    latlng: stream(indexes.map(fraction => {
+      const position = fraction * (vertices.length - 1)
+      const index = Math.min(Math.floor(position), vertices.length - 2)
+      const [[lat1, lng1], [lat2, lng2]] = [vertices[index], vertices[index + 1]]
+      const step = position - index
+      return [
+        Math.round((lat1 + (lat2 - lat1) * step) * 1e6) / 1e6,
+        Math.round((lng1 + (lng2 - lng1) * step) * 1e6) / 1e6
+      ] as [number, number]
+    })),
+    altitude: stream(indexes.map(fraction => Math.round((low + (high - low) * Math.sin(Math.PI * fraction)) * 10) / 10)),
+    distance: stream(indexes.map(fraction => Math.round(activity.distance * fraction * 10) / 10)),
+    time: stream(indexes.map(fraction => Math.round(activity.elapsed_time * fraction))),
+    ...(activity.has_heartrate && activity.average_heartrate
+      ? { heartrate: stream(indexes.map(fraction => Math.round(activity.average_heartrate! + 10 * Math.sin(Math.PI * fraction * 6)))) }
+      : {})
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'content-type': 'application/json; charset=utf-8', ...headers })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+async function readParams(req: IncomingMessage, url: URL): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  const raw = Buffer.concat(chunks).toString('utf8')
+
+  // Strava accepts parameters in the query string, a form body or a JSON body
+  const params: Record<string, unknown> = Object.fromEntries(url.searchParams)
+  if (!raw) return params
+
+  if ((req.headers['content-type'] || '').includes('application/json')) {
+    try {
+      return { ...params, ...JSON.parse(raw) }
+    } catch {
+      throw new HttpError(400, { message: 'Bad Request', errors: [{ resource: 'Body', field: 'body', code: 'invalid json' }] })
+    }
+  }
+
+  return { ...params, ...Object.fromEntries(new URLSearchParams(raw)) }
+}
+
+export function createFakeStravaServer(options: FakeStravaOptions) {
+  const tokenTtlSeconds = options.tokenTtlSeconds ?? DEFAULT_TOKEN_TTL_SECONDS
+  const rateLimits = options.rateLimits ?? DEFAULT_RATE_LIMITS
+  const log = options.log ?? (() => {})
+
+  const state = {
+    activities: new Map<number, StravaActivity>(),
+    accessTokens: new Map<string, IssuedToken>(),
+    refreshTokens: new Set<string>(),
+    authorizationCodes: new Set<string>(),
+    faults: [] as FakeFault[],
+    subscription: null as Subscription | null,
+    usage: { shortTerm: 0, daily: 0, windowStartedAt: Date.now() },
+    requests: 0
+  }
+
+  function reset() {
+    state.activities = new Map(options.fixtures.activities.map(activity => [activity.id, { ...activity }]))
+    state.accessTokens.clear()
+    state.refreshTokens.clear()
+    state.authorizationCodes.clear()
+    state.faults = []
+    state.subscription = null
+    state.usage = { shortTerm: 0, daily: 0, windowStartedAt: Date.now() }
+    state.requests = 0
+
+    if (options.fixtures.tokens) {
+      const { access_token, refresh_token } = options.fixtures.tokens
+      state.refreshTokens.add(refresh_token)
+      state.accessTokens.set(access_token, { refreshToken: refresh_token, expiresAt: nowSeconds() + tokenTtlSeconds })
+    }
+  }
+
+  function issueTokens(refreshToken = newToken()) {
+    const accessToken = newToken()
+    const expiresAt = nowSeconds() + tokenTtlSeconds
+    state.refreshTokens.add(refreshToken)
+    state.accessTokens.set(accessToken, { refreshToken, expiresAt })
+
+    return {
+      token_type: 'Bearer',
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_at: expiresAt,
+      expires_in: tokenTtlSeconds
+    }
+  }
+
+  function expireTokens() {
+    const expired = nowSeconds() - 1
+    for (const token of state.accessTokens.values()) token.expiresAt = expired
+  }
+
+  function revokeTokens() {
+    state.accessTokens.clear()
+    state.refreshTokens.clear()
+  }
+
+  function addFault(fault: Omit<FakeFault, 'remaining'> & { count?: number }) {
+    state.faults.push({ status: fault.status, remaining: fault.count ?? 1, path: fault.path })
+  }
+
+  function rateLimitHeaders(): Record<string, string> {
+    if (Date.now() - state.usage.windowStartedAt >= SHORT_TERM_WINDOW_MS) {
+      state.usage.shortTerm = 0
+      state.usage.windowStartedAt = Date.now()
+    }
+
+    const limit = `${rateLimits.shortTerm},${rateLimits.daily}`
+    const usage = `${state.usage.shortTerm},${state.usage.daily}`
+    return {
+      'x-ratelimit-limit': limit,
+      'x-ratelimit-usage': usage,
+      'x-readratelimit-limit': limit,
+      'x-readratelimit-usage': usage
+    }
+  }
+
+  function takeFault(pathname: string): FakeFault | null {
+    const fault = state.faults.find(candidate => !candidate.path || pathname.startsWith(candidate.path))
+    if (!fault) return null
+
+    fault.remaining--
+    if (fault.remaining <= 0) state.faults = state.faults.filter(candidate => candidate !== fault)
+    return fault
+  }
+
+  function authenticate(req: IncomingMessage) {
+    const header = req.headers.authorization || ''
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : ''
+    const issued = state.accessTokens.get(token)
+
+    if (!issued || issued.expiresAt <= nowSeconds()) {
+      throw stravaError(401, 'Authorization Error', 'Athlete', 'access_token', 'invalid')
+    }
+  }
+
+  async function sendEvent(event: WebhookEvent) {
+    const subscription = state.subscription
+    if (!subscription) {
+      throw new HttpError(409, { message: 'No webhook subscription to deliver to' })
+    }
+
+    const payload = {
+      ...event,
+      owner_id: options.fixtures.athlete.id,
+      subscription_id: subscription.id,
+      event_time: nowSeconds(),
+      updates: event.updates ?? {}
+    }
+
+    const response = await fetch(subscription.callback_url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    })
+    log(`webhook ${event.aspect_type} ${event.object_type}:${event.object_id} -> ${response.status}`)
+
+    return { delivered: response.ok, status: response.status, event: payload }
+  }
+
+  async function handleOAuth(req: IncomingMessage, res: ServerResponse, url: URL) {
+    if (req.method === 'GET' && url.pathname === '/oauth/authorize') {
+      const redirectUri = url.searchParams.get('redirect_uri')
+      if (!redirectUri) {
+        throw stravaError(400, 'Bad Request', 'Application', 'redirect_uri', 'invalid')
+      }
+
+      // Skip the consent screen: approve straight away with the requested scope
+      const code = newToken()
+      state.authorizationCodes.add(code)
+      const redirect = new URL(redirectUri)
+      redirect.searchParams.set('code', code)
+      redirect.searchParams.set('scope', url.searchParams.get('scope') || 'read')
+      const incomingState = url.searchParams.get('state')
+      if (incomingState) redirect.searchParams.set('state', incomingState)
+
+      res.writeHead(302, { location: redirect.toString() })
+      res.end()
+      return
+    }
+
+    if (req.method === 'POST' && url.pathname === '/oauth/token') {
+      const params = await readParams(req, url)
+
+      if (params.grant_type === 'authorization_code') {
+        const code = String(params.code || '')
+        if (!state.authorizationCodes.delete(code)) {
+          throw stravaError(400, 'Bad Request', 'AuthorizationCode', 'code', 'invalid')
+        }
+        sendJson(res, 200, { ...issueTokens(), athlete: options.fixtures.athlete })
+        return
+      }
+
+      if (params.grant_type === 'refresh_token') {
+        const refreshToken = String(params.refresh_token || '')
+        if (!state.refreshTokens.has(refreshToken)) {
+          throw stravaError(400, 'Bad Request', 'RefreshToken', 'refresh_token', 'invalid')
+        }
+        // Strava keeps the refresh token and hands out a new access token
+        sendJson(res, 200, issueTokens(refreshToken))
+        return
+      }
+
+      throw stravaError(400, 'Bad Request', 'Application', 'grant_type', 'invalid')
+    }
+
+    throw stravaError(404, 'Record Not Found', 'resource', 'path', 'not found')
+  }
+
+  async function handleApi(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const { pathname } = url
+
+    // Webhook subscriptions authenticate with client credentials, not a user token
+    if (pathname.startsWith('/api/v3/push_subscriptions')) {
+      await handleSubscriptions(req, res, url)
+      return
+    }
+
+    state.usage.shortTerm++
+    state.usage.daily++
+    const headers = rateLimitHeaders()
+
+    const fault = takeFault(pathname)
+    if (fault?.status === 429) {
+      sendJson(res, 429, {
+        message: 'Rate Limit Exceeded',
+        errors: [{ resource: 'Application', field: 'rate limit', code: 'exceeded' }]
+      }, {
+        ...headers,
+        'x-ratelimit-usage': `${rateLimits.shortTerm},${state.usage.daily}`,
+        'x-readratelimit-usage': `${rateLimits.shortTerm},${state.usage.daily}`
+      })
+      return
+    }
+    if (fault?.status === 401) {
+      throw stravaError(401, 'Authorization Error', 'Athlete', 'access_token', 'invalid')
+    }
+    if (fault) {
+      sendJson(res, fault.status, { message: 'Internal Server Error', errors: [] }, headers)
+      return
+    }
+
+    authenticate(req)
+
+    if (req.method === 'GET' && pathname === '/api/v3/athlete/activities') {
+      const page = Math.max(1, Number(url.searchParams.get('page')) || 1)
+      const perPage = Math.min(200, Math.max(1, Number(url.searchParams.get('per_page')) || 30))
+      const after = Number(url.searchParams.get('after')) || 0
+      const before = Number(url.searchParams.get('before')) || Infinity
+
+      const matching = [...state.activities.values()]
+        .filter(activity => {
+          const startedAt = Date.parse(activity.start_date) / 1000
+          return startedAt > after && startedAt < before
+        })
+        // Like Strava: newest first, or oldest first when paging forward from `after`
+        .sort((a, b) => (Date.parse(b.start_date) - Date.parse(a.start_date)) * (after ? -1 : 1))
+
+      const pageItems = matching.slice((page - 1) * perPage, page * perPage)
+      sendJson(res, 200, pageItems.map(toSummary), headers)
+      return
+    }
+
+    const detailMatch = /^\/api\/v3\/activities\/(\d+)$/.exec(pathname)
+    if (req.method === 'GET' && detailMatch) {
+      const activity = state.activities.get(Number(detailMatch[1]))
+      if (!activity) {
+        throw stravaError(404, 'Record Not Found', 'Activity', 'id', 'not found')
+      }
+      sendJson(res, 200, activity, headers)
+      return
+    }
+
+    const streamsMatch = /^\/api\/v3\/activities\/(\d+)\/streams$/.exec(pathname)
+    if (req.method === 'GET' && streamsMatch) {
+      const activity = state.activities.get(Number(streamsMatch[1]))
+      const streams = activity ? toStreams(activity) : null
+      if (!streams) {
+        throw stravaError(404, 'Record Not Found', 'Activity', 'id', 'not found')
+      }
+      const keys = url.searchParams.get('keys')?.split(',')
+      sendJson(res, 200, keys
+        ? Object.fromEntries(Object.entries(streams).filter(([key]) => keys.includes(key)))
+        : streams, headers)
+      return
+    }
+
+    throw stravaError(404, 'Record Not Found', 'resource', 'path', 'not found')
+  }
+
+  async function handleSubscriptions(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const idMatch = /^\/api\/v3\/push_subscriptions\/(\d+)$/.exec(url.pathname)
+
+    if (req.method === 'GET' && !idMatch) {
+      sendJson(res, 200, state.subscription ? [state.subscription] : [])
+      return
+    }
+
+    if (req.method === 'DELETE' && idMatch) {
+      if (!state.subscription || state.subscription.id !== Number(idMatch[1])) {
+        throw stravaError(404, 'Record Not Found', 'PushSubscription', 'id', 'not found')
+      }
+      state.subscription = null
+      res.writeHead(204)
+      res.end()
+      return
+    }
+
+    if (req.method === 'POST' && !idMatch) {
+      const params = await readParams(req, url)
+      const callbackUrl = String(params.callback_url || '')
+      const verifyToken = String(params.verify_token || '')
+
+      if (state.subscription) {
+        throw stravaError(400, 'Bad Request', 'PushSubscription', 'callback url', 'already exists')
+      }
+      if (!callbackUrl) {
+        throw stravaError(400, 'Bad Request', 'PushSubscription', 'callback url', 'invalid')
+      }
+
+      // Same handshake as Strava: the callback has to echo the challenge back
+      const challenge = newToken()
+      const validation = new URL(callbackUrl)
+      validation.searchParams.set('hub.mode', 'subscribe')
+      validation.searchParams.set('hub.challenge', challenge)
+      validation.searchParams.set('hub.verify_token', verifyToken)
+
+      const response = await fetch(validation).catch(() => null)
+      const body = response?.ok ? await response.json().catch(() => null) : null
+      if (body?.['hub.challenge'] !== challenge) {
+        throw stravaError(400, 'Bad Request', 'PushSubscription', 'callback url', 'GET to callback URL does not return 200')
+      }
+
+      const timestamp = new Date().toISOString()
+      state.subscription = {
+        id: Math.floor(Math.random() * 900000) + 100000,
+        callback_url: callbackUrl,
+        verify_token: verifyToken,
+        created_at: timestamp,
+        updated_at: timestamp
+      }
+      sendJson(res, 201, { id: state.subscription.id })
+      return
+    }
+
+    throw stravaError(404, 'Record Not Found', 'resource', 'path', 'not found')
+  }
+
+  async function handleControl(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const { pathname } = url
+
+    if (req.method === 'GET' && pathname === '/__fake/state') {
+      sendJson(res, 200, {
+        athlete: options.fixtures.athlete,
+        activities: state.activities.size,
+        accessTokens: [...state.accessTokens].map(([token, issued]) => ({
+          token,
+          expiresAt: issued.expiresAt,
+          expired: issued.expiresAt <= nowSeconds()
+        })),
+        refreshTokens: [...state.refreshTokens],
+        faults: state.faults,
+        subscription: state.subscription,
+        usage: { shortTerm: state.usage.shortTerm, daily: state.usage.daily },
+        requests: state.requests
+      })
+      return
+    }
+
+    if (req.method === 'POST' && pathname === '/__fake/reset') {
+      reset()
+      sendJson(res, 200, { reset: true })
+      return
+    }
+
+    if (req.method === 'POST' && pathname === '/__fake/expire-tokens') {
+      expireTokens()
+      sendJson(res, 200, { expired: state.accessTokens.size })
+      return
+    }
+
+    if (req.method === 'POST' && pathname === '/__fake/revoke') {
+      revokeTokens()
+      sendJson(res, 200, { revoked: true })
+      return
+    }
+
+    if (req.method === 'POST' && pathname === '/__fake/faults') {
+      const params = await readParams(req, url)
+      const status = Number(params.status)
+      if (![401, 429, 500, 503].includes(status)) {
+        throw new HttpError(400, { message: 'status must be 401, 429, 500 or 503' })
+      }
+      addFault({
+        status: status as FakeFault['status'],
+        count: params.count ? Number(params.count) : undefined,
+        path: params.path ? String(params.path) : undefined
+      })
+      sendJson(res, 201, { faults: state.faults })
+      return
+    }
+
+    if (req.method === 'DELETE' && pathname === '/__fake/faults') {
+      state.faults = []
+      sendJson(res, 200, { faults: [] })
+      return
+    }
+
+    if (req.method === 'POST' && pathname === '/__fake/activities') {
+      const activity = await readParams(req, url) as unknown as StravaActivity
+      if (!activity.id || !activity.start_date) {
+        throw new HttpError(400, { message: 'Activity needs at least an id and a start_date' })
+      }
+      const aspectType = state.activities.has(activity.id) ? 'update' : 'create'
+      state.activities.set(activity.id, activity)
+
+      const delivery = state.subscription
+        ? await sendEvent({ object_type: 'activity', object_id: activity.id, aspect_type: aspectType })
+        : null
+      sendJson(res, 200, { aspectType, delivery })
+      return
+    }
+
+    const activityMatch = /^\/__fake\/activities\/(\d+)$/.exec(pathname)
+    if (req.method === 'DELETE' && activityMatch) {
+      const id = Number(activityMatch[1])
+      if (!state.activities.delete(id)) {
+        throw new HttpError(404, { message: `No activity ${id}` })
+      }
+
+      const delivery = state.subscription
+        ? await sendEvent({ object_type: 'activity', object_id: id, aspect_type: 'delete' })
+        : null
+      sendJson(res, 200, { deleted: id, delivery })
+      return
+    }
+
+    if (req.method === 'POST' && pathname === '/__fake/events') {
+      const params = await readParams(req, url)
+      sendJson(res, 200, await sendEvent({
+        object_type: params.object_type === 'athlete' ? 'athlete' : 'activity',
+        object_id: Number(params.object_id),
+        aspect_type: (params.aspect_type as WebhookEvent['aspect_type']) || 'update',
+        updates: params.updates as Record<string, string> | undefined
+      }))
+      return
+    }
+
+    throw new HttpError(404, { message: `Unknown control endpoint ${req.method} ${pathname}` })
+  }
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    state.requests++
+
+    try {
+      if (url.pathname.startsWith('/__fake/')) {
+        await handleControl(req, res, url)
+      } else if (url.pathname.startsWith('/oauth/')) {
+        await handleOAuth(req, res, url)
+      } else if (url.pathname.startsWith('/api/v3/')) {
+        await handleApi(req, res, url)
+      } else {
+        throw stravaError(404, 'Record Not Found', 'resource', 'path', 'not found')
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, error.body, error.status === 401 ? rateLimitHeaders() : {})
+      } else {
+        log(`error handling ${req.method} ${url.pathname}: ${error instanceof Error ? error.message : String(error)}`)
+        sendJson(res, 500, { message: 'Internal Server Error', errors: [] })
+      }
+    }
+
+    log(`${req.method} ${url.pathname} -> ${res.statusCode}`)
+  })
+
+  reset()
+
+  return {
+    server,
+    reset,
+    expireTokens,
+    revokeTokens,
+    addFault,
+    sendEvent,
+    issueTokens
+  }
+}
+
+export type FakeStravaServer = ReturnType<typeof createFakeStravaServer>
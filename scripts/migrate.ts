@@ -0,0 +1,197 @@
+#!/usr/bin/env tsx
+
+/**
+ * Database Migration Runner
+ *
+ * Applies the SQL files in migrations/ that haven't been applied yet, oldest first,
+ * each in its own transaction, and records them in the schema_migrations table.
+ *
+ *   DATABASE_URL=postgres://... npm run migrate             apply pending migrations
+ *   DATABASE_URL=postgres://... npm run migrate -- --status list applied and pending
+ *   npm run migrate -- --database-url=postgres://...        pass the URL explicitly
+ *
+ * For Supabase, use the connection string from Project Settings > Database.
+ */
+
+import { createHash } from 'crypto'
+import { readdirSync, readFileSync } from 'fs'
+import path from 'path'
+import { Client } from 'pg'
+import { EXPECTED_SCHEMA_VERSION } from '../src/lib/schema-version'
+
+const MIGRATIONS_DIR = path.resolve(process.cwd(), 'migrations')
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_]+)\.sql$/
+
+// Arbitrary key for pg_advisory_lock so two runners never apply migrations at once
+const LOCK_KEY = 3800
+
+interface Migration {
+  version: number
+  name: string
+  filename: string
+  sql: string
+  checksum: string
+}
+
+interface AppliedMigration {
+  version: number
+  name: string
+  checksum: string
+  applied_at: Date
+}
+
+function parseArgs(argv: string[]) {
+  const databaseUrlArg = argv.find(arg => arg.startsWith('--database-url='))
+
+  return {
+    status: argv.includes('--status'),
+    databaseUrl: databaseUrlArg ? databaseUrlArg.slice('--database-url='.length) : process.env.DATABASE_URL
+  }
+}
+
+function loadMigrations(): Migration[] {
+  const migrations = readdirSync(MIGRATIONS_DIR)
+    .filter(filename => filename.endsWith('.sql'))
+    .map(filename => {
+      const match = MIGRATION_FILE.exec(filename)
+      if (!match) {
+        throw new Error(`Migration file "${filename}" must be named like 0007_add_something.sql`)
+      }
+
+      const sql = readFileSync(path.join(MIGRATIONS_DIR, filename), 'utf8')
+      return {
+        version: parseInt(match[1], 10),
+        name: match[2],
+        filename,
+        sql,
+        checksum: createHash('sha256').update(sql).digest('hex')
+      }
+    })
+    .sort((a, b) => a.version - b.version)
+
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(`Duplicate migration version ${migrations[i].version}: ${migrations[i - 1].filename} and ${migrations[i].filename}`)
+    }
+  }
+
+  return migrations
+}
+
+async function ensureMigrationsTable(client: Client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    )
+  `)
+}
+
+async function getAppliedMigrations(client: Client): Promise<Map<number, AppliedMigration>> {
+  const { rows } = await client.query<AppliedMigration>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  )
+  return new Map(rows.map(row => [row.version, row]))
+}
+
+async function applyMigration(client: Client, migration: Migration) {
+  const startTime = Date.now()
+
+  await client.query('BEGIN')
+  try {
+    await client.query(migration.sql)
+    await client.query(
+      'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+      [migration.version, migration.name, migration.checksum]
+    )
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  }
+
+  console.log(`✅ Applied ${migration.filename} (${Date.now() - startTime}ms)`)
+}
+
+function printStatus(migrations: Migration[], applied: Map<number, AppliedMigration>) {
+  for (const migration of migrations) {
+    const record = applied.get(migration.version)
+    if (!record) {
+      console.log(`   pending   ${migration.filename}`)
+    } else if (record.checksum !== migration.checksum) {
+      console.log(`⚠️  changed   ${migration.filename} (applied ${record.applied_at.toISOString()}, file edited since)`)
+    } else {
+      console.log(`✅ applied   ${migration.filename} (${record.applied_at.toISOString()})`)
+    }
+  }
+
+  // Applied on this database but no longer in the repo, e.g. from a newer branch
+  for (const record of applied.values()) {
+    if (!migrations.some(migration => migration.version === record.version)) {
+      console.log(`❓ unknown   ${record.version}_${record.name}.sql (not in migrations/)`)
+    }
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+
+  if (!args.databaseUrl) {
+    console.error('❌ Set DATABASE_URL or pass --database-url=postgres://...')
+    process.exit(1)
+  }
+
+  const migrations = loadMigrations()
+  const latestVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0
+
+  if (latestVersion !== EXPECTED_SCHEMA_VERSION) {
+    console.error(`❌ The newest migration is ${latestVersion} but src/lib/schema-version.ts expects ${EXPECTED_SCHEMA_VERSION}.`)
+    console.error('   Update EXPECTED_SCHEMA_VERSION (and the Database type) together with new migrations.')
+    process.exit(1)
+  }
+
+  const client = new Client({ connectionString: args.databaseUrl })
+  await client.connect()
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [LOCK_KEY])
+    await ensureMigrationsTable(client)
+    const applied = await getAppliedMigrations(client)
+
+    if (args.status) {
+      printStatus(migrations, applied)
+      return
+    }
+
+    for (const migration of migrations) {
+      const record = applied.get(migration.version)
+      if (record && record.checksum !== migration.checksum) {
+        // Never re-run an applied migration; changes belong in a new file
+        console.warn(`⚠️  ${migration.filename} was edited after it was applied; add a new migration instead`)
+      }
+    }
+
+    const pending = migrations.filter(migration => !applied.has(migration.version))
+
+    if (pending.length === 0) {
+      console.log(`✅ Database is up to date (version ${latestVersion})`)
+      return
+    }
+
+    console.log(`🔄 Applying ${pending.length} migration(s)...`)
+    for (const migration of pending) {
+      await applyMigration(client, migration)
+    }
+    console.log(`✅ Database migrated to version ${latestVersion}`)
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [LOCK_KEY]).catch(() => undefined)
+    await client.end()
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Migration failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
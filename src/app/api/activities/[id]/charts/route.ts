@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getRepositories } from '@/lib/repositories'
+import { loadActivityStreams } from '@/lib/activity-streams'
+import { buildActivityCharts, parseClimbGrade, MAX_CLIMB_GRADE, MIN_CLIMB_GRADE } from '@/lib/activity-charts'
+import { StravaRateLimitError } from '@/lib/strava-rate-limit'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+/**
+ * Elevation profile, kilometer splits, grade distribution and climbs for one of the
+ * signed-in user's stored activities. `?climbGrade=10` flags climbs at or above 10%
+ * instead of the default. `charts` is null when the activity has no altitude and
+ * distance streams.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = generateRequestId()
+  const timer = logger.time('activity-charts', 'activity-charts-api')
+  const { id } = await params
+
+  logger.logRequest('GET', request.nextUrl.pathname, {
+    activityId: id,
+    climbGrade: request.nextUrl.searchParams.get('climbGrade')
+  }, 'activity-charts-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('GET', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'activity-charts-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const activityId = Number(id)
+  const climbGrade = parseClimbGrade(request.nextUrl.searchParams.get('climbGrade'))
+
+  if (!Number.isInteger(activityId) || activityId <= 0 || climbGrade === null) {
+    timer.end()
+    const response = NextResponse.json({
+      error: climbGrade === null
+        ? `climbGrade must be a number from ${MIN_CLIMB_GRADE} to ${MAX_CLIMB_GRADE}`
+        : 'Invalid activity id',
+      requestId
+    }, { status: 400 })
+    logger.logResponse('GET', request.nextUrl.pathname, 400, undefined, { error: 'invalid_params' }, 'activity-charts-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const activity = await getRepositories().activities.getById(userId, activityId)
+
+    if (!activity) {
+      timer.end()
+      const response = NextResponse.json({ error: 'Activity not found', requestId }, { status: 404 })
+      logger.logResponse('GET', request.nextUrl.pathname, 404, undefined, { activityId }, 'activity-charts-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const streams = await loadActivityStreams(userId, activity, requestId)
+    const charts = streams && buildActivityCharts(streams, climbGrade)
+
+    timer.end()
+    const response = NextResponse.json({ activityId, charts, requestId }, {
+      // Derived from streams, which don't change once recorded
+      headers: { 'Cache-Control': 'private, max-age=3600' }
+    })
+    logger.logResponse('GET', request.nextUrl.pathname, 200, undefined, {
+      activityId,
+      splits: charts?.splits.length ?? 0,
+      climbs: charts?.climbs.length ?? 0
+    }, 'activity-charts-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+
+    if (error instanceof StravaRateLimitError) {
+      logger.warn('Chart streams deferred by Strava rate limit', {
+        activityId,
+        retryAt: error.retryAt.toISOString()
+      }, 'activity-charts-api', userId, requestId)
+
+      const response = NextResponse.json({
+        error: 'Strava rate limit reached',
+        message: `Charts can be loaded after ${error.retryAt.toISOString()}.`,
+        retryAt: error.retryAt.toISOString(),
+        requestId
+      }, { status: 429 })
+      response.headers.set('Retry-After', Math.max(0, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000)).toString())
+      logger.logResponse('GET', request.nextUrl.pathname, 429, undefined, { error: 'rate_limited' }, 'activity-charts-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    logger.error('Error building activity charts', error, { activityId }, 'activity-charts-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to build activity charts',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('GET', request.nextUrl.pathname, 500, undefined, { error: 'charts_failed' }, 'activity-charts-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getRepositories } from '@/lib/repositories'
+import { loadActivityStreams, type ActivityStreams } from '@/lib/activity-streams'
+import { STRAVA_STREAM_KEYS, type StravaStreamKey } from '@/lib/strava'
+import { StravaRateLimitError } from '@/lib/strava-rate-limit'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+/**
+ * Point-by-point streams for one of the signed-in user's stored activities, fetched
+ * from Strava on first request. `?keys=latlng,altitude` limits the response to those
+ * streams. `streams` is null when the activity has none (uploads, manual entries and
+ * activities recorded without GPS).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = generateRequestId()
+  const timer = logger.time('activity-streams', 'activity-streams-api')
+  const { id } = await params
+
+  logger.logRequest('GET', request.nextUrl.pathname, {
+    activityId: id,
+    keys: request.nextUrl.searchParams.get('keys')
+  }, 'activity-streams-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('GET', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'activity-streams-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const activityId = Number(id)
+  const keysParam = request.nextUrl.searchParams.get('keys')
+  const keys = keysParam ? keysParam.split(',').map(key => key.trim()) : STRAVA_STREAM_KEYS
+  const unknownKeys = keys.filter(key => !STRAVA_STREAM_KEYS.includes(key as StravaStreamKey))
+
+  if (!Number.isInteger(activityId) || activityId <= 0 || unknownKeys.length > 0) {
+    timer.end()
+    const response = NextResponse.json({
+      error: unknownKeys.length > 0
+        ? `Unknown stream keys: ${unknownKeys.join(', ')}; use ${STRAVA_STREAM_KEYS.join(', ')}`
+        : 'Invalid activity id',
+      requestId
+    }, { status: 400 })
+    logger.logResponse('GET', request.nextUrl.pathname, 400, undefined, { error: 'invalid_params' }, 'activity-streams-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const activity = await getRepositories().activities.getById(userId, activityId)
+
+    if (!activity) {
+      timer.end()
+      const response = NextResponse.json({ error: 'Activity not found', requestId }, { status: 404 })
+      logger.logResponse('GET', request.nextUrl.pathname, 404, undefined, { activityId }, 'activity-streams-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const streams = await loadActivityStreams(userId, activity, requestId)
+    const selected = streams && {
+      pointCount: streams.pointCount,
+      ...Object.fromEntries(keys.map(key => [key, streams[key as StravaStreamKey]]))
+    } as Partial<ActivityStreams>
+
+    timer.end()
+    const response = NextResponse.json({ activityId, streams: selected, requestId }, {
+      // Streams don't change once recorded
+      headers: { 'Cache-Control': 'private, max-age=3600' }
+    })
+    logger.logResponse('GET', request.nextUrl.pathname, 200, undefined, { activityId, points: streams?.pointCount ?? 0 }, 'activity-streams-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+
+    if (error instanceof StravaRateLimitError) {
+      logger.warn('Stream fetch deferred by Strava rate limit', {
+        activityId,
+        retryAt: error.retryAt.toISOString()
+      }, 'activity-streams-api', userId, requestId)
+
+      const response = NextResponse.json({
+        error: 'Strava rate limit reached',
+        message: `Streams can be fetched after ${error.retryAt.toISOString()}.`,
+        retryAt: error.retryAt.toISOString(),
+        requestId
+      }, { status: 429 })
+      response.headers.set('Retry-After', Math.max(0, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000)).toString())
+      logger.logResponse('GET', request.nextUrl.pathname, 429, undefined, { error: 'rate_limited' }, 'activity-streams-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    logger.error('Error loading activity streams', error, { activityId }, 'activity-streams-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to load activity streams',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('GET', request.nextUrl.pathname, 500, undefined, { error: 'streams_failed' }, 'activity-streams-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getRepositories } from '@/lib/repositories'
+import {
+  parseManualActivity,
+  toManualActivityFields,
+  toManualActivityInsert,
+  toManualActivityUpdate
+} from '@/lib/manual-activities'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+function parseId(value: unknown): number | null {
+  const id = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+/**
+ * Add a hike by hand. Body: `name`, `date`, `distance` (m) and `movingTime` (s) are
+ * required; `elevationGain` (m), `sportType` (default Hike), `locationCity`,
+ * `locationCountry` and `description` are optional.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('manual-activity-create', 'manual-activities-api')
+
+  logger.logRequest('POST', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent')
+  }, 'manual-activities-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('POST', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'manual-activities-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = parseManualActivity(body)
+
+    if (!parsed.activity) {
+      timer.end()
+      logger.warn('Rejected invalid manual activity', { errors: parsed.errors }, 'manual-activities-api', userId, requestId)
+
+      const response = NextResponse.json({ error: 'Invalid activity', errors: parsed.errors, requestId }, { status: 400 })
+      logger.logResponse('POST', request.nextUrl.pathname, 400, undefined, { error: 'invalid_activity' }, 'manual-activities-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const activity = await getRepositories().activities.insert(toManualActivityInsert(parsed.activity, userId))
+
+    logger.info('Manual activity created', {
+      activityId: activity.id,
+      distanceKm: Math.round(activity.distance / 100) / 10,
+      startDate: activity.start_date
+    }, 'manual-activities-api', userId, requestId)
+
+    timer.end()
+    const response = NextResponse.json({ activity, requestId }, { status: 201 })
+    logger.logResponse('POST', request.nextUrl.pathname, 201, undefined, { activityId: activity.id }, 'manual-activities-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error creating manual activity', error, { userId }, 'manual-activities-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to create activity',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('POST', request.nextUrl.pathname, 500, undefined, { error: 'create_failed' }, 'manual-activities-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
+
+/**
+ * Edit a manual entry. Body: `id` plus the fields to change; omitted fields keep their
+ * value. Activities from Strava or uploaded files can't be edited here.
+ */
+export async function PATCH(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('manual-activity-update', 'manual-activities-api')
+
+  logger.logRequest('PATCH', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent')
+  }, 'manual-activities-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('PATCH', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'manual-activities-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const id = parseId(body?.id)
+
+    if (!id) {
+      timer.end()
+      const response = NextResponse.json({ error: 'An activity id is required', requestId }, { status: 400 })
+      logger.logResponse('PATCH', request.nextUrl.pathname, 400, undefined, { error: 'missing_id' }, 'manual-activities-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const { activities } = getRepositories()
+    const existing = await activities.getById(userId, id)
+
+    if (!existing || existing.source !== 'manual') {
+      timer.end()
+      const response = NextResponse.json({ error: 'Manual activity not found', requestId }, { status: 404 })
+      logger.logResponse('PATCH', request.nextUrl.pathname, 404, undefined, { activityId: id, source: existing?.source }, 'manual-activities-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const parsed = parseManualActivity(body, toManualActivityFields(existing))
+
+    if (!parsed.activity) {
+      timer.end()
+      logger.warn('Rejected invalid manual activity update', { activityId: id, errors: parsed.errors }, 'manual-activities-api', userId, requestId)
+
+      const response = NextResponse.json({ error: 'Invalid activity', errors: parsed.errors, requestId }, { status: 400 })
+      logger.logResponse('PATCH', request.nextUrl.pathname, 400, undefined, { error: 'invalid_activity' }, 'manual-activities-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const activity = await activities.update(userId, id, toManualActivityUpdate(parsed.activity))
+
+    logger.info('Manual activity updated', { activityId: id }, 'manual-activities-api', userId, requestId)
+
+    timer.end()
+    const response = NextResponse.json({ activity, requestId })
+    logger.logResponse('PATCH', request.nextUrl.pathname, 200, undefined, { activityId: id }, 'manual-activities-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error updating manual activity', error, { userId }, 'manual-activities-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to update activity',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('PATCH', request.nextUrl.pathname, 500, undefined, { error: 'update_failed' }, 'manual-activities-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
+
+/**
+ * Delete a manual entry: `DELETE /api/activities/manual?id=123`.
+ */
+export async function DELETE(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('manual-activity-delete', 'manual-activities-api')
+
+  logger.logRequest('DELETE', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent'),
+    activityId: request.nextUrl.searchParams.get('id')
+  }, 'manual-activities-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('DELETE', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'manual-activities-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const id = parseId(request.nextUrl.searchParams.get('id'))
+
+  if (!id) {
+    timer.end()
+    const response = NextResponse.json({ error: 'An activity id is required', requestId }, { status: 400 })
+    logger.logResponse('DELETE', request.nextUrl.pathname, 400, undefined, { error: 'missing_id' }, 'manual-activities-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const { activities } = getRepositories()
+    const existing = await activities.getById(userId, id)
+
+    if (!existing || existing.source !== 'manual') {
+      timer.end()
+      const response = NextResponse.json({ error: 'Manual activity not found', requestId }, { status: 404 })
+      logger.logResponse('DELETE', request.nextUrl.pathname, 404, undefined, { activityId: id, source: existing?.source }, 'manual-activities-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    await activities.deleteById(userId, id)
+
+    logger.info('Manual activity deleted', {
+      activityId: id,
+      distanceKm: Math.round(existing.distance / 100) / 10
+    }, 'manual-activities-api', userId, requestId)
+
+    timer.end()
+    const response = NextResponse.json({ deleted: id, requestId })
+    logger.logResponse('DELETE', request.nextUrl.pathname, 200, undefined, { activityId: id }, 'manual-activities-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error deleting manual activity', error, { userId, activityId: id }, 'manual-activities-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to delete activity',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('DELETE', request.nextUrl.pathname, 500, undefined, { error: 'delete_failed' }, 'manual-activities-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
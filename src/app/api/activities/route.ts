@@ -1,5 +1,12 @@
 import { NextResponse } from 'next/server'
 import { cache, CACHE_KEYS, CACHE_TTL } from '@/lib/cache'
+import { stravaAPI, toActivityInsert } from '@/lib/strava'
+import { getRepositories } from '@/lib/repositories'
+import { calculateChallengeStats, listGoals, type ChallengeStats } from '@/lib/goals'
+import { getSignedInUserId, isSingleOwnerMode } from '@/lib/auth'
+import { DEFAULT_QUALIFICATION_RULES, summarizeQualification } from '@/lib/qualification'
+import { stravaFetch, StravaRateLimitError } from '@/lib/strava-rate-limit'
+import { stravaUrl } from '@/lib/strava-url'
 import { logger, generateRequestId, withRequestId } from '@/lib/logger'
 
 // Enable better caching for production
@@ -47,7 +54,7 @@ async function refreshStravaToken(requestId: string): Promise<string | null> {
   try {
     logger.info('Making token refresh request to Strava', undefined, 'activities-api', undefined, requestId)
     
-    const response = await fetch('https://www.strava.com/oauth/token', {
+    const response = await fetch(stravaUrl('/oauth/token'), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -90,7 +97,14 @@ async function refreshStravaToken(requestId: string): Promise<string | null> {
   }
 }
 
-async function fetchStravaActivities(accessToken: string, requestId: string): Promise<StravaActivity[]> {
+/**
+ * Returns the activities together with the access token that fetched them, which
+ * differs from the env token when a refresh was needed.
+ */
+async function fetchStravaActivities(
+  accessToken: string,
+  requestId: string
+): Promise<{ activities: StravaActivity[]; accessToken: string }> {
   logger.debug('Starting Strava activities fetch', undefined, 'activities-api', undefined, requestId)
   
   // Check cache first
@@ -102,7 +116,7 @@ async function fetchStravaActivities(accessToken: string, requestId: string): Pr
       cacheTtl: cacheInfo.ttl,
       activitiesCount: cachedActivities.length
     }, 'activities-api', undefined, requestId)
-    return cachedActivities
+    return { activities: cachedActivities, accessToken }
   }
 
   logger.info('Fetching fresh activities from Strava API', undefined, 'activities-api', undefined, requestId)
@@ -110,15 +124,16 @@ async function fetchStravaActivities(accessToken: string, requestId: string): Pr
   const timer = logger.time('strava-api-fetch', 'activities-api')
   
   // Try to fetch activities with current token
-  let response = await fetch(
-    'https://www.strava.com/api/v3/athlete/activities?per_page=200',
+  let response = await stravaFetch(
+    stravaUrl('/api/v3/athlete/activities?per_page=200'),
     {
       headers: {
         Authorization: `Bearer ${accessToken}`,
       },
       // Better caching for production
       next: { revalidate: 900 }
-    }
+    },
+    'activities-api-list'
   )
 
   logger.debug('Initial Strava API response', {
@@ -138,14 +153,15 @@ async function fetchStravaActivities(accessToken: string, requestId: string): Pr
       logger.info('Token refreshed, retrying request', undefined, 'activities-api', undefined, requestId)
       
       // Retry with new token
-      response = await fetch(
-        'https://www.strava.com/api/v3/athlete/activities?per_page=200',
+      response = await stravaFetch(
+        stravaUrl('/api/v3/athlete/activities?per_page=200'),
         {
           headers: {
             Authorization: `Bearer ${accessToken}`,
           },
           next: { revalidate: 900 }
-        }
+        },
+        'activities-api-list'
       )
       
       logger.debug('Retry Strava API response', {
@@ -191,7 +207,19 @@ async function fetchStravaActivities(accessToken: string, requestId: string): Pr
     activitiesCount: activities.length
   }, 'activities-api', undefined, requestId)
   
-  return activities
+  return { activities, accessToken }
+}
+
+// user_id stamped on rows served in single-owner mode, which has no users row
+const SINGLE_OWNER_USER_ID = 'single-owner'
+
+type OwnerActivity = ReturnType<typeof toActivityInsert> & { id: number }
+
+// X-Stats only carries the active distance goal's totals: goal names are free text and
+// header values must be Latin-1, so per-challenge progress is in the body's `stats`.
+// Omitted for users whose challenges are all in other metrics.
+function setStatsHeader(response: NextResponse, stats: ChallengeStats): void {
+  if (stats.active) response.headers.set('X-Stats', JSON.stringify(stats.active))
 }
 
 export async function GET(request: Request) {
@@ -204,7 +232,54 @@ export async function GET(request: Request) {
   }, 'activities-api', requestId)
 
   try {
-    // Validate environment
+    // Signed-in users get their own synced rows from Supabase
+    const userId = await getSignedInUserId()
+
+    if (userId) {
+      logger.info('Serving synced activities from Supabase', { userId }, 'activities-api', userId, requestId)
+
+      const rows = await getRepositories().activities.listByUser(userId)
+      const stats = calculateChallengeStats(rows, await listGoals(userId))
+
+      logger.info('Statistics calculated', {
+        ...stats.active,
+        challenges: stats.challenges.length,
+        hasDistanceGoal: stats.active !== null
+      }, 'activities-api', userId, requestId)
+
+      const response = NextResponse.json({ activities: rows, stats })
+      // Per-user data must never be shared through a CDN cache
+      response.headers.set('Cache-Control', 'private, no-store')
+      response.headers.set('X-Data-Source', 'supabase')
+      setStatsHeader(response, stats)
+
+      timer.end()
+      logger.logResponse('GET', request.url, 200, undefined, {
+        dataSource: 'supabase',
+        activitiesCount: rows.length,
+        stats
+      }, 'activities-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    if (!isSingleOwnerMode()) {
+      logger.info('Anonymous request outside single-owner mode', undefined, 'activities-api', undefined, requestId)
+
+      const response = NextResponse.json(
+        {
+          error: 'Not authenticated',
+          authRequired: true,
+          requestId
+        },
+        { status: 401 }
+      )
+
+      timer.end()
+      logger.logResponse('GET', request.url, 401, undefined, { error: 'not_authenticated' }, 'activities-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    // Single-owner mode: validate environment
     const requiredEnvVars = [
       'STRAVA_ACCESS_TOKEN',
       'STRAVA_CLIENT_ID', 
@@ -254,15 +329,17 @@ export async function GET(request: Request) {
 
     // Check for cached filtered results first
     if (!forceRefresh) {
-      const cachedFiltered = cache.get(CACHE_KEYS.FILTERED_ACTIVITIES)
+      const cachedFiltered = cache.get<OwnerActivity[]>(CACHE_KEYS.FILTERED_ACTIVITIES)
       if (cachedFiltered) {
         const cacheInfo = cache.getInfo(CACHE_KEYS.FILTERED_ACTIVITIES)
         logger.info('Returning cached filtered activities', {
           cacheAge: cacheInfo.age,
-          activitiesCount: Array.isArray(cachedFiltered) ? cachedFiltered.length : 'unknown'
+          activitiesCount: cachedFiltered.length
         }, 'activities-api', undefined, requestId)
         
-        const response = NextResponse.json(cachedFiltered)
+        const stats = calculateChallengeStats(cachedFiltered, [])
+        const response = NextResponse.json({ activities: cachedFiltered, stats })
+        setStatsHeader(response, stats)
         response.headers.set('Cache-Control', 'public, s-maxage=900, stale-while-revalidate=1800')
         response.headers.set('X-Cache-Status', 'HIT')
         response.headers.set('X-Cache-Age', cacheInfo.age?.toString() || '0')
@@ -302,70 +379,52 @@ export async function GET(request: Request) {
     }, 'activities-api', undefined, requestId)
 
     // Fetch activities from Strava
-    const activities = await fetchStravaActivities(accessToken, requestId)
+    const listed = await fetchStravaActivities(accessToken, requestId)
+
+    // Descriptions only come back from the detail endpoint; without them no hashtag can match
+    const { activities } = await stravaAPI.getActivitiesWithDetails(listed.accessToken, listed.activities)
 
-    // Filter for hiking activities with #3800km hashtag
-    logger.info('Filtering activities for hiking with #3800km hashtag', {
-      totalActivities: activities.length
+    // Single-owner mode has no per-user settings, so it counts with the default rules
+    logger.info('Filtering activities with default qualification rules', {
+      totalActivities: activities.length,
+      rules: DEFAULT_QUALIFICATION_RULES
     }, 'activities-api', undefined, requestId)
 
-    const hikingTypes = ['Hike']
-    const filteredActivities = activities.filter(activity => {
-      const isHikingType = hikingTypes.includes(activity.type) || 
-                          hikingTypes.includes(activity.sport_type)
-      
-      const hasHashtag = activity.description && 
-                        activity.description.toLowerCase().includes('#3800km')
-      
-      logger.debug('Activity filter check', {
-        activityId: activity.id,
-        activityName: activity.name,
-        type: activity.type,
-        sport_type: activity.sport_type,
-        isHikingType,
-        hasDescription: !!activity.description,
-        hasHashtag,
-        included: isHikingType && hasHashtag
-      }, 'activities-api', undefined, requestId)
-      
-      return isHikingType && hasHashtag
-    })
+    const { qualifying: filteredActivities, results } = stravaAPI.qualifyActivities(activities, DEFAULT_QUALIFICATION_RULES)
 
     logger.info('Activity filtering completed', {
       totalActivities: activities.length,
       filteredActivities: filteredActivities.length,
       totalDistance: filteredActivities.reduce((sum, a) => sum + a.distance, 0),
-      filterCriteria: { hikingTypes, hashtag: '#3800km' }
+      qualification: summarizeQualification(results)
     }, 'activities-api', undefined, requestId)
 
-    // Calculate summary statistics
-    const totalDistance = filteredActivities.reduce((sum, activity) => sum + activity.distance, 0)
-    const totalKm = totalDistance / 1000
-    const goalKm = 3800
-    const progressPercentage = (totalKm / goalKm) * 100
-
-    const stats = {
-      totalActivities: filteredActivities.length,
-      totalDistance,
-      totalKm: Math.round(totalKm * 10) / 10,
-      goalKm,
-      progressPercentage: Math.round(progressPercentage * 10) / 10,
-      remainingKm: Math.round((goalKm - totalKm) * 10) / 10
-    }
+    // Same row shape as the Supabase path so the dashboard renders both modes alike
+    const ownerRows: OwnerActivity[] = filteredActivities.map(activity => ({
+      id: activity.id,
+      ...toActivityInsert(activity, SINGLE_OWNER_USER_ID)
+    }))
+
+    // The owner has no users row to hang goals on, so only the default challenge applies
+    const stats = calculateChallengeStats(ownerRows, [])
 
-    logger.info('Statistics calculated', stats, 'activities-api', undefined, requestId)
+    logger.info('Statistics calculated', {
+      ...stats.active,
+      challenges: stats.challenges.length
+    }, 'activities-api', undefined, requestId)
 
     // Cache the filtered results
-    cache.set(CACHE_KEYS.FILTERED_ACTIVITIES, filteredActivities, CACHE_TTL.FILTERED_ACTIVITIES)
+    cache.set(CACHE_KEYS.FILTERED_ACTIVITIES, ownerRows, CACHE_TTL.FILTERED_ACTIVITIES)
     logger.debug('Cached filtered activities', {
       cacheKey: CACHE_KEYS.FILTERED_ACTIVITIES,
       ttlMinutes: CACHE_TTL.FILTERED_ACTIVITIES
     }, 'activities-api', undefined, requestId)
 
-    const response = NextResponse.json(filteredActivities)
+    const response = NextResponse.json({ activities: ownerRows, stats })
     response.headers.set('Cache-Control', 'public, s-maxage=900, stale-while-revalidate=1800')
+    response.headers.set('X-Data-Source', 'strava')
     response.headers.set('X-Cache-Status', 'MISS')
-    response.headers.set('X-Stats', JSON.stringify(stats))
+    setStatsHeader(response, stats)
 
     timer.end()
     logger.logResponse('GET', request.url, 200, undefined, {
@@ -378,6 +437,26 @@ export async function GET(request: Request) {
 
   } catch (error) {
     timer.end()
+
+    if (error instanceof StravaRateLimitError) {
+      logger.warn('Strava rate limit reached while loading activities', {
+        retryAt: error.retryAt.toISOString()
+      }, 'activities-api', undefined, requestId)
+
+      const response = NextResponse.json(
+        {
+          error: 'Strava rate limit reached, please try again later',
+          retryAt: error.retryAt.toISOString(),
+          requestId
+        },
+        { status: 429 }
+      )
+      response.headers.set('Retry-After', Math.max(0, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000)).toString())
+
+      logger.logResponse('GET', request.url, 429, undefined, { error: 'rate_limited' }, 'activities-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
     logger.error('Activities API error', error, {
       url: request.url,
       method: request.method
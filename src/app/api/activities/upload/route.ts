@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getRepositories } from '@/lib/repositories'
+import { ActivityFileError, parseActivityFile, toUploadedActivityInsert } from '@/lib/activity-files'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+// A day-long hike recorded every second is a few MB of GPX; anything far bigger isn't a hike
+const MAX_FILE_BYTES = 20 * 1024 * 1024
+const MAX_FILES = 20
+
+interface UploadResult {
+  filename: string
+  status: 'created' | 'duplicate' | 'invalid'
+  activityId?: number
+  name?: string
+  distance?: number
+  startDate?: string
+  // The stored activity this file duplicates
+  duplicateOf?: { id: number, name: string, source: string }
+  error?: string
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return !!error && typeof error === 'object' && 'code' in error && error.code === '23505'
+}
+
+/**
+ * Import hikes recorded outside Strava from GPX, TCX or FIT files (multipart field
+ * `file`, repeatable). Optional `name`, `sportType` and `description` fields override
+ * what the file says; `name` only applies to a single-file upload. Files that start at
+ * the same moment as a stored activity, or have the same track, are reported as
+ * duplicates rather than stored twice.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('activity-upload', 'activity-upload-api')
+
+  logger.logRequest('POST', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent'),
+    contentLength: request.headers.get('content-length')
+  }, 'activity-upload-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('POST', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'activity-upload-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  let formData: FormData
+  try {
+    formData = await request.formData()
+  } catch (error) {
+    timer.end()
+    logger.warn('Upload body is not multipart form data', { error: error instanceof Error ? error.message : String(error) }, 'activity-upload-api', userId, requestId)
+    const response = NextResponse.json({ error: 'Expected a multipart/form-data upload', requestId }, { status: 400 })
+    logger.logResponse('POST', request.nextUrl.pathname, 400, undefined, { error: 'invalid_body' }, 'activity-upload-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const files = formData.getAll('file').filter((entry): entry is File => typeof entry !== 'string')
+
+  if (files.length === 0 || files.length > MAX_FILES) {
+    timer.end()
+    const response = NextResponse.json({
+      error: files.length === 0 ? 'No file uploaded' : `Upload at most ${MAX_FILES} files at a time`,
+      requestId
+    }, { status: 400 })
+    logger.logResponse('POST', request.nextUrl.pathname, 400, undefined, { error: 'invalid_file_count', files: files.length }, 'activity-upload-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const field = (name: string) => {
+    const value = formData.get(name)
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined
+  }
+  const name = files.length === 1 ? field('name') : undefined
+  const sportType = field('sportType')
+  const description = field('description')
+
+  const { activities } = getRepositories()
+  const results: UploadResult[] = []
+
+  try {
+    for (const file of files) {
+      if (file.size > MAX_FILE_BYTES) {
+        results.push({ filename: file.name, status: 'invalid', error: `File is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB` })
+        continue
+      }
+
+      let parsed
+      try {
+        parsed = parseActivityFile(file.name, Buffer.from(await file.arrayBuffer()))
+      } catch (error) {
+        if (!(error instanceof ActivityFileError)) throw error
+        logger.warn('Rejected activity file', { filename: file.name, reason: error.message }, 'activity-upload-api', userId, requestId)
+        results.push({ filename: file.name, status: 'invalid', error: error.message })
+        continue
+      }
+
+      const row = toUploadedActivityInsert(parsed, { userId, filename: file.name, name, sportType, description })
+
+      const duplicate = await activities.findDuplicate(userId, row.start_date, parsed.summary.trackHash)
+      if (duplicate) {
+        logger.info('Skipping duplicate activity file', {
+          filename: file.name,
+          duplicateOf: duplicate.id,
+          duplicateSource: duplicate.source
+        }, 'activity-upload-api', userId, requestId)
+        results.push({
+          filename: file.name,
+          status: 'duplicate',
+          duplicateOf: { id: duplicate.id, name: duplicate.name, source: duplicate.source }
+        })
+        continue
+      }
+
+      try {
+        const stored = await activities.insert(row)
+        logger.info('Stored uploaded activity', {
+          filename: file.name,
+          format: parsed.format,
+          activityId: stored.id,
+          distanceKm: Math.round(stored.distance / 100) / 10,
+          movingTime: stored.moving_time,
+          elevationGain: Math.round(stored.elevation_gain)
+        }, 'activity-upload-api', userId, requestId)
+        results.push({
+          filename: file.name,
+          status: 'created',
+          activityId: stored.id,
+          name: stored.name,
+          distance: stored.distance,
+          startDate: stored.start_date
+        })
+      } catch (error) {
+        // Another upload of the same track won the race between the check and the insert
+        if (!isUniqueViolation(error)) throw error
+        results.push({ filename: file.name, status: 'duplicate' })
+      }
+    }
+
+    const counts = {
+      created: results.filter(result => result.status === 'created').length,
+      duplicates: results.filter(result => result.status === 'duplicate').length,
+      invalid: results.filter(result => result.status === 'invalid').length
+    }
+    const status = counts.created > 0 ? 201 : 200
+
+    timer.end()
+    const response = NextResponse.json({ ...counts, results, requestId }, { status })
+    logger.logResponse('POST', request.nextUrl.pathname, status, undefined, counts, 'activity-upload-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error storing uploaded activities', error, { files: files.length }, 'activity-upload-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to store uploaded activities',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      results,
+      requestId
+    }, { status: 500 })
+    logger.logResponse('POST', request.nextUrl.pathname, 500, undefined, { error: 'store_failed' }, 'activity-upload-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { stravaAPI } from '@/lib/strava'
-import { supabase } from '@/lib/supabase'
+import { getRepositories } from '@/lib/repositories'
 import { logger, generateRequestId, withRequestId } from '@/lib/logger'
 
 export async function GET(request: NextRequest) {
@@ -64,22 +64,17 @@ export async function GET(request: NextRequest) {
       stravaId: tokenData.athlete.id.toString()
     }, 'strava-auth-callback', tokenData.athlete.id.toString(), requestId)
     
-    const { error: dbError } = await supabase
-      .from('users')
-      .upsert({
+    try {
+      await getRepositories().users.upsert({
         id: tokenData.athlete.id.toString(),
         strava_id: tokenData.athlete.id.toString(),
         access_token: tokenData.access_token,
         refresh_token: tokenData.refresh_token,
         expires_at: tokenData.expires_at,
       })
-
-    if (dbError) {
+    } catch (dbError) {
       logger.error('Database error while storing user', dbError, {
-        athleteId: tokenData.athlete.id,
-        errorCode: dbError.code,
-        errorMessage: dbError.message,
-        errorDetails: dbError.details
+        athleteId: tokenData.athlete.id
       }, 'strava-auth-callback', tokenData.athlete.id.toString(), requestId)
       
       const response = NextResponse.redirect(new URL('/?error=db_error', request.url))
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { BackupError, parseBackupBundle, restoreBackup } from '@/lib/backup'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+/**
+ * Restore a bundle from `GET /api/backup` (the JSON as the request body) into the
+ * signed-in user's account. Safe to repeat: activities already stored are updated in
+ * place and nothing outside the bundle is deleted.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('backup-restore', 'backup-api')
+
+  logger.logRequest('POST', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent'),
+    contentLength: request.headers.get('content-length')
+  }, 'backup-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('POST', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'backup-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = parseBackupBundle(body)
+
+    if (!parsed.bundle) {
+      timer.end()
+      logger.warn('Rejected invalid backup bundle', { errors: parsed.errors }, 'backup-api', userId, requestId)
+
+      const response = NextResponse.json({ error: 'Invalid backup', errors: parsed.errors, requestId }, { status: 400 })
+      logger.logResponse('POST', request.nextUrl.pathname, 400, undefined, { error: 'invalid_backup' }, 'backup-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const result = await restoreBackup(userId, parsed.bundle, requestId)
+
+    timer.end()
+    const response = NextResponse.json({ message: 'Backup restored', ...result, requestId })
+    logger.logResponse('POST', request.nextUrl.pathname, 200, undefined, { inserted: result.inserted, updated: result.updated, skipped: result.skipped }, 'backup-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+
+    if (error instanceof BackupError) {
+      logger.warn('Backup restore refused', { error: error.message }, 'backup-api', userId, requestId)
+      const response = NextResponse.json({ error: error.message, requestId }, { status: 400 })
+      logger.logResponse('POST', request.nextUrl.pathname, 400, undefined, { error: 'restore_refused' }, 'backup-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    logger.error('Error restoring backup', error, { userId }, 'backup-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to restore backup',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('POST', request.nextUrl.pathname, 500, undefined, { error: 'restore_failed' }, 'backup-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
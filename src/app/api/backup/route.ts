@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { createBackup } from '@/lib/backup'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+/**
+ * Download the signed-in user's data as a versioned JSON bundle: every activity
+ * (synced, uploaded and manual), the qualification rules and the sync watermark. OAuth
+ * tokens are never included. Restore it with `POST /api/backup/restore`.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('backup', 'backup-api')
+
+  logger.logRequest('GET', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent')
+  }, 'backup-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('GET', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'backup-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const bundle = await createBackup(userId, requestId)
+    const filename = `3800km-backup-${userId}-${bundle.createdAt.slice(0, 10)}.json`
+
+    timer.end()
+    const response = new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+    logger.logResponse('GET', request.nextUrl.pathname, 200, undefined, { activities: bundle.activities.length }, 'backup-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error creating backup', error, { userId }, 'backup-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to create backup',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('GET', request.nextUrl.pathname, 500, undefined, { error: 'backup_failed' }, 'backup-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
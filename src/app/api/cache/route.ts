@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { cache, CACHE_KEYS } from '@/lib/cache'
 import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+import { stravaRateLimiter } from '@/lib/strava-rate-limit'
 
 export async function GET(request: Request) {
   const requestId = generateRequestId()
@@ -18,6 +19,7 @@ export async function GET(request: Request) {
       stats: cache.getStats(),
       activities: cache.getInfo(CACHE_KEYS.STRAVA_ACTIVITIES),
       filteredActivities: cache.getInfo(CACHE_KEYS.FILTERED_ACTIVITIES),
+      stravaRateLimit: stravaRateLimiter.getStatus(),
       timestamp: new Date().toISOString()
     }
 
@@ -27,7 +29,9 @@ export async function GET(request: Request) {
       missRate: cacheStatus.stats.missRate,
       memoryUsage: cacheStatus.stats.totalMemoryUsage,
       activitiesExists: cacheStatus.activities.exists,
-      filteredActivitiesExists: cacheStatus.filteredActivities.exists
+      filteredActivitiesExists: cacheStatus.filteredActivities.exists,
+      stravaShortTermRemaining: cacheStatus.stravaRateLimit.shortTerm.remaining,
+      stravaDailyRemaining: cacheStatus.stravaRateLimit.daily.remaining
     }, 'cache-api', undefined, requestId)
 
     const response = NextResponse.json(cacheStatus)
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+import { getSchemaStatus } from '@/lib/schema-check'
 
 export async function GET(request: Request) {
   const requestId = generateRequestId()
@@ -23,13 +24,19 @@ export async function GET(request: Request) {
       hasStravaClientId: !!process.env.STRAVA_CLIENT_ID,
       hasStravaClientSecret: !!process.env.STRAVA_CLIENT_SECRET,
       hasStravaRefreshToken: !!process.env.STRAVA_REFRESH_TOKEN,
+      stravaBaseUrl: process.env.STRAVA_BASE_URL || 'default',
       
       hasSupabaseUrl: !!process.env.NEXT_PUBLIC_SUPABASE_URL,
       hasSupabaseAnonKey: !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
       
+      singleOwnerMode: process.env.SINGLE_OWNER_MODE === 'true',
+      
       hasBaseUrl: !!process.env.NEXT_PUBLIC_BASE_URL,
       baseUrl: process.env.NEXT_PUBLIC_BASE_URL || 'not set',
       
+      // Applied migrations versus what the code expects
+      schema: await getSchemaStatus(),
+      
       // Deployment info
       timestamp: new Date().toISOString(),
       
@@ -39,12 +46,13 @@ export async function GET(request: Request) {
     
     // Check for missing critical variables
     const requiredVars = [
-      'STRAVA_ACCESS_TOKEN',
       'STRAVA_CLIENT_ID', 
       'STRAVA_CLIENT_SECRET',
-      'STRAVA_REFRESH_TOKEN',
+      'STRAVA_REDIRECT_URI',
       'NEXT_PUBLIC_SUPABASE_URL',
-      'NEXT_PUBLIC_SUPABASE_ANON_KEY'
+      'NEXT_PUBLIC_SUPABASE_ANON_KEY',
+      // The env tokens are only used to serve a single owner's hikes
+      ...(envCheck.singleOwnerMode ? ['STRAVA_ACCESS_TOKEN', 'STRAVA_REFRESH_TOKEN'] : [])
     ]
     
     envCheck.missingVariables = requiredVars.filter(varName => !process.env[varName])
@@ -58,6 +66,10 @@ export async function GET(request: Request) {
       baseUrl: envCheck.baseUrl
     }, 'debug-api', undefined, requestId)
 
+    if (!envCheck.schema.upToDate) {
+      logger.warn('Database schema is behind the application', { ...envCheck.schema }, 'debug-api', undefined, requestId)
+    }
+
     if (envCheck.missingVariables.length > 0) {
       logger.warn('Missing critical environment variables detected', {
         missing: envCheck.missingVariables,
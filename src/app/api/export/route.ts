@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getRepositories, type ActivityRange } from '@/lib/repositories'
+import { countsTowardGoal, getActiveGoal } from '@/lib/goals'
+import { EXPORT_FORMATS, toCsv, toExportRecord, toGpx, type ExportFormat } from '@/lib/export'
+import { decodeActivityStreams } from '@/lib/activity-streams'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  gpx: 'application/gpx+xml; charset=utf-8'
+}
+
+/**
+ * `from` and `to` are inclusive calendar days (UTC). ActivityRange bounds are exclusive,
+ * so widen each by a millisecond / a day.
+ */
+function parseRange(from: string | null, to: string | null): ActivityRange | string {
+  const range: ActivityRange = {}
+
+  if (from) {
+    if (!DATE_ONLY.test(from) || Number.isNaN(Date.parse(from))) return 'from must be a date like 2025-01-31'
+    range.after = new Date(Date.parse(from) - 1).toISOString()
+  }
+  if (to) {
+    if (!DATE_ONLY.test(to) || Number.isNaN(Date.parse(to))) return 'to must be a date like 2025-12-31'
+    range.before = new Date(Date.parse(to) + DAY_MS).toISOString()
+  }
+  if (from && to && from > to) return 'from must be on or before to'
+
+  return range
+}
+
+/**
+ * Download the signed-in user's counted activities — the same rows the dashboard
+ * totals toward the active goal — as `?format=csv` (default), `json` or `gpx`,
+ * optionally limited to `?from=YYYY-MM-DD&to=YYYY-MM-DD`.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('export', 'export-api')
+  const { searchParams } = request.nextUrl
+
+  logger.logRequest('GET', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent'),
+    format: searchParams.get('format'),
+    from: searchParams.get('from'),
+    to: searchParams.get('to')
+  }, 'export-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('GET', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'export-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const format = (searchParams.get('format') || 'csv').toLowerCase() as ExportFormat
+  const range = parseRange(searchParams.get('from'), searchParams.get('to'))
+
+  if (!EXPORT_FORMATS.includes(format) || typeof range === 'string') {
+    timer.end()
+    const response = NextResponse.json({
+      error: typeof range === 'string' ? range : `format must be one of ${EXPORT_FORMATS.join(', ')}`,
+      requestId
+    }, { status: 400 })
+    logger.logResponse('GET', request.nextUrl.pathname, 400, undefined, { error: 'invalid_params' }, 'export-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const [stored, goal] = await Promise.all([
+      getRepositories().activities.listByUser(userId, range),
+      getActiveGoal(userId, requestId)
+    ])
+    // Without a distance goal there is no single total to match, so every stored hike goes
+    const rows = goal ? stored.filter(row => countsTowardGoal(row, goal)) : stored
+    const records = rows.map(toExportRecord)
+
+    let body: string
+    let skipped = 0
+    if (format === 'csv') {
+      body = toCsv(records)
+    } else if (format === 'gpx') {
+      // Only streams already stored: fetching the rest would spend the Strava budget on an export
+      const streams = await getRepositories().streams.listByActivities(userId, rows.map(row => row.id))
+      const gpx = toGpx(rows, new Map(streams.map(row => [row.activity_id, decodeActivityStreams(row)])))
+      body = gpx.gpx
+      skipped = gpx.skipped
+    } else {
+      body = JSON.stringify({
+        exportedAt: new Date().toISOString(),
+        from: searchParams.get('from'),
+        to: searchParams.get('to'),
+        totals: {
+          activities: records.length,
+          distanceKm: Math.round(rows.reduce((sum, row) => sum + row.distance, 0)) / 1000,
+          movingTimeSeconds: rows.reduce((sum, row) => sum + row.moving_time, 0),
+          elevationGainM: Math.round(rows.reduce((sum, row) => sum + row.elevation_gain, 0))
+        },
+        activities: records
+      }, null, 2)
+    }
+
+    const filename = [
+      '3800km-hikes',
+      searchParams.get('from'),
+      searchParams.get('to'),
+    ].filter(Boolean).join('_') + `.${format}`
+
+    logger.info('Export generated', {
+      format,
+      ...range,
+      goalId: goal?.id,
+      activities: rows.length,
+      skippedWithoutTrack: skipped,
+      bytes: body.length
+    }, 'export-api', userId, requestId)
+
+    timer.end()
+    const response = new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Export-Count': String(rows.length),
+        // GPX only: activities left out because they have no stored track
+        ...(format === 'gpx' ? { 'X-Export-Skipped': String(skipped) } : {})
+      }
+    })
+    logger.logResponse('GET', request.nextUrl.pathname, 200, undefined, { format, activities: rows.length }, 'export-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error generating export', error, { userId, format }, 'export-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to export activities',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('GET', request.nextUrl.pathname, 500, undefined, { error: 'export_failed' }, 'export-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getRepositories } from '@/lib/repositories'
+import { parseGoal, toGoal, toGoalFields, toGoalUpdate } from '@/lib/goals'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+function parseId(value: string): number | null {
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+/**
+ * Edit a goal. Body: the fields to change (`name`, `metric`, `target`, `startDate`,
+ * `deadline`, `hashtag`); omitted fields keep their value, null clears the deadline
+ * or hashtag. Changing `metric` needs a `target` in the new unit.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = generateRequestId()
+  const timer = logger.time('goal-update', 'goals-api')
+  const { id: rawId } = await params
+
+  logger.logRequest('PATCH', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent'),
+    goalId: rawId
+  }, 'goals-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('PATCH', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const id = parseId(rawId)
+
+  if (!id) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Invalid goal id', requestId }, { status: 400 })
+    logger.logResponse('PATCH', request.nextUrl.pathname, 400, undefined, { error: 'invalid_id' }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const { goals } = getRepositories()
+    const existing = await goals.getById(userId, id)
+
+    if (!existing) {
+      timer.end()
+      const response = NextResponse.json({ error: 'Goal not found', requestId }, { status: 404 })
+      logger.logResponse('PATCH', request.nextUrl.pathname, 404, undefined, { goalId: id }, 'goals-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = parseGoal(body, toGoalFields(existing))
+
+    if (!parsed.goal) {
+      timer.end()
+      logger.warn('Rejected invalid goal update', { goalId: id, errors: parsed.errors }, 'goals-api', userId, requestId)
+
+      const response = NextResponse.json({ error: 'Invalid goal', errors: parsed.errors, requestId }, { status: 400 })
+      logger.logResponse('PATCH', request.nextUrl.pathname, 400, undefined, { error: 'invalid_goal' }, 'goals-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const updated = await goals.update(userId, id, toGoalUpdate(parsed.goal))
+
+    logger.info('Goal updated', { goalId: id }, 'goals-api', userId, requestId)
+
+    timer.end()
+    const response = NextResponse.json({ goal: updated && toGoal(updated), requestId })
+    logger.logResponse('PATCH', request.nextUrl.pathname, 200, undefined, { goalId: id }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error updating goal', error, { userId, goalId: id }, 'goals-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to update goal',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('PATCH', request.nextUrl.pathname, 500, undefined, { error: 'update_failed' }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
+
+/**
+ * Delete a goal. Activities are unaffected; progress moves to the next active distance
+ * goal, or the default 3800 km once no goals are left.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = generateRequestId()
+  const timer = logger.time('goal-delete', 'goals-api')
+  const { id: rawId } = await params
+
+  logger.logRequest('DELETE', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent'),
+    goalId: rawId
+  }, 'goals-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('DELETE', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const id = parseId(rawId)
+
+  if (!id) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Invalid goal id', requestId }, { status: 400 })
+    logger.logResponse('DELETE', request.nextUrl.pathname, 400, undefined, { error: 'invalid_id' }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const deleted = await getRepositories().goals.deleteById(userId, id)
+
+    if (!deleted) {
+      timer.end()
+      const response = NextResponse.json({ error: 'Goal not found', requestId }, { status: 404 })
+      logger.logResponse('DELETE', request.nextUrl.pathname, 404, undefined, { goalId: id }, 'goals-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    logger.info('Goal deleted', { goalId: id }, 'goals-api', userId, requestId)
+
+    timer.end()
+    const response = NextResponse.json({ deleted: id, requestId })
+    logger.logResponse('DELETE', request.nextUrl.pathname, 200, undefined, { goalId: id }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error deleting goal', error, { userId, goalId: id }, 'goals-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to delete goal',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('DELETE', request.nextUrl.pathname, 500, undefined, { error: 'delete_failed' }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getRepositories } from '@/lib/repositories'
+import { listGoals, parseGoal, selectActiveGoal, toGoal, toGoalInsert } from '@/lib/goals'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+/**
+ * The signed-in user's goals, oldest start first, and the ID of the active distance
+ * goal the progress bar follows (null when the default applies or no goal is a distance
+ * goal).
+ */
+export async function GET(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('goals-list', 'goals-api')
+
+  logger.logRequest('GET', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent')
+  }, 'goals-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('GET', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const goals = await listGoals(userId)
+    const activeGoalId = selectActiveGoal(goals)?.id ?? null
+
+    timer.end()
+    const response = NextResponse.json({ goals, activeGoalId, requestId })
+    logger.logResponse('GET', request.nextUrl.pathname, 200, undefined, { goals: goals.length, activeGoalId }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error listing goals', error, { userId }, 'goals-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to load goals',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('GET', request.nextUrl.pathname, 500, undefined, { error: 'list_failed' }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
+
+/**
+ * Create a goal. Body: `target` and `startDate` (YYYY-MM-DD) are required; `metric`
+ * (distance in km, elevation in m, count of hikes or moving_time in hours, default
+ * distance), `name`, `deadline` (YYYY-MM-DD, inclusive) and `hashtag` (only Strava hikes
+ * tagged with it count, uploaded and manual ones always do) are optional.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('goal-create', 'goals-api')
+
+  logger.logRequest('POST', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent')
+  }, 'goals-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('POST', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = parseGoal(body)
+
+    if (!parsed.goal) {
+      timer.end()
+      logger.warn('Rejected invalid goal', { errors: parsed.errors }, 'goals-api', userId, requestId)
+
+      const response = NextResponse.json({ error: 'Invalid goal', errors: parsed.errors, requestId }, { status: 400 })
+      logger.logResponse('POST', request.nextUrl.pathname, 400, undefined, { error: 'invalid_goal' }, 'goals-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const goal = toGoal(await getRepositories().goals.insert(toGoalInsert(parsed.goal, userId)))
+
+    logger.info('Goal created', {
+      goalId: goal.id,
+      metric: goal.metric,
+      target: goal.target,
+      startDate: goal.startDate,
+      deadline: goal.deadline
+    }, 'goals-api', userId, requestId)
+
+    timer.end()
+    const response = NextResponse.json({ goal, requestId }, { status: 201 })
+    logger.logResponse('POST', request.nextUrl.pathname, 201, undefined, { goalId: goal.id }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error creating goal', error, { userId }, 'goals-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to create goal',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('POST', request.nextUrl.pathname, 500, undefined, { error: 'create_failed' }, 'goals-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
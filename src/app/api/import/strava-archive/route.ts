@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { importStravaArchive, isArchiveError, readStravaArchive } from '@/lib/strava-archive'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+// Years of GPS files compress well; archives over this are usually full of photos
+const MAX_ARCHIVE_BYTES = 512 * 1024 * 1024
+
+/**
+ * The request body, or null once it passes `limit` bytes. Counts what actually arrives:
+ * Content-Length is only what the client claims, and is absent for chunked uploads.
+ */
+async function readBody(request: NextRequest, limit: number): Promise<Buffer | null> {
+  if (!request.body) return Buffer.alloc(0)
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let bytes = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    bytes += value.length
+    if (bytes > limit) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Backfill from Strava's bulk export ("Download your data"). Send the zip as multipart
+ * field `archive`, or as a raw `application/zip` body; a bare activities.csv also works
+ * but stores activities without routes. Runs the same qualification, reconciliation and
+ * watermark update as a sync, recorded in the sync history as an archive import.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('strava-archive-import', 'strava-archive-api')
+
+  logger.logRequest('POST', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent'),
+    contentType: request.headers.get('content-type'),
+    contentLength: request.headers.get('content-length')
+  }, 'strava-archive-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('POST', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'strava-archive-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const tooLarge = () => {
+    timer.end()
+    const response = NextResponse.json({
+      error: `Archive is larger than ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB; upload a zip of just activities.csv and the activities folder`,
+      requestId
+    }, { status: 413 })
+    logger.logResponse('POST', request.nextUrl.pathname, 413, undefined, { error: 'archive_too_large' }, 'strava-archive-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  // Refuse early when the client says it's too big; readBody catches the ones that lie
+  if (Number(request.headers.get('content-length') || 0) > MAX_ARCHIVE_BYTES) {
+    return tooLarge()
+  }
+
+  try {
+    const contentType = request.headers.get('content-type') || ''
+    const body = await readBody(request, MAX_ARCHIVE_BYTES)
+    if (!body) {
+      return tooLarge()
+    }
+
+    let filename = 'archive.zip'
+    let content: Buffer
+
+    if (contentType.startsWith('multipart/form-data')) {
+      const form = await new Response(body, { headers: { 'content-type': contentType } }).formData()
+      const file = form.get('archive')
+      if (!file || typeof file === 'string') {
+        timer.end()
+        const response = NextResponse.json({ error: 'No archive uploaded', requestId }, { status: 400 })
+        logger.logResponse('POST', request.nextUrl.pathname, 400, undefined, { error: 'missing_archive' }, 'strava-archive-api', requestId)
+        return withRequestId(response, requestId)
+      }
+      filename = file.name
+      content = Buffer.from(await file.arrayBuffer())
+    } else {
+      content = body
+      if (contentType.startsWith('text/csv')) {
+        filename = 'activities.csv'
+      }
+    }
+
+    let archive
+    try {
+      archive = readStravaArchive(filename, content)
+    } catch (error) {
+      if (!isArchiveError(error)) throw error
+
+      timer.end()
+      logger.warn('Rejected unreadable Strava archive', { filename, bytes: content.length, error: error.message }, 'strava-archive-api', userId, requestId)
+      const response = NextResponse.json({ error: error.message, requestId }, { status: 400 })
+      logger.logResponse('POST', request.nextUrl.pathname, 400, undefined, { error: 'invalid_archive' }, 'strava-archive-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    logger.info('Strava archive read', {
+      filename,
+      bytes: content.length,
+      activities: archive.activities.length,
+      hasActivityFiles: archive.zip !== null
+    }, 'strava-archive-api', userId, requestId)
+
+    let result
+    try {
+      result = await importStravaArchive(userId, archive, requestId)
+    } catch (error) {
+      if (!isArchiveError(error)) throw error
+
+      timer.end()
+      logger.warn('Strava archive import refused', { error: error.message }, 'strava-archive-api', userId, requestId)
+      const response = NextResponse.json({ error: error.message, requestId }, { status: 422 })
+      logger.logResponse('POST', request.nextUrl.pathname, 422, undefined, { error: 'import_refused' }, 'strava-archive-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    logger.info('Strava archive imported', {
+      fetched: result.fetched,
+      qualified: result.qualified,
+      inserted: result.inserted,
+      skipped: result.skipped,
+      removed: result.reconciliation.removed.length,
+      withoutTrack: result.withoutTrack
+    }, 'strava-archive-api', userId, requestId)
+
+    timer.end()
+    const response = NextResponse.json({
+      message: 'Archive imported successfully',
+      ...result,
+      removed: result.reconciliation.removed.length,
+      requestId
+    })
+    logger.logResponse('POST', request.nextUrl.pathname, 200, undefined, { qualified: result.qualified }, 'strava-archive-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error importing Strava archive', error, { userId }, 'strava-archive-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to import archive',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('POST', request.nextUrl.pathname, 500, undefined, { error: 'import_failed' }, 'strava-archive-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getRepositories } from '@/lib/repositories'
+import { countsTowardGoal, getActiveGoal } from '@/lib/goals'
+import { buildProgressForecast } from '@/lib/progress-forecast'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+/**
+ * The signed-in user's progress toward their active goal: cumulative kilometers by
+ * day, the ideal pace line to the goal's deadline, rolling 4-, 12- and 52-week
+ * averages and the completion dates they project. 404 when none of their goals is a
+ * distance goal.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('progress-forecast', 'progress-forecast-api')
+
+  logger.logRequest('GET', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent')
+  }, 'progress-forecast-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('GET', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'progress-forecast-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const [activities, goal] = await Promise.all([
+      getRepositories().activities.listByUser(userId),
+      getActiveGoal(userId, requestId)
+    ])
+
+    if (!goal) {
+      timer.end()
+      const response = NextResponse.json({
+        error: 'No distance goal',
+        message: 'Forecasts follow the active distance goal; create one to see a forecast',
+        requestId
+      }, { status: 404 })
+      logger.logResponse('GET', request.nextUrl.pathname, 404, undefined, { error: 'no_distance_goal' }, 'progress-forecast-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const forecast = buildProgressForecast(activities.filter(activity => countsTowardGoal(activity, goal)), {
+      goalKm: goal.target,
+      startDate: goal.startDate,
+      deadline: goal.deadline
+    })
+
+    timer.end()
+    const response = NextResponse.json({ goal, ...forecast, requestId })
+    logger.logResponse('GET', request.nextUrl.pathname, 200, undefined, {
+      totalKm: forecast.totalKm,
+      projectedCompletion: forecast.projectedCompletion,
+      onTrack: forecast.onTrack
+    }, 'progress-forecast-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error building progress forecast', error, undefined, 'progress-forecast-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to build progress forecast',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('GET', request.nextUrl.pathname, 500, undefined, { error: 'forecast_failed' }, 'progress-forecast-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getQualificationRules, saveQualificationRules } from '@/lib/user-settings'
+import { DEFAULT_QUALIFICATION_RULES, parseQualificationRules } from '@/lib/qualification'
+import { cache, CACHE_KEYS } from '@/lib/cache'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+export async function GET(request: Request) {
+  const requestId = generateRequestId()
+  const timer = logger.time('qualification-rules-get', 'qualification-rules-api')
+
+  logger.logRequest('GET', request.url, {
+    userAgent: request.headers.get('user-agent')
+  }, 'qualification-rules-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('GET', request.url, 401, undefined, { error: 'not_authenticated' }, 'qualification-rules-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const rules = await getQualificationRules(userId)
+
+    timer.end()
+    const response = NextResponse.json({
+      rules,
+      defaults: DEFAULT_QUALIFICATION_RULES,
+      requestId
+    })
+    logger.logResponse('GET', request.url, 200, undefined, undefined, 'qualification-rules-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error fetching qualification rules', error, { userId }, 'qualification-rules-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to fetch qualification rules',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('GET', request.url, 500, undefined, { error: 'fetch_failed' }, 'qualification-rules-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
+
+/**
+ * Update the signed-in user's rules. Omitted fields keep their current value; send
+ * `{ "reset": true }` to go back to the defaults. Takes effect on the next sync.
+ */
+export async function PUT(request: Request) {
+  const requestId = generateRequestId()
+  const timer = logger.time('qualification-rules-put', 'qualification-rules-api')
+
+  logger.logRequest('PUT', request.url, {
+    userAgent: request.headers.get('user-agent')
+  }, 'qualification-rules-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('PUT', request.url, 401, undefined, { error: 'not_authenticated' }, 'qualification-rules-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const current = await getQualificationRules(userId)
+    const parsed = body?.reset === true
+      ? { rules: DEFAULT_QUALIFICATION_RULES, errors: [] }
+      : parseQualificationRules(body, current)
+
+    if (!parsed.rules) {
+      timer.end()
+      logger.warn('Rejected invalid qualification rules', { errors: parsed.errors }, 'qualification-rules-api', userId, requestId)
+
+      const response = NextResponse.json({ error: 'Invalid rules', errors: parsed.errors, requestId }, { status: 400 })
+      logger.logResponse('PUT', request.url, 400, undefined, { error: 'invalid_rules' }, 'qualification-rules-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    await saveQualificationRules(userId, parsed.rules)
+    cache.delete(CACHE_KEYS.FILTERED_ACTIVITIES)
+
+    timer.end()
+    const response = NextResponse.json({
+      message: 'Qualification rules saved. Run a full resync to re-evaluate existing activities.',
+      rules: parsed.rules,
+      requestId
+    })
+    logger.logResponse('PUT', request.url, 200, undefined, { saved: true }, 'qualification-rules-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error saving qualification rules', error, { userId }, 'qualification-rules-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to save qualification rules',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('PUT', request.url, 500, undefined, { error: 'save_failed' }, 'qualification-rules-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
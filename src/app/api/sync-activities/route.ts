@@ -1,8 +1,13 @@
 import { NextResponse } from 'next/server'
-import { stravaAPI } from '@/lib/strava'
-import { supabase } from '@/lib/supabase'
+import { stravaAPI, toActivityInsert } from '@/lib/strava'
+import { getSyncQualificationRules } from '@/lib/user-settings'
+import { getRepositories } from '@/lib/repositories'
+import { summarizeQualification } from '@/lib/qualification'
+import { reconcileActivities } from '@/lib/reconcile'
+import { startSyncRun, finishSyncRun, describeSyncError, type SyncRun } from '@/lib/sync-runs'
 import { cookies } from 'next/headers'
 import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+import { StravaRateLimitError } from '@/lib/strava-rate-limit'
 
 export async function POST(request: Request) {
   const requestId = generateRequestId()
@@ -13,6 +18,8 @@ export async function POST(request: Request) {
     referer: request.headers.get('referer')
   }, 'sync-activities-api', requestId)
 
+  let syncRun: SyncRun | null = null
+
   try {
     logger.info('Starting activity synchronization', undefined, 'sync-activities-api', undefined, requestId)
     
@@ -37,17 +44,12 @@ export async function POST(request: Request) {
     // Get user data from database
     logger.debug('Fetching user data from database', { userId }, 'sync-activities-api', userId, requestId)
     
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('*')
-      .eq('id', userId)
-      .single()
-
-    if (userError || !userData) {
-      logger.error('User not found in database', userError, {
-        userId,
-        errorCode: userError?.code,
-        errorMessage: userError?.message
+    const { users, activities } = getRepositories()
+    const userData = await users.getById(userId)
+
+    if (!userData) {
+      logger.error('User not found in database', undefined, {
+        userId
       }, 'sync-activities-api', userId, requestId)
       
       const response = NextResponse.json({ error: 'User not found', requestId }, { status: 404 })
@@ -65,6 +67,19 @@ export async function POST(request: Request) {
       shouldRefresh: stravaAPI.shouldRefreshToken(userData.expires_at)
     }, 'sync-activities-api', userId, requestId)
 
+    // Only ask Strava for activities newer than the last sync unless a full resync was requested
+    const { searchParams } = new URL(request.url)
+    const fullResync = searchParams.get('full') === 'true'
+    const after = fullResync ? undefined : userData.last_synced_at ?? undefined
+
+    syncRun = await startSyncRun({
+      userId,
+      trigger: 'manual',
+      triggeredBy: userId,
+      mode: after ? 'incremental' : 'full',
+      requestId
+    })
+
     // Ensure we have a valid access token (handles refresh automatically)
     let accessToken: string
     try {
@@ -73,13 +88,14 @@ export async function POST(request: Request) {
         userData.access_token,
         userData.refresh_token,
         userData.expires_at,
-        supabase
+        users
       )
     } catch (tokenError) {
       logger.error('Failed to ensure valid token', tokenError, {
         userId,
         expiresAt: new Date(userData.expires_at * 1000).toISOString()
       }, 'sync-activities-api', userId, requestId)
+      await finishSyncRun(syncRun, 'failed', {}, [describeSyncError(tokenError)], requestId)
       
       const response = NextResponse.json({ 
         error: 'Authentication failed',
@@ -93,12 +109,17 @@ export async function POST(request: Request) {
       return withRequestId(response, requestId)
     }
 
-    // Fetch all activities from Strava
-    logger.info('Fetching all activities from Strava', { userId }, 'sync-activities-api', userId, requestId)
-    const allActivities = await stravaAPI.getAllActivities(accessToken)
+    logger.info('Fetching activities from Strava', {
+      userId,
+      mode: after ? 'incremental' : 'full',
+      fullResyncRequested: fullResync,
+      lastSyncedAt: userData.last_synced_at ? new Date(userData.last_synced_at * 1000).toISOString() : null
+    }, 'sync-activities-api', userId, requestId)
+    const allActivities = await stravaAPI.getAllActivities(accessToken, after)
     
     logger.info('Activities fetched from Strava', {
       userId,
+      mode: after ? 'incremental' : 'full',
       totalActivities: allActivities.length,
       dateRange: allActivities.length > 0 ? {
         earliest: allActivities[allActivities.length - 1]?.start_date,
@@ -112,14 +133,19 @@ export async function POST(request: Request) {
       totalActivities: allActivities.length
     }, 'sync-activities-api', userId, requestId)
     
-    const hikingActivities = stravaAPI.filterHikingActivities(allActivities)
+    // The list endpoint omits descriptions, so pull details before matching the hashtag
+    const rules = await getSyncQualificationRules(userId)
+    const { activities: detailedActivities, failedIds } = await stravaAPI.getActivitiesWithDetails(accessToken, allActivities, rules)
+    const { qualifying: hikingActivities, results: qualificationResults } = stravaAPI.qualifyActivities(detailedActivities, rules)
+    const qualification = summarizeQualification(qualificationResults)
 
     logger.info('Activities filtered', {
       userId,
       totalActivities: allActivities.length,
       hikingActivities: hikingActivities.length,
-      filterRate: ((hikingActivities.length / allActivities.length) * 100).toFixed(1) + '%',
-      totalDistance: hikingActivities.reduce((sum, activity) => sum + activity.distance, 0)
+      filterRate: allActivities.length > 0 ? ((hikingActivities.length / allActivities.length) * 100).toFixed(1) + '%' : 'n/a',
+      totalDistance: hikingActivities.reduce((sum, activity) => sum + activity.distance, 0),
+      qualification
     }, 'sync-activities-api', userId, requestId)
 
     // Store activities in database
@@ -128,18 +154,7 @@ export async function POST(request: Request) {
       activitiesToInsert: hikingActivities.length
     }, 'sync-activities-api', userId, requestId)
     
-    const activitiesToInsert = hikingActivities.map(activity => ({
-      strava_id: activity.id.toString(),
-      name: activity.name,
-      type: activity.type,
-      distance: activity.distance,
-      moving_time: activity.moving_time,
-      start_date: activity.start_date,
-      location_city: activity.location_city || null,
-      location_country: activity.location_country || null,
-      elevation_gain: activity.total_elevation_gain,
-      user_id: userId,
-    }))
+    const activitiesToInsert = hikingActivities.map(activity => toActivityInsert(activity, userId))
 
     logger.debug('Inserting activities into database', {
       userId,
@@ -151,25 +166,22 @@ export async function POST(request: Request) {
       } : null
     }, 'sync-activities-api', userId, requestId)
 
-    const { error: insertError } = await supabase
-      .from('activities')
-      .upsert(activitiesToInsert, {
-        onConflict: 'strava_id',
-        ignoreDuplicates: false,
-      })
-
-    if (insertError) {
+    let upserted: { inserted: number, updated: number }
+    try {
+      upserted = await activities.upsert(userId, activitiesToInsert)
+    } catch (insertError) {
       logger.error('Failed to insert activities into database', insertError, {
         userId,
-        activitiesCount: activitiesToInsert.length,
-        errorCode: insertError.code,
-        errorMessage: insertError.message,
-        errorDetails: insertError.details
+        activitiesCount: activitiesToInsert.length
       }, 'sync-activities-api', userId, requestId)
+      await finishSyncRun(syncRun, 'failed', {
+        fetched: allActivities.length,
+        qualified: hikingActivities.length
+      }, [describeSyncError(insertError)], requestId)
       
       const response = NextResponse.json({ 
         error: 'Failed to sync activities',
-        message: insertError.message,
+        message: describeSyncError(insertError),
         requestId
       }, { status: 500 })
       
@@ -178,17 +190,74 @@ export async function POST(request: Request) {
       return withRequestId(response, requestId)
     }
 
+    // Remove stored rows that were deleted on Strava or no longer qualify
+    const reconciliation = await reconcileActivities({
+      userId,
+      after,
+      fetchedIds: allActivities.map(activity => activity.id.toString()),
+      qualifyingIds: hikingActivities.map(activity => activity.id.toString()),
+      unknownIds: failedIds.map(id => id.toString()),
+      reasons: Object.fromEntries(qualificationResults.map(result => [result.activityId.toString(), result.reason])),
+      requestId
+    })
+
+    // Advance the watermark so the next sync starts from the newest activity seen, but
+    // never past an activity whose details failed, so the next sync retries it
+    const earliestFailedStart = stravaAPI.getEarliestStartTime(allActivities.filter(activity => failedIds.includes(activity.id)))
+    const watermarkActivities = earliestFailedStart === null
+      ? allActivities
+      : allActivities.filter(activity => new Date(activity.start_date).getTime() / 1000 < earliestFailedStart)
+    const lastSyncedAt = stravaAPI.getLatestStartTime(watermarkActivities) ?? userData.last_synced_at
+    if (lastSyncedAt !== userData.last_synced_at) {
+      try {
+        await users.update(userId, { last_synced_at: lastSyncedAt })
+        logger.info('Sync watermark updated', {
+          userId,
+          lastSyncedAt: lastSyncedAt ? new Date(lastSyncedAt * 1000).toISOString() : null
+        }, 'sync-activities-api', userId, requestId)
+      } catch (watermarkError) {
+        // Not fatal: the next sync just re-fetches from the old watermark
+        logger.error('Failed to update sync watermark', watermarkError, {
+          userId,
+          lastSyncedAt
+        }, 'sync-activities-api', userId, requestId)
+      }
+    }
+
+    await finishSyncRun(syncRun, 'completed', {
+      fetched: allActivities.length,
+      qualified: hikingActivities.length,
+      inserted: upserted.inserted,
+      updated: upserted.updated,
+      removed: reconciliation.removed.length
+    }, failedIds.map(id => `Could not fetch details for activity ${id}`), requestId)
+
     logger.info('Activities synchronized successfully', {
       userId,
       activitiesSynced: activitiesToInsert.length,
       totalDistance: activitiesToInsert.reduce((sum, activity) => sum + activity.distance, 0),
-      totalKm: Math.round(activitiesToInsert.reduce((sum, activity) => sum + activity.distance, 0) / 1000 * 10) / 10
+      totalKm: Math.round(activitiesToInsert.reduce((sum, activity) => sum + activity.distance, 0) / 1000 * 10) / 10,
+      removed: reconciliation.removed.length,
+      removedKm: Math.round(reconciliation.removedDistance / 1000 * 10) / 10
     }, 'sync-activities-api', userId, requestId)
 
     const response = NextResponse.json({ 
       message: 'Activities synced successfully',
       count: activitiesToInsert.length,
+      inserted: upserted.inserted,
+      updated: upserted.updated,
       totalDistance: activitiesToInsert.reduce((sum, activity) => sum + activity.distance, 0),
+      mode: after ? 'incremental' : 'full',
+      fetched: allActivities.length,
+      qualification,
+      // Right sport type but rejected by another rule: the "why didn't my hike count" list
+      rejectedCandidates: qualificationResults
+        .filter(result => !result.qualifies && result.rejectedBy !== 'sport_type' && !failedIds.includes(result.activityId))
+        .map(({ activityId, rejectedBy, reason }) => ({ activityId, rejectedBy, reason })),
+      detailFetchFailures: failedIds,
+      removed: reconciliation.removed.length,
+      reconciliation,
+      lastSyncedAt: lastSyncedAt ? new Date(lastSyncedAt * 1000).toISOString() : null,
       requestId
     })
 
@@ -201,6 +270,26 @@ export async function POST(request: Request) {
     return withRequestId(response, requestId)
   } catch (error) {
     timer.end()
+    await finishSyncRun(syncRun, 'failed', {}, [describeSyncError(error)], requestId)
+
+    if (error instanceof StravaRateLimitError) {
+      // Nothing was written and the watermark wasn't advanced, so a later sync picks up the same range
+      logger.warn('Sync deferred by Strava rate limit', {
+        retryAt: error.retryAt.toISOString()
+      }, 'sync-activities-api', undefined, requestId)
+
+      const response = NextResponse.json({
+        error: 'Strava rate limit reached',
+        message: `Sync deferred until ${error.retryAt.toISOString()}. Please try again then.`,
+        retryAt: error.retryAt.toISOString(),
+        requestId
+      }, { status: 429 })
+      response.headers.set('Retry-After', Math.max(0, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000)).toString())
+
+      logger.logResponse('POST', request.url, 429, undefined, { error: 'rate_limited' }, 'sync-activities-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
     logger.error('Error in sync activities endpoint', error, {
       url: request.url,
       method: request.method,
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getSyncJob, runSyncJob, toSyncJobStatus, type SyncJob, type SyncProgressEvent } from '@/lib/sync-jobs'
+import { cache, CACHE_KEYS } from '@/lib/cache'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+// Close the stream before typical serverless limits; EventSource reconnects and the job resumes
+const STREAM_BUDGET_MS = 25 * 1000
+const STEP_BUDGET_MS = 8 * 1000
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Drive a sync job and stream its progress as Server-Sent Events. Sends a `status`
+ * event on connect, then `page`, `error` and `completed` events as the job runs. The
+ * stream ends after `completed`, after a final `error`, or when its time budget runs
+ * out, in which case the browser's automatic reconnect picks the job up again.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = generateRequestId()
+  const { id } = await params
+
+  logger.logRequest('GET', request.nextUrl.pathname, {
+    jobId: id
+  }, 'sync-jobs-events', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('GET', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'sync-jobs-events', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  let job: SyncJob | null
+  try {
+    job = await getSyncJob(id)
+  } catch (error) {
+    logger.error('Error fetching sync job for event stream', error, { jobId: id }, 'sync-jobs-events', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to fetch sync job',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('GET', request.nextUrl.pathname, 500, undefined, { error: 'fetch_failed' }, 'sync-jobs-events', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  if (!job || job.user_id !== userId) {
+    const response = NextResponse.json({ error: 'Sync job not found', requestId }, { status: 404 })
+    logger.logResponse('GET', request.nextUrl.pathname, 404, undefined, { error: 'not_found' }, 'sync-jobs-events', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const initialJob = job
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      // Once the client disconnects the stream is cancelled, and enqueueing to it throws
+      const send = (event: string, data: unknown) => {
+        if (request.signal.aborted) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch (error) {
+          logger.debug('Dropped event for closed stream', {
+            event,
+            error: error instanceof Error ? error.message : String(error)
+          }, 'sync-jobs-events', userId, requestId)
+        }
+      }
+      const onProgress = (event: SyncProgressEvent) => send(event.type, event)
+
+      const deadline = Date.now() + STREAM_BUDGET_MS
+      let current = initialJob
+
+      send('status', { job: toSyncJobStatus(current) })
+
+      try {
+        while ((current.status === 'pending' || current.status === 'running') && !request.signal.aborted) {
+          const remaining = deadline - Date.now()
+          if (remaining <= 0) break
+
+          // Deferred by a rate limit or backoff: wait here rather than spin
+          const waitMs = new Date(current.run_after).getTime() - Date.now()
+          if (waitMs > 0) {
+            if (waitMs > remaining) break
+            await sleep(waitMs)
+            continue
+          }
+
+          const before = current
+          current = await runSyncJob(current, Math.min(STEP_BUDGET_MS, remaining), onProgress)
+
+          // Another driver (cron or a second tab) holds the lease: follow its progress instead
+          if (current === before) {
+            await sleep(1000)
+            current = (await getSyncJob(current.id)) ?? current
+            send('status', { job: toSyncJobStatus(current) })
+          }
+        }
+
+        if (current.status === 'completed') {
+          cache.delete(CACHE_KEYS.FILTERED_ACTIVITIES)
+        } else if (current.status !== 'failed') {
+          // Out of time for this connection; tell the client when to expect the next step
+          send('status', { job: toSyncJobStatus(current) })
+        }
+      } catch (error) {
+        logger.error('Sync job event stream failed', error, { jobId: current.id }, 'sync-jobs-events', userId, requestId)
+        send('error', {
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+          willRetry: true,
+          retryAt: null,
+          job: toSyncJobStatus(current)
+        })
+      } finally {
+        logger.logResponse('GET', request.nextUrl.pathname, 200, undefined, {
+          status: current.status,
+          pagesFetched: current.pages_fetched,
+          aborted: request.signal.aborted
+        }, 'sync-jobs-events', requestId)
+        if (!request.signal.aborted) {
+          try {
+            controller.close()
+          } catch {
+            // Cancelled between the check and the close
+          }
+        }
+      }
+    }
+  })
+
+  return withRequestId(new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  }), requestId)
+}
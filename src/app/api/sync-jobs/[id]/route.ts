@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getSyncJob, toSyncJobStatus } from '@/lib/sync-jobs'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = generateRequestId()
+  const { id } = await params
+
+  logger.logRequest('GET', request.nextUrl.pathname, {
+    jobId: id
+  }, 'sync-jobs-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('GET', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'sync-jobs-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const job = await getSyncJob(id)
+
+    // Someone else's job is reported as missing rather than forbidden
+    if (!job || job.user_id !== userId) {
+      const response = NextResponse.json({ error: 'Sync job not found', requestId }, { status: 404 })
+      logger.logResponse('GET', request.nextUrl.pathname, 404, undefined, { error: 'not_found' }, 'sync-jobs-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const response = NextResponse.json({ job: toSyncJobStatus(job), requestId })
+    logger.logResponse('GET', request.nextUrl.pathname, 200, undefined, { status: job.status }, 'sync-jobs-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    logger.error('Error fetching sync job', error, { jobId: id }, 'sync-jobs-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to fetch sync job',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('GET', request.nextUrl.pathname, 500, undefined, { error: 'fetch_failed' }, 'sync-jobs-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
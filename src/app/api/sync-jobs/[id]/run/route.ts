@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { getSyncJob, runSyncJob, toSyncJobStatus } from '@/lib/sync-jobs'
+import { cache, CACHE_KEYS } from '@/lib/cache'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+/**
+ * Advance the job by one time-boxed step. The dashboard calls this while it polls so a
+ * sync makes progress even where no cron worker is configured.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = generateRequestId()
+  const timer = logger.time('sync-job-run', 'sync-jobs-api')
+  const { id } = await params
+
+  logger.logRequest('POST', request.nextUrl.pathname, {
+    jobId: id
+  }, 'sync-jobs-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('POST', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'sync-jobs-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const job = await getSyncJob(id)
+
+    if (!job || job.user_id !== userId) {
+      timer.end()
+      const response = NextResponse.json({ error: 'Sync job not found', requestId }, { status: 404 })
+      logger.logResponse('POST', request.nextUrl.pathname, 404, undefined, { error: 'not_found' }, 'sync-jobs-api', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    const updated = await runSyncJob(job)
+
+    if (updated.status === 'completed' && job.status !== 'completed') {
+      cache.delete(CACHE_KEYS.FILTERED_ACTIVITIES)
+    }
+
+    timer.end()
+    const response = NextResponse.json({ job: toSyncJobStatus(updated), requestId })
+    logger.logResponse('POST', request.nextUrl.pathname, 200, undefined, {
+      status: updated.status,
+      pagesFetched: updated.pages_fetched
+    }, 'sync-jobs-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error running sync job', error, { jobId: id }, 'sync-jobs-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to run sync job',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('POST', request.nextUrl.pathname, 500, undefined, { error: 'run_failed' }, 'sync-jobs-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { createSyncJob, toSyncJobStatus } from '@/lib/sync-jobs'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+/**
+ * Queue a background sync for the signed-in user. `?full=true` ignores the watermark
+ * and walks the whole history. Returns the job already in progress if there is one.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('sync-job-create', 'sync-jobs-api')
+
+  logger.logRequest('POST', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent')
+  }, 'sync-jobs-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('POST', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'sync-jobs-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const full = request.nextUrl.searchParams.get('full') === 'true'
+    const job = await createSyncJob(userId, { full })
+
+    timer.end()
+    const response = NextResponse.json({ job: toSyncJobStatus(job), requestId }, { status: 202 })
+    logger.logResponse('POST', request.nextUrl.pathname, 202, undefined, { jobId: job.id }, 'sync-jobs-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error creating sync job', error, { userId }, 'sync-jobs-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to start sync',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('POST', request.nextUrl.pathname, 500, undefined, { error: 'create_failed' }, 'sync-jobs-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
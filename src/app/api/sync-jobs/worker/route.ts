@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { enqueueScheduledSyncJobs, runDueSyncJobs, toSyncJobStatus } from '@/lib/sync-jobs'
+import { cache, CACHE_KEYS } from '@/lib/cache'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+/**
+ * Cron entry point. Requires `Authorization: Bearer $CRON_SECRET`, which is what
+ * Vercel Cron sends; any other scheduler can send the same header. With
+ * `?enqueue=true` it first queues an incremental sync for every user.
+ */
+async function handleWorker(request: NextRequest, method: string) {
+  const requestId = generateRequestId()
+  const timer = logger.time('sync-worker', 'sync-worker')
+
+  logger.logRequest(method, request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent')
+  }, 'sync-worker', requestId)
+
+  const secret = process.env.CRON_SECRET
+
+  if (!secret) {
+    timer.end()
+    logger.error('CRON_SECRET not configured', undefined, undefined, 'sync-worker', undefined, requestId)
+
+    const response = NextResponse.json({ error: 'Worker not configured', requestId }, { status: 500 })
+    logger.logResponse(method, request.nextUrl.pathname, 500, undefined, { error: 'missing_cron_secret' }, 'sync-worker', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    timer.end()
+    logger.warn('Rejected unauthorized worker call', undefined, 'sync-worker', undefined, requestId)
+
+    const response = NextResponse.json({ error: 'Unauthorized', requestId }, { status: 401 })
+    logger.logResponse(method, request.nextUrl.pathname, 401, undefined, { error: 'unauthorized' }, 'sync-worker', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const enqueued = request.nextUrl.searchParams.get('enqueue') === 'true'
+      ? await enqueueScheduledSyncJobs()
+      : 0
+    const jobs = await runDueSyncJobs()
+
+    if (jobs.some(job => job.status === 'completed')) {
+      cache.delete(CACHE_KEYS.FILTERED_ACTIVITIES)
+    }
+
+    timer.end()
+    const response = NextResponse.json({
+      enqueued,
+      processed: jobs.length,
+      jobs: jobs.map(toSyncJobStatus),
+      requestId
+    })
+    logger.logResponse(method, request.nextUrl.pathname, 200, undefined, { enqueued, processed: jobs.length }, 'sync-worker', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Sync worker pass failed', error, undefined, 'sync-worker', undefined, requestId)
+
+    const response = NextResponse.json({
+      error: 'Sync worker failed',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse(method, request.nextUrl.pathname, 500, undefined, { error: 'worker_failed' }, 'sync-worker', requestId)
+    return withRequestId(response, requestId)
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleWorker(request, 'GET')
+}
+
+export async function POST(request: NextRequest) {
+  return handleWorker(request, 'POST')
+}
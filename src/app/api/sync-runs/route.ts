@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSignedInUserId } from '@/lib/auth'
+import { listSyncRuns, toSyncRunSummary } from '@/lib/sync-runs'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+/**
+ * The signed-in user's sync history, newest first. `?limit=` caps the number of runs.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('sync-runs-get', 'sync-runs-api')
+
+  logger.logRequest('GET', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent')
+  }, 'sync-runs-api', requestId)
+
+  const userId = await getSignedInUserId()
+
+  if (!userId) {
+    timer.end()
+    const response = NextResponse.json({ error: 'Not authenticated', requestId }, { status: 401 })
+    logger.logResponse('GET', request.nextUrl.pathname, 401, undefined, { error: 'not_authenticated' }, 'sync-runs-api', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  try {
+    const requestedLimit = parseInt(request.nextUrl.searchParams.get('limit') || '', 10)
+    const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, MAX_LIMIT)
+      : DEFAULT_LIMIT
+
+    const runs = await listSyncRuns(userId, limit)
+
+    timer.end()
+    const response = NextResponse.json({ runs: runs.map(toSyncRunSummary), requestId })
+    response.headers.set('Cache-Control', 'private, no-store')
+    logger.logResponse('GET', request.nextUrl.pathname, 200, undefined, { runs: runs.length }, 'sync-runs-api', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error fetching sync runs', error, { userId }, 'sync-runs-api', userId, requestId)
+
+    const response = NextResponse.json({
+      error: 'Failed to fetch sync history',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+    logger.logResponse('GET', request.nextUrl.pathname, 500, undefined, { error: 'fetch_failed' }, 'sync-runs-api', requestId)
+    return withRequestId(response, requestId)
+  }
+}
@@ -0,0 +1,260 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { stravaAPI, toActivityInsert } from '@/lib/strava'
+import { getSyncQualificationRules } from '@/lib/user-settings'
+import { getRepositories } from '@/lib/repositories'
+import { cache, CACHE_KEYS } from '@/lib/cache'
+import { startSyncRun, finishSyncRun, describeSyncError, type SyncRun, type SyncRunCounts } from '@/lib/sync-runs'
+import { logger, generateRequestId, withRequestId } from '@/lib/logger'
+
+// Strava push subscription event, see https://developers.strava.com/docs/webhooks/
+interface StravaWebhookEvent {
+  object_type: 'activity' | 'athlete'
+  object_id: number
+  aspect_type: 'create' | 'update' | 'delete'
+  owner_id: number
+  subscription_id: number
+  event_time: number
+  updates?: Record<string, string>
+}
+
+const OBJECT_TYPES = ['activity', 'athlete']
+const ASPECT_TYPES = ['create', 'update', 'delete']
+
+function isId(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+// Null unless the body has the fields an event needs, with the right types
+function parseEvent(body: unknown): StravaWebhookEvent | null {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return null
+
+  const event = body as Record<string, unknown>
+  if (!isId(event.owner_id) || !isId(event.object_id) || !isId(event.subscription_id)) return null
+  if (!OBJECT_TYPES.includes(event.object_type as string) || !ASPECT_TYPES.includes(event.aspect_type as string)) return null
+
+  return body as StravaWebhookEvent
+}
+
+/**
+ * Subscription validation handshake. Strava calls this once when the subscription
+ * is created and expects the challenge echoed back if the verify token matches.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = generateRequestId()
+
+  logger.logRequest('GET', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent')
+  }, 'strava-webhook', requestId)
+
+  const searchParams = request.nextUrl.searchParams
+  const mode = searchParams.get('hub.mode')
+  const verifyToken = searchParams.get('hub.verify_token')
+  const challenge = searchParams.get('hub.challenge')
+  const expectedToken = process.env.STRAVA_WEBHOOK_VERIFY_TOKEN
+
+  if (!expectedToken) {
+    logger.error('STRAVA_WEBHOOK_VERIFY_TOKEN not configured', undefined, undefined, 'strava-webhook', undefined, requestId)
+
+    const response = NextResponse.json({ error: 'Webhook not configured', requestId }, { status: 500 })
+    logger.logResponse('GET', request.nextUrl.pathname, 500, undefined, { error: 'missing_verify_token' }, 'strava-webhook', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  if (mode !== 'subscribe' || !challenge || verifyToken !== expectedToken) {
+    logger.warn('Webhook validation rejected', {
+      mode,
+      hasChallenge: !!challenge,
+      verifyTokenMatches: verifyToken === expectedToken
+    }, 'strava-webhook', undefined, requestId)
+
+    const response = NextResponse.json({ error: 'Invalid verification request', requestId }, { status: 403 })
+    logger.logResponse('GET', request.nextUrl.pathname, 403, undefined, { error: 'validation_rejected' }, 'strava-webhook', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  logger.info('Webhook subscription validated', undefined, 'strava-webhook', undefined, requestId)
+
+  const response = NextResponse.json({ 'hub.challenge': challenge })
+  logger.logResponse('GET', request.nextUrl.pathname, 200, undefined, { validated: true }, 'strava-webhook', requestId)
+  return withRequestId(response, requestId)
+}
+
+/**
+ * Activity events. Each event touches exactly one row in `activities`: creates and
+ * updates re-fetch the activity and upsert it if it still qualifies (or remove it if
+ * it no longer does), deletes remove it once Strava confirms it is gone. Anyone can
+ * post here, so events must carry the configured subscription ID and nothing is
+ * trusted beyond which activity to look at.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId()
+  const timer = logger.time('strava-webhook-event', 'strava-webhook')
+
+  logger.logRequest('POST', request.nextUrl.pathname, {
+    userAgent: request.headers.get('user-agent')
+  }, 'strava-webhook', requestId)
+
+  const expectedSubscriptionId = process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID
+
+  if (!expectedSubscriptionId) {
+    timer.end()
+    logger.error('STRAVA_WEBHOOK_SUBSCRIPTION_ID not configured', undefined, undefined, 'strava-webhook', undefined, requestId)
+
+    const response = NextResponse.json({ error: 'Webhook not configured', requestId }, { status: 500 })
+    logger.logResponse('POST', request.nextUrl.pathname, 500, undefined, { error: 'missing_subscription_id' }, 'strava-webhook', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const event = parseEvent(await request.json().catch(() => null))
+
+  if (!event) {
+    timer.end()
+    logger.warn('Webhook event with invalid payload', undefined, 'strava-webhook', undefined, requestId)
+
+    const response = NextResponse.json({ error: 'Invalid event payload', requestId }, { status: 400 })
+    logger.logResponse('POST', request.nextUrl.pathname, 400, undefined, { error: 'invalid_payload' }, 'strava-webhook', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const ownerId = event.owner_id.toString()
+
+  logger.info('Webhook event received', {
+    objectType: event.object_type,
+    aspectType: event.aspect_type,
+    objectId: event.object_id,
+    ownerId,
+    subscriptionId: event.subscription_id,
+    eventTime: typeof event.event_time === 'number' ? new Date(event.event_time * 1000).toISOString() : null,
+    updates: event.updates
+  }, 'strava-webhook', ownerId, requestId)
+
+  if (event.subscription_id.toString() !== expectedSubscriptionId) {
+    timer.end()
+    logger.warn('Webhook event for unknown subscription', {
+      subscriptionId: event.subscription_id
+    }, 'strava-webhook', ownerId, requestId)
+
+    const response = NextResponse.json({ error: 'Unknown subscription', requestId }, { status: 403 })
+    logger.logResponse('POST', request.nextUrl.pathname, 403, undefined, { error: 'unknown_subscription' }, 'strava-webhook', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  // Athlete events (e.g. deauthorization) don't touch activity rows
+  if (event.object_type !== 'activity') {
+    timer.end()
+    logger.info('Ignoring non-activity webhook event', {
+      objectType: event.object_type,
+      aspectType: event.aspect_type
+    }, 'strava-webhook', ownerId, requestId)
+
+    const response = NextResponse.json({ received: true, action: 'ignored', requestId })
+    logger.logResponse('POST', request.nextUrl.pathname, 200, undefined, { action: 'ignored' }, 'strava-webhook', requestId)
+    return withRequestId(response, requestId)
+  }
+
+  const stravaId = event.object_id.toString()
+  let syncRun: SyncRun | null = null
+
+  try {
+    const { users, activities } = getRepositories()
+    const userData = await users.getByStravaId(ownerId)
+
+    if (!userData) {
+      timer.end()
+      logger.warn('Webhook event for unknown athlete', { ownerId }, 'strava-webhook', ownerId, requestId)
+
+      const response = NextResponse.json({ received: true, action: 'ignored', requestId })
+      logger.logResponse('POST', request.nextUrl.pathname, 200, undefined, { action: 'unknown_athlete' }, 'strava-webhook', requestId)
+      return withRequestId(response, requestId)
+    }
+
+    syncRun = await startSyncRun({
+      userId: userData.id,
+      trigger: 'webhook',
+      triggeredBy: 'strava',
+      mode: 'event',
+      requestId
+    })
+
+    let action: 'upserted' | 'removed' | 'kept'
+    let reason: string | undefined
+    let counts: Partial<SyncRunCounts>
+
+    const accessToken = await stravaAPI.ensureValidToken(
+      userData.id,
+      userData.access_token,
+      userData.refresh_token,
+      userData.expires_at,
+      users
+    )
+
+    if (event.aspect_type === 'delete') {
+      cache.delete(CACHE_KEYS.STRAVA_ACTIVITY_DETAILS(event.object_id))
+
+      // A forged delete for an activity that still exists must not remove it
+      if (await stravaAPI.activityExists(accessToken, event.object_id)) {
+        logger.warn('Ignoring delete event for an activity still on Strava', { stravaId }, 'strava-webhook', ownerId, requestId)
+        action = 'kept'
+        reason = 'still_on_strava'
+        counts = { fetched: 1 }
+      } else {
+        const removed = await activities.deleteByStravaIds(userData.id, [stravaId])
+        action = 'removed'
+        counts = { removed }
+      }
+    } else {
+      // Always fetch fresh details: the event means the cached copy is stale
+      cache.delete(CACHE_KEYS.STRAVA_ACTIVITY_DETAILS(event.object_id))
+      const activity = await stravaAPI.getActivityDetails(accessToken, event.object_id)
+      const rules = await getSyncQualificationRules(userData.id)
+      const [result] = stravaAPI.qualifyActivities([activity], rules).results
+      reason = result.reason
+
+      if (result.qualifies) {
+        const { inserted, updated } = await activities.upsert(userData.id, [toActivityInsert(activity, userData.id)])
+        action = 'upserted'
+        counts = { fetched: 1, qualified: 1, inserted, updated }
+      } else {
+        // An update can remove the hashtag or change the sport type
+        const removed = await activities.deleteByStravaIds(userData.id, [stravaId])
+        action = 'removed'
+        counts = { fetched: 1, removed }
+      }
+    }
+
+    await finishSyncRun(syncRun, 'completed', counts, [], requestId)
+
+    // Drop cached lists so the dashboard picks up the change on its next request
+    cache.delete(CACHE_KEYS.STRAVA_ACTIVITIES)
+    cache.delete(CACHE_KEYS.FILTERED_ACTIVITIES)
+
+    timer.end()
+    logger.info('Webhook event processed', {
+      stravaId,
+      aspectType: event.aspect_type,
+      action,
+      reason
+    }, 'strava-webhook', ownerId, requestId)
+
+    const response = NextResponse.json({ received: true, action, reason, requestId })
+    logger.logResponse('POST', request.nextUrl.pathname, 200, undefined, { action }, 'strava-webhook', requestId)
+    return withRequestId(response, requestId)
+  } catch (error) {
+    timer.end()
+    logger.error('Error processing webhook event', error, {
+      stravaId,
+      aspectType: event.aspect_type
+    }, 'strava-webhook', ownerId, requestId)
+    await finishSyncRun(syncRun, 'failed', {}, [describeSyncError(error)], requestId)
+
+    // A non-2xx response makes Strava retry the event
+    const response = NextResponse.json({
+      error: 'Failed to process event',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      requestId
+    }, { status: 500 })
+
+    logger.logResponse('POST', request.nextUrl.pathname, 500, undefined, { error: 'event_processing_failed' }, 'strava-webhook', requestId)
+    return withRequestId(response, requestId)
+  }
+}
@@ -1,8 +1,61 @@
 import ActivityList from '@/components/ActivityList'
+import ActivityUpload from '@/components/ActivityUpload'
+import ArchiveImport from '@/components/ArchiveImport'
+import ManualActivityForm from '@/components/ManualActivityForm'
+import RouteMap, { type MapRoute } from '@/components/RouteMap'
 import SetupRequired from '@/components/SetupRequired'
+import ConnectStrava from '@/components/ConnectStrava'
+import ProgressForecastChart from '@/components/ProgressForecastChart'
+import ChallengeCards from '@/components/ChallengeCards'
+import SyncButton from '@/components/SyncButton'
+import SyncHistory from '@/components/SyncHistory'
 import { logger } from '@/lib/logger'
+import { getRepositories, type ActivityRow } from '@/lib/repositories'
+import { getSignedInUserId, isSingleOwnerMode } from '@/lib/auth'
+import { listSyncRuns, toSyncRunSummary, type SyncRunSummary } from '@/lib/sync-runs'
+import { calculateChallengeStats, countsTowardGoal, listGoals, selectActiveGoal, type Goal } from '@/lib/goals'
+import { buildProgressForecast } from '@/lib/progress-forecast'
 
-async function getActivities() {
+// Stored rows, or rows of the same shape from /api/activities in single-owner mode
+type DashboardActivity = Pick<ActivityRow,
+  'id' | 'strava_id' | 'source' | 'name' | 'type' | 'description' | 'distance' | 'moving_time' |
+  'elevation_gain' | 'start_date' | 'location_city' | 'location_country' | 'summary_polyline'>
+
+async function getUserActivities(userId: string): Promise<DashboardActivity[]> {
+  logger.info('Loading synced activities for signed-in user', { userId }, 'dashboard-page', userId)
+
+  try {
+    return await getRepositories().activities.listByUser(userId)
+  } catch (error) {
+    logger.error('Error loading synced activities', error, { userId }, 'dashboard-page', userId)
+    logger.warn('Returning empty activities due to error', undefined, 'dashboard-page', userId)
+    return []
+  }
+}
+
+async function getSyncHistory(userId: string): Promise<SyncRunSummary[]> {
+  try {
+    const runs = await listSyncRuns(userId, 10)
+    return runs.map(toSyncRunSummary)
+  } catch (error) {
+    // The history panel is secondary; don't let it take the dashboard down
+    logger.error('Error loading sync history', error, { userId }, 'dashboard-page', userId)
+    return []
+  }
+}
+
+async function getGoals(userId: string): Promise<Goal[]> {
+  try {
+    return await listGoals(userId)
+  } catch (error) {
+    logger.error('Error loading goals', error, { userId }, 'dashboard-page', userId)
+    logger.warn('Measuring progress against the default goal', undefined, 'dashboard-page', userId)
+    return []
+  }
+}
+
+// Single-owner mode: the owner's hikes come live from Strava through /api/activities
+async function getActivities(): Promise<DashboardActivity[]> {
   const startTime = Date.now()
   logger.info('Starting activities fetch from dashboard', undefined, 'dashboard-page')
   
@@ -63,11 +116,12 @@ async function getActivities() {
       return []
     }
     
-    const activities = await response.json()
+    // The route sends its challenge stats along; the page computes its own from the rows
+    const { activities }: { activities: DashboardActivity[] } = await response.json()
     logger.info('Successfully fetched activities from API', {
       activitiesCount: activities.length,
       duration: `${duration}ms`,
-      totalDistance: activities.reduce((sum: number, activity: { distance: number }) => sum + activity.distance, 0),
+      totalDistance: activities.reduce((sum, activity) => sum + activity.distance, 0),
       cacheStatus: response.headers.get('x-cache-status')
     }, 'dashboard-page')
     
@@ -96,12 +150,25 @@ export default async function Dashboard() {
     environment: process.env.NODE_ENV
   }, 'dashboard-page')
   
-  let activities = []
+  const userId = await getSignedInUserId()
+  const singleOwnerMode = !userId && isSingleOwnerMode()
+
+  // Anonymous visitors only see data when the deployment serves a single owner
+  if (!userId && !singleOwnerMode) {
+    logger.info('Rendering ConnectStrava component for anonymous visitor', undefined, 'dashboard-page')
+    return <ConnectStrava />
+  }
+
+  let activities: DashboardActivity[] = []
   let setupRequired = false
+  const syncRuns = userId ? await getSyncHistory(userId) : []
+  // Single-owner mode has no users row to hang goals on, so the default applies
+  const goals = userId ? await getGoals(userId) : []
+  const goal = selectActiveGoal(goals)
   
   try {
-    logger.debug('Attempting to fetch activities', undefined, 'dashboard-page')
-    activities = await getActivities()
+    logger.debug('Attempting to fetch activities', { userId, singleOwnerMode }, 'dashboard-page')
+    activities = userId ? await getUserActivities(userId) : await getActivities()
     logger.debug('Activities fetch completed', { activitiesCount: activities.length }, 'dashboard-page')
   } catch (error) {
     logger.error('Error in dashboard activities fetch', error, undefined, 'dashboard-page')
@@ -111,23 +178,27 @@ export default async function Dashboard() {
     }
   }
   
-  // Calculate statistics
-  const totalDistance = activities.reduce((sum: number, activity: { distance: number }) => sum + activity.distance, 0)
-  const totalKm = totalDistance / 1000
-  const goalKm = 3800
-  const remainingKm = goalKm - totalKm
-  const progressPercentage = (totalKm / goalKm) * 100
+  // The progress bar follows the active distance goal, if any; every challenge gets a card
+  const stats = calculateChallengeStats(activities, goals)
 
-  const stats = {
-    totalActivities: activities.length,
-    totalDistance,
-    totalKm: Math.round(totalKm * 10) / 10,
-    goalKm,
-    remainingKm: Math.round(remainingKm * 10) / 10,
-    progressPercentage: Math.round(progressPercentage * 10) / 10
-  }
+  logger.info('Dashboard statistics calculated', {
+    ...stats.active,
+    challenges: stats.challenges.length,
+    goalId: goal?.id,
+    hasDistanceGoal: goal !== null
+  }, 'dashboard-page')
 
-  logger.info('Dashboard statistics calculated', stats, 'dashboard-page')
+  // The hikes counted toward the active distance goal; every stored one without such a goal
+  const counted = goal ? activities.filter(activity => countsTowardGoal(activity, goal)) : activities
+
+  const forecast = goal && buildProgressForecast(
+    counted,
+    { goalKm: goal.target, startDate: goal.startDate, deadline: goal.deadline }
+  )
+
+  const mapRoutes: MapRoute[] = counted.flatMap(activity => activity.summary_polyline
+    ? [{ id: activity.id, name: activity.name, polyline: activity.summary_polyline }]
+    : [])
 
   const pageRenderTime = Date.now() - pageStartTime
   logger.info('Dashboard page rendering completed', {
@@ -160,8 +231,11 @@ export default async function Dashboard() {
                 Documenting my hiking adventures, one step at a time
               </p>
             </div>
-            <div className="font-light text-sm text-gray-500">
-              Last updated: {new Date().toLocaleDateString()}
+            <div className="flex items-center space-x-4">
+              <div className="font-light text-sm text-gray-500">
+                Last updated: {new Date().toLocaleDateString()}
+              </div>
+              {userId && <SyncButton />}
             </div>
           </div>
         </div>
@@ -176,105 +250,114 @@ export default async function Dashboard() {
               <div>
                 <h3 className="text-lg font-bold text-yellow-800">No Activities Found</h3>
                 <p className="font-normal text-yellow-700 mt-1">
-                  No hiking or walking activities were found in your Strava account. 
-                  Make sure you have some activities recorded on Strava.
+                  {userId
+                    ? 'No qualifying hikes have been synced yet. Press "Sync Activities" to import them from Strava.'
+                    : 'No hiking or walking activities were found in your Strava account. Make sure you have some activities recorded on Strava.'}
                 </p>
               </div>
             </div>
           </div>
         )}
 
-        {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
-                  <span className="text-white font-bold text-sm">KM</span>
-                </div>
-              </div>
-              <div className="ml-4">
-                <p className="font-medium text-sm text-gray-800">Total Distance</p>
-                <p className="text-2xl font-bold text-gray-900">{totalKm.toFixed(1)} km</p>
-              </div>
-            </div>
-          </div>
+        {/* Challenge Cards */}
+        <ChallengeCards challenges={stats.challenges} />
 
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center">
-                  <span className="text-white font-bold text-sm">%</span>
-                </div>
-              </div>
-              <div className="ml-4">
-                <p className="font-medium text-sm text-gray-800">Progress</p>
-                <p className="text-2xl font-bold text-gray-900">
-                  {progressPercentage.toFixed(1)}%
-                </p>
-              </div>
-            </div>
-          </div>
-
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <div className="w-8 h-8 bg-orange-500 rounded-full flex items-center justify-center">
-                  <span className="text-white font-bold text-sm">📊</span>
-                </div>
-              </div>
-              <div className="ml-4">
-                <p className="font-medium text-sm text-gray-800">Activities</p>
-                <p className="text-2xl font-bold text-gray-900">{activities.length}</p>
-              </div>
-            </div>
-          </div>
-
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <div className="w-8 h-8 bg-purple-500 rounded-full flex items-center justify-center">
-                  <span className="text-white font-bold text-sm">🎯</span>
-                </div>
-              </div>
-              <div className="ml-4">
-                <p className="font-medium text-sm text-gray-800">Remaining</p>
-                <p className="text-2xl font-bold text-gray-900">
-                  {Math.max(0, remainingKm).toFixed(1)} km
-                </p>
-              </div>
-            </div>
-          </div>
-        </div>
-
-        {/* Progress Meter */}
-        {activities.length > 0 && (
+        {/* Progress Meter, only with a distance goal to measure against */}
+        {activities.length > 0 && goal && stats.active && forecast && (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
             <div className="mb-6">
               <div className="flex items-center justify-between mb-2">
-                <h2 className="text-2xl font-bold text-gray-900">Progress to 3,800km</h2>
+                <h2 className="text-2xl font-bold text-gray-900">Progress to {stats.active.goalKm.toLocaleString()} km</h2>
                 <span className="text-lg font-semibold text-blue-600">
-                  {totalKm.toFixed(1)} km ({progressPercentage.toFixed(1)}%)
+                  {stats.active.totalKm.toFixed(1)} km ({stats.active.progressPercentage.toFixed(1)}%)
                 </span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-4">
                 <div 
                   className="bg-gradient-to-r from-blue-500 to-green-500 h-4 rounded-full transition-all duration-500"
-                  style={{ width: `${Math.min(progressPercentage, 100)}%` }}
+                  style={{ width: `${Math.min(stats.active.progressPercentage, 100)}%` }}
                 />
               </div>
               <div className="flex justify-between text-sm text-gray-600 mt-2">
                 <span className="font-light">0 km</span>
-                <span className="font-light">{goalKm.toLocaleString()} km goal</span>
+                <span className="font-light">
+                  {goal.name}: {stats.active.goalKm.toLocaleString()} km{goal.deadline ? ` by ${goal.deadline}` : ''}
+                </span>
               </div>
             </div>
+
+            <h3 className="text-xl font-bold text-gray-900 mb-2">Will I Make It?</h3>
+            <ProgressForecastChart forecast={forecast} />
+          </div>
+        )}
+
+        {/* Route Map */}
+        {mapRoutes.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Where the Kilometers Happened</h2>
+            <p className="font-light text-gray-600 mb-4">
+              {mapRoutes.length === counted.length
+                ? `Every counted hike, ${mapRoutes.length} in all.`
+                : `${mapRoutes.length} of ${counted.length} counted hikes have a recorded route.`}
+            </p>
+            <RouteMap routes={mapRoutes} width={1000} height={500} strokeWidth={1.5} className="w-full h-auto rounded-md border border-gray-200" />
           </div>
         )}
 
         {/* Activity List */}
         {activities.length > 0 && (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <ActivityList activities={activities} />
+            <ActivityList activities={activities} showCharts={Boolean(userId)} />
+            {userId && (
+              <div className="flex items-center justify-end space-x-3 pt-4 mt-4 border-t border-gray-100 text-sm">
+                <span className="font-light text-gray-500">Export counted hikes:</span>
+                {['csv', 'json', 'gpx'].map(format => (
+                  <a
+                    key={format}
+                    href={`/api/export?format=${format}`}
+                    className="font-medium text-blue-600 hover:text-blue-700 uppercase"
+                  >
+                    {format}
+                  </a>
+                ))}
+                <span className="text-gray-300">|</span>
+                <a href="/api/backup" className="font-medium text-blue-600 hover:text-blue-700">
+                  Full backup
+                </a>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Manual Entry */}
+        {userId && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Add a Hike Manually</h2>
+            <p className="font-light text-gray-600 mb-4">
+              For hikes with no track at all, like an old logbook entry or a trip where the GPS died.
+            </p>
+            <ManualActivityForm />
+          </div>
+        )}
+
+        {/* File Upload */}
+        {userId && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-8">
+            <ActivityUpload />
+          </div>
+        )}
+
+        {/* Archive Import */}
+        {userId && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-8">
+            <ArchiveImport />
+          </div>
+        )}
+
+        {/* Sync History */}
+        {userId && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-8">
+            <SyncHistory runs={syncRuns} />
           </div>
         )}
       </div>
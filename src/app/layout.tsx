@@ -17,8 +17,8 @@ const requiredEnvVars = [
   'NEXT_PUBLIC_SUPABASE_ANON_KEY',
   'STRAVA_CLIENT_ID',
   'STRAVA_CLIENT_SECRET',
-  'STRAVA_ACCESS_TOKEN',
-  'STRAVA_REFRESH_TOKEN'
+  // Env tokens only matter when serving a single owner's hikes
+  ...(process.env.SINGLE_OWNER_MODE === 'true' ? ['STRAVA_ACCESS_TOKEN', 'STRAVA_REFRESH_TOKEN'] : [])
 ]
 
 const missingEnvVars = requiredEnvVars.filter(varName => !process.env[varName])
@@ -40,7 +40,8 @@ if (missingEnvVars.length > 0) {
 // Log optional environment variables
 const optionalEnvVars = [
   'NEXT_PUBLIC_BASE_URL',
-  'STRAVA_REDIRECT_URI'
+  'STRAVA_REDIRECT_URI',
+  'SINGLE_OWNER_MODE'
 ]
 
 const presentOptionalVars = optionalEnvVars.filter(varName => !!process.env[varName])
@@ -0,0 +1,195 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
+import type { ActivityCharts as Charts, GradeBucket } from '@/lib/activity-charts'
+import { DEFAULT_CLIMB_GRADE, MAX_CLIMB_GRADE, MIN_CLIMB_GRADE } from '@/lib/activity-charts'
+
+interface ActivityChartsProps {
+  activityId: number
+}
+
+const CLIMB_COLOR = '#ea580c'
+
+// Downhill blue, flat grey, uphill orange
+function gradeColor(bucket: GradeBucket): string {
+  if (bucket.maxGrade !== null && bucket.maxGrade <= -2) return '#2563eb'
+  if (bucket.minGrade !== null && bucket.minGrade >= 2) return CLIMB_COLOR
+  return '#9ca3af'
+}
+
+function formatPace(minutes: number): string {
+  const whole = Math.floor(minutes)
+  return `${whole}:${Math.round((minutes - whole) * 60).toString().padStart(2, '0')}`
+}
+
+/**
+ * Elevation profile, pace per kilometer and grade distribution for one activity, with
+ * climbs at or above the chosen grade shaded on the profile. Loaded when first shown,
+ * since the streams behind it may have to come from Strava.
+ */
+export default function ActivityCharts({ activityId }: ActivityChartsProps) {
+  const [climbGrade, setClimbGrade] = useState(DEFAULT_CLIMB_GRADE)
+  const [gradeInput, setGradeInput] = useState(String(DEFAULT_CLIMB_GRADE))
+  const [charts, setCharts] = useState<Charts | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setError('')
+
+    fetch(`/api/activities/${activityId}/charts?climbGrade=${climbGrade}`)
+      .then(async response => {
+        const data = await response.json()
+        if (cancelled) return
+        if (!response.ok) {
+          setError(data.message || data.error || 'Failed to load charts')
+          return
+        }
+        setCharts(data.charts)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Error loading charts')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [activityId, climbGrade])
+
+  const handleGradeSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const grade = Number(gradeInput)
+    if (Number.isFinite(grade) && grade >= MIN_CLIMB_GRADE && grade <= MAX_CLIMB_GRADE) {
+      setClimbGrade(grade)
+    } else {
+      setGradeInput(String(climbGrade))
+    }
+  }
+
+  if (isLoading && !charts) {
+    return <p className="font-light text-sm text-gray-500">Loading charts…</p>
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (!charts) {
+    return <p className="font-light text-sm text-gray-500">No elevation or distance data was recorded for this activity.</p>
+  }
+
+  const pacedSplits = charts.splits.filter(split => split.paceMinPerKm !== null)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <h4 className="font-semibold text-gray-900">Elevation Profile</h4>
+          <form onSubmit={handleGradeSubmit} className="flex items-center space-x-2 text-sm text-gray-600">
+            <label htmlFor={`climb-grade-${activityId}`}>Flag climbs steeper than</label>
+            <input
+              id={`climb-grade-${activityId}`}
+              type="number"
+              min={MIN_CLIMB_GRADE}
+              max={MAX_CLIMB_GRADE}
+              step="0.5"
+              value={gradeInput}
+              onChange={event => setGradeInput(event.target.value)}
+              className="w-16 rounded border border-gray-300 px-2 py-0.5"
+            />
+            <span>%</span>
+            <button type="submit" disabled={isLoading} className="font-medium text-orange-600 hover:text-orange-700 disabled:opacity-50">
+              Apply
+            </button>
+          </form>
+        </div>
+        <ResponsiveContainer width="100%" height={200}>
+          <AreaChart data={charts.profile} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="distanceKm" type="number" domain={['dataMin', 'dataMax']} unit=" km" tick={{ fontSize: 12 }} />
+            <YAxis dataKey="altitude" domain={['auto', 'auto']} unit=" m" width={60} tick={{ fontSize: 12 }} />
+            <Tooltip
+              formatter={(value: number) => [`${value.toFixed(0)} m`, 'Elevation']}
+              labelFormatter={(label: number) => `${label.toFixed(2)} km`}
+            />
+            {charts.climbs.map(climb => (
+              <ReferenceArea key={climb.startKm} x1={climb.startKm} x2={climb.endKm} fill={CLIMB_COLOR} fillOpacity={0.15} />
+            ))}
+            <Area type="monotone" dataKey="altitude" stroke="#16a34a" fill="#bbf7d0" isAnimationActive={false} />
+          </AreaChart>
+        </ResponsiveContainer>
+
+        {charts.climbs.length > 0 ? (
+          <ul className="mt-2 space-y-1 text-sm text-gray-700">
+            {charts.climbs.map(climb => (
+              <li key={climb.startKm}>
+                <span className="font-medium" style={{ color: CLIMB_COLOR }}>
+                  Climb at {climb.startKm.toFixed(1)}–{climb.endKm.toFixed(1)} km
+                </span>
+                : +{climb.gain} m, {climb.averageGrade}% average, {climb.maxGrade}% max
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-2 font-light text-sm text-gray-500">No climbs steeper than {charts.climbGrade}%.</p>
+        )}
+      </div>
+
+      {pacedSplits.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">Pace by Kilometer</h4>
+          <ResponsiveContainer width="100%" height={180}>
+            <BarChart data={pacedSplits} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+              <XAxis dataKey="km" tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={formatPace} width={60} tick={{ fontSize: 12 }} />
+              <Tooltip
+                formatter={(value: number) => [`${formatPace(value)} min/km`, 'Pace']}
+                labelFormatter={(km: number) => {
+                  const split = pacedSplits.find(split => split.km === km)
+                  return split ? `Km ${km}: +${split.elevationGain} m / −${split.elevationLoss} m` : `Km ${km}`
+                }}
+              />
+              <Bar dataKey="paceMinPerKm" fill="#2563eb" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-semibold text-gray-900 mb-2">Grade Distribution</h4>
+        <ResponsiveContainer width="100%" height={180}>
+          <BarChart data={charts.grades} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+            <XAxis dataKey="label" tick={{ fontSize: 11 }} interval={0} />
+            <YAxis unit=" km" width={60} tick={{ fontSize: 12 }} />
+            <Tooltip formatter={(value: number) => [`${value.toFixed(2)} km`, 'Distance']} />
+            <Bar dataKey="distanceKm" isAnimationActive={false}>
+              {charts.grades.map(bucket => (
+                <Cell key={bucket.label} fill={gradeColor(bucket)} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,20 @@
 'use client'
 
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
 import { format } from 'date-fns'
-import { MapPin, Clock, TrendingUp } from 'lucide-react'
+import { MapPin, Clock, TrendingUp, Pencil, Trash2, BarChart3 } from 'lucide-react'
+import ManualActivityForm from '@/components/ManualActivityForm'
+import RouteMap from '@/components/RouteMap'
+import ActivityCharts from '@/components/ActivityCharts'
+import { formatDuration, formatLocation, paceMinutesPerKm } from '@/lib/activity-format'
 
 interface Activity {
   id: number
-  strava_id: string
+  // Null for uploaded and manual activities
+  strava_id: string | null
+  // Missing for activities fetched live from Strava
+  source?: 'strava' | 'upload' | 'manual'
   name: string
   type: string
   distance: number
@@ -14,21 +23,41 @@ interface Activity {
   location_city: string | null
   location_country: string | null
   elevation_gain: number
+  // Encoded route; null for manual entries and activities recorded without GPS
+  summary_polyline?: string | null
 }
 
 interface ActivityListProps {
   activities: Activity[]
+  // Charts need stored streams, so only signed-in users' synced activities have them
+  showCharts?: boolean
 }
 
-export default function ActivityList({ activities }: ActivityListProps) {
-  const formatDuration = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600)
-    const minutes = Math.floor((seconds % 3600) / 60)
-    
-    if (hours > 0) {
-      return `${hours}h ${minutes}m`
+export default function ActivityList({ activities, showCharts = false }: ActivityListProps) {
+  const router = useRouter()
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [deletingId, setDeletingId] = useState<number | null>(null)
+  const [chartIds, setChartIds] = useState<number[]>([])
+
+  const toggleCharts = (id: number) => {
+    setChartIds(ids => ids.includes(id) ? ids.filter(openId => openId !== id) : [...ids, id])
+  }
+
+  const handleDelete = async (activity: Activity) => {
+    if (!window.confirm(`Delete "${activity.name}"? It will no longer count toward the goal.`)) return
+
+    setDeletingId(activity.id)
+    try {
+      const response = await fetch(`/api/activities/manual?id=${activity.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        router.refresh()
+      } else {
+        const data = await response.json().catch(() => ({}))
+        window.alert(data.error || 'Failed to delete activity')
+      }
+    } finally {
+      setDeletingId(null)
     }
-    return `${minutes}m`
   }
 
   const sortedActivities = [...activities].sort((a, b) => 
@@ -60,68 +89,130 @@ export default function ActivityList({ activities }: ActivityListProps) {
                     <span className="font-normal">{format(new Date(activity.start_date), 'MMM dd, yyyy')}</span>
                   </div>
                 </div>
+                {activity.source === 'manual' && editingId !== activity.id && (
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => setEditingId(activity.id)}
+                      className="text-gray-500 hover:text-gray-800"
+                      aria-label={`Edit ${activity.name}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(activity)}
+                      disabled={deletingId === activity.id}
+                      className="text-gray-500 hover:text-red-600 disabled:opacity-50"
+                      aria-label={`Delete ${activity.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
               </div>
 
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
-                <div className="flex items-center space-x-2">
-                  <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
-                    <span className="text-blue-600 font-semibold text-sm">KM</span>
-                  </div>
-                  <div>
-                    <p className="font-medium text-sm text-gray-800">Distance</p>
-                    <p className="font-semibold text-gray-900">{(activity.distance / 1000).toFixed(2)} km</p>
-                  </div>
+              {editingId === activity.id && (
+                <div className="mb-4 rounded-md border border-gray-200 bg-gray-50 p-4">
+                  <ManualActivityForm activity={activity} onDone={() => setEditingId(null)} />
                 </div>
+              )}
 
-                <div className="flex items-center space-x-2">
-                  <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
-                    <Clock className="w-4 h-4 text-green-600" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-sm text-gray-800">Duration</p>
-                    <p className="font-semibold text-gray-900">{formatDuration(activity.moving_time)}</p>
+              <div className="flex flex-col md:flex-row md:items-start gap-4 mb-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 flex-1">
+                  <div className="flex items-center space-x-2">
+                    <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
+                      <span className="text-blue-600 font-semibold text-sm">KM</span>
+                    </div>
+                    <div>
+                      <p className="font-medium text-sm text-gray-800">Distance</p>
+                      <p className="font-semibold text-gray-900">{(activity.distance / 1000).toFixed(2)} km</p>
+                    </div>
                   </div>
-                </div>
 
-                <div className="flex items-center space-x-2">
-                  <div className="w-8 h-8 bg-orange-100 rounded-full flex items-center justify-center">
-                    <TrendingUp className="w-4 h-4 text-orange-600" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-sm text-gray-800">Elevation</p>
-                    <p className="font-semibold text-gray-900">{activity.elevation_gain.toFixed(0)} m</p>
+                  <div className="flex items-center space-x-2">
+                    <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
+                      <Clock className="w-4 h-4 text-green-600" />
+                    </div>
+                    <div>
+                      <p className="font-medium text-sm text-gray-800">Duration</p>
+                      <p className="font-semibold text-gray-900">{formatDuration(activity.moving_time)}</p>
+                    </div>
                   </div>
-                </div>
 
-                {(activity.location_city || activity.location_country) && (
                   <div className="flex items-center space-x-2">
-                    <div className="w-8 h-8 bg-purple-100 rounded-full flex items-center justify-center">
-                      <MapPin className="w-4 h-4 text-purple-600" />
+                    <div className="w-8 h-8 bg-orange-100 rounded-full flex items-center justify-center">
+                      <TrendingUp className="w-4 h-4 text-orange-600" />
                     </div>
                     <div>
-                      <p className="font-medium text-sm text-gray-800">Location</p>
-                      <p className="font-semibold text-sm text-gray-900">
-                        {[activity.location_city, activity.location_country]
-                          .filter(Boolean)
-                          .join(', ')}
-                      </p>
+                      <p className="font-medium text-sm text-gray-800">Elevation</p>
+                      <p className="font-semibold text-gray-900">{activity.elevation_gain.toFixed(0)} m</p>
                     </div>
                   </div>
+
+                  {(activity.location_city || activity.location_country) && (
+                    <div className="flex items-center space-x-2">
+                      <div className="w-8 h-8 bg-purple-100 rounded-full flex items-center justify-center">
+                        <MapPin className="w-4 h-4 text-purple-600" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-sm text-gray-800">Location</p>
+                        <p className="font-semibold text-sm text-gray-900">
+                          {formatLocation(activity)}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {activity.summary_polyline && (
+                  <RouteMap
+                    routes={[{ id: activity.id, polyline: activity.summary_polyline, name: activity.name }]}
+                    width={160}
+                    height={100}
+                    className="w-40 h-[100px] flex-shrink-0 rounded-md border border-gray-200"
+                  />
                 )}
               </div>
 
+              {chartIds.includes(activity.id) && (
+                <div className="mb-4 rounded-md border border-gray-200 p-4">
+                  <ActivityCharts activityId={activity.id} />
+                </div>
+              )}
+
               <div className="flex justify-between items-center pt-4 border-t border-gray-100">
-                <div className="font-light text-sm text-gray-500">
-                  Avg Pace: <span className="font-semibold">{((activity.moving_time / 60) / (activity.distance / 1000)).toFixed(1)} min/km</span>
+                <div className="flex items-center space-x-4">
+                  <div className="font-light text-sm text-gray-500">
+                    Avg Pace: <span className="font-semibold">{paceMinutesPerKm(activity)?.toFixed(1) ?? '—'} min/km</span>
+                  </div>
+                  {showCharts && activity.source === 'strava' && (
+                    <button
+                      onClick={() => toggleCharts(activity.id)}
+                      className="flex items-center space-x-1 font-medium text-sm text-gray-600 hover:text-gray-900"
+                      aria-expanded={chartIds.includes(activity.id)}
+                    >
+                      <BarChart3 className="w-4 h-4" />
+                      <span>{chartIds.includes(activity.id) ? 'Hide charts' : 'Show charts'}</span>
+                    </button>
+                  )}
                 </div>
-                <a
-                  href={`https://www.strava.com/activities/${activity.strava_id}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="font-medium text-orange-600 hover:text-orange-700 text-sm"
-                >
-                  View on Strava →
-                </a>
+                {activity.source === 'manual' ? (
+                  <span className="inline-block rounded px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-700">
+                    Manual entry
+                  </span>
+                ) : activity.source === 'upload' ? (
+                  <span className="inline-block rounded px-2 py-0.5 text-xs font-medium bg-blue-100 text-blue-700">
+                    Uploaded file
+                  </span>
+                ) : activity.strava_id ? (
+                  <a
+                    href={`https://www.strava.com/activities/${activity.strava_id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium text-orange-600 hover:text-orange-700 text-sm"
+                  >
+                    View on Strava →
+                  </a>
+                ) : null}
               </div>
             </div>
           ))}
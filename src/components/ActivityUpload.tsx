@@ -0,0 +1,146 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Upload } from 'lucide-react'
+
+interface UploadResult {
+  filename: string
+  status: 'created' | 'duplicate' | 'invalid'
+  name?: string
+  distance?: number
+  duplicateOf?: { id: number, name: string, source: string }
+  error?: string
+}
+
+const SPORT_TYPES = ['Hike', 'Walk', 'TrailRun', 'Run']
+
+const RESULT_STYLES: Record<UploadResult['status'], string> = {
+  created: 'text-green-700',
+  duplicate: 'text-gray-600',
+  invalid: 'text-red-600'
+}
+
+function describeResult(result: UploadResult): string {
+  if (result.status === 'created') {
+    return `Added "${result.name}" (${((result.distance ?? 0) / 1000).toFixed(1)} km)`
+  }
+  if (result.status === 'duplicate') {
+    return result.duplicateOf
+      ? `Already stored as "${result.duplicateOf.name}"${result.duplicateOf.source === 'strava' ? ' from Strava' : ''}`
+      : 'Already stored'
+  }
+  return result.error || 'Could not read this file'
+}
+
+export default function ActivityUpload() {
+  const router = useRouter()
+  const formRef = useRef<HTMLFormElement>(null)
+  const [fileCount, setFileCount] = useState(0)
+  const [isUploading, setIsUploading] = useState(false)
+  const [message, setMessage] = useState('')
+  const [results, setResults] = useState<UploadResult[]>([])
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setIsUploading(true)
+    setMessage('')
+    setResults([])
+
+    try {
+      const response = await fetch('/api/activities/upload', {
+        method: 'POST',
+        body: new FormData(event.currentTarget)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage(data.error || 'Upload failed')
+        setResults(data.results || [])
+        return
+      }
+
+      setResults(data.results)
+      if (data.created > 0) {
+        formRef.current?.reset()
+        setFileCount(0)
+        // Re-render the dashboard so the new hikes count toward the total
+        router.refresh()
+      }
+    } catch {
+      setMessage('Error uploading files')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">Upload Activity Files</h2>
+      <p className="font-light text-gray-600 mb-4">
+        Add hikes recorded outside Strava from GPX, TCX or FIT files. Files already stored are skipped.
+      </p>
+
+      <form ref={formRef} onSubmit={handleSubmit} className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col text-sm font-medium text-gray-800">
+          Files
+          <input
+            type="file"
+            name="file"
+            accept=".gpx,.tcx,.fit"
+            multiple
+            required
+            onChange={(event) => setFileCount(event.target.files?.length ?? 0)}
+            className="mt-1 text-sm font-normal text-gray-700"
+          />
+        </label>
+
+        <label className="flex flex-col text-sm font-medium text-gray-800">
+          Name
+          <input
+            type="text"
+            name="name"
+            placeholder={fileCount > 1 ? 'Taken from each file' : 'From the file'}
+            disabled={fileCount > 1}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-1.5 text-sm font-normal disabled:bg-gray-100"
+          />
+        </label>
+
+        <label className="flex flex-col text-sm font-medium text-gray-800">
+          Type
+          <select
+            name="sportType"
+            defaultValue=""
+            className="mt-1 rounded-md border border-gray-300 px-3 py-1.5 text-sm font-normal"
+          >
+            <option value="">From the file (default Hike)</option>
+            {SPORT_TYPES.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          type="submit"
+          disabled={isUploading || fileCount === 0}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Upload className={`w-4 h-4 mr-2 ${isUploading ? 'animate-pulse' : ''}`} />
+          {isUploading ? 'Uploading...' : 'Upload'}
+        </button>
+      </form>
+
+      {message && <p className="mt-3 text-sm text-red-600">{message}</p>}
+
+      {results.length > 0 && (
+        <ul className="mt-4 space-y-1 text-sm">
+          {results.map((result, index) => (
+            <li key={index} className={RESULT_STYLES[result.status]}>
+              <span className="font-medium">{result.filename}:</span> {describeResult(result)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Archive } from 'lucide-react'
+
+interface ImportResult {
+  fetched: number
+  qualified: number
+  inserted: number
+  skipped: number
+  removed: number
+  warnings: string[]
+}
+
+export default function ArchiveImport() {
+  const router = useRouter()
+  const formRef = useRef<HTMLFormElement>(null)
+  const [hasFile, setHasFile] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState('')
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setIsImporting(true)
+    setError('')
+    setResult(null)
+
+    try {
+      const response = await fetch('/api/import/strava-archive', {
+        method: 'POST',
+        body: new FormData(event.currentTarget)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Import failed')
+        return
+      }
+
+      setResult(data)
+      formRef.current?.reset()
+      setHasFile(false)
+      // Re-render the dashboard so the imported hikes count toward the total
+      router.refresh()
+    } catch {
+      setError('Error importing archive')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">Import a Strava Archive</h2>
+      <p className="font-light text-gray-600 mb-4">
+        For long histories, request your archive under Strava&apos;s Settings → My Account → Download or Delete Your Account,
+        then upload the zip here instead of syncing everything. Later syncs continue from the newest activity in the archive.
+      </p>
+
+      <form ref={formRef} onSubmit={handleSubmit} className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col text-sm font-medium text-gray-800">
+          Archive
+          <input
+            type="file"
+            name="archive"
+            accept=".zip,.csv"
+            required
+            onChange={(event) => setHasFile((event.target.files?.length ?? 0) > 0)}
+            className="mt-1 text-sm font-normal text-gray-700"
+          />
+        </label>
+
+        <button
+          type="submit"
+          disabled={isImporting || !hasFile}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Archive className={`w-4 h-4 mr-2 ${isImporting ? 'animate-pulse' : ''}`} />
+          {isImporting ? 'Importing...' : 'Import'}
+        </button>
+      </form>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <div className="mt-4 text-sm">
+          <p className="text-green-700">
+            {result.qualified} of {result.fetched} activities counted: {result.inserted} added, {result.skipped} already stored
+            {result.removed > 0 && `, ${result.removed} removed`}.
+          </p>
+          {result.warnings.map((warning, index) => (
+            <p key={index} className="text-gray-600">{warning}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
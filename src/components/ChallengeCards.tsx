@@ -0,0 +1,64 @@
+import { format, parseISO } from 'date-fns'
+import { Clock, Footprints, Mountain, Route, type LucideIcon } from 'lucide-react'
+import { formatGoalValue, type GoalMetric, type GoalProgress } from '@/lib/goals'
+
+interface ChallengeCardsProps {
+  challenges: GoalProgress[]
+}
+
+const METRIC_STYLES: Record<GoalMetric, { icon: LucideIcon, color: string }> = {
+  distance: { icon: Route, color: 'bg-blue-500' },
+  elevation: { icon: Mountain, color: 'bg-orange-500' },
+  count: { icon: Footprints, color: 'bg-green-500' },
+  moving_time: { icon: Clock, color: 'bg-purple-500' }
+}
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d, yyyy')
+
+// One card per challenge: progress toward its target in its own metric
+export default function ChallengeCards({ challenges }: ChallengeCardsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+      {challenges.map(({ goal, activities, value, remaining, progressPercentage }) => {
+        const { icon: Icon, color } = METRIC_STYLES[goal.metric]
+
+        return (
+          <div key={goal.id ?? 'default'} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center mb-4">
+              <div className="flex-shrink-0">
+                <div className={`w-8 h-8 ${color} rounded-full flex items-center justify-center`}>
+                  <Icon className="w-4 h-4 text-white" />
+                </div>
+              </div>
+              <div className="ml-4 min-w-0">
+                <p className="font-medium text-sm text-gray-800 truncate">{goal.name}</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatGoalValue(goal.metric, value)}
+                  <span className="font-light text-base text-gray-500"> / {formatGoalValue(goal.metric, goal.target)}</span>
+                </p>
+              </div>
+            </div>
+
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div className={`${color} h-2 rounded-full`} style={{ width: `${Math.min(progressPercentage, 100)}%` }} />
+            </div>
+
+            <div className="flex justify-between text-sm text-gray-600 mt-2">
+              <span className="font-semibold">{progressPercentage.toFixed(1)}%</span>
+              <span className="font-light">
+                {remaining > 0 ? `${formatGoalValue(goal.metric, remaining)} to go` : 'Completed'}
+              </span>
+            </div>
+
+            <p className="font-light text-xs text-gray-500 mt-3">
+              {goal.metric !== 'count' && <>{activities} {activities === 1 ? 'hike' : 'hikes'} · </>}
+              {goal.startDate ? `From ${formatDay(goal.startDate)}` : 'All hikes'}
+              {goal.deadline && ` to ${formatDay(goal.deadline)}`}
+              {goal.hashtag && ` · ${goal.hashtag}`}
+            </p>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+export default function ConnectStrava() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <div className="mb-6">
+            <div className="w-16 h-16 bg-orange-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <span className="text-orange-600 text-2xl">🥾</span>
+            </div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">3800km</h1>
+            <p className="font-normal text-gray-600">
+              Connect your Strava account to track your own hikes toward the goal.
+            </p>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-6 mb-6 text-left">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">How it works:</h2>
+            <ol className="font-normal list-decimal list-inside space-y-2 text-gray-700">
+              <li>Authorize read access to your Strava activities</li>
+              <li>Press &quot;Sync Activities&quot; on your dashboard</li>
+              <li>Hikes tagged <code className="bg-gray-200 px-2 py-1 rounded">#3800km</code> count toward your total</li>
+            </ol>
+          </div>
+
+          <a
+            href="/api/auth/strava"
+            className="inline-block font-medium bg-orange-600 text-white px-6 py-3 rounded-lg hover:bg-orange-700 transition-colors"
+          >
+            Connect with Strava
+          </a>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import { Plus, Save } from 'lucide-react'
+
+export interface ManualActivity {
+  id: number
+  name: string
+  type: string
+  start_date: string
+  distance: number
+  moving_time: number
+  elevation_gain: number
+  location_city: string | null
+  location_country: string | null
+}
+
+interface ManualActivityFormProps {
+  // Edit this entry instead of adding a new one
+  activity?: ManualActivity
+  onDone?: () => void
+}
+
+const SPORT_TYPES = ['Hike', 'Walk', 'TrailRun', 'Run']
+
+const inputClassName = 'mt-1 rounded-md border border-gray-300 px-3 py-1.5 text-sm font-normal'
+
+export default function ManualActivityForm({ activity, onDone }: ManualActivityFormProps) {
+  const router = useRouter()
+  const [isSaving, setIsSaving] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+  const [message, setMessage] = useState('')
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const form = event.currentTarget
+    const values = new FormData(form)
+    const text = (name: string) => String(values.get(name) ?? '').trim()
+    const number = (name: string) => Number(text(name) || 0)
+
+    setIsSaving(true)
+    setErrors([])
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/activities/manual', {
+        method: activity ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: activity?.id,
+          name: text('name'),
+          date: text('date'),
+          sportType: text('sportType'),
+          distance: Math.round(number('distanceKm') * 1000),
+          movingTime: Math.round(number('hours') * 3600 + number('minutes') * 60),
+          elevationGain: number('elevationGain'),
+          locationCity: text('locationCity'),
+          locationCountry: text('locationCountry')
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setErrors(data.errors || [data.error || 'Failed to save activity'])
+        return
+      }
+
+      if (!activity) {
+        form.reset()
+        setMessage(`Added "${data.activity.name}"`)
+      }
+      // Re-render the dashboard so the totals include the change
+      router.refresh()
+      onDone?.()
+    } catch {
+      setErrors(['Error saving activity'])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="flex flex-col text-sm font-medium text-gray-800 md:col-span-2">
+          Name
+          <input type="text" name="name" required maxLength={200} defaultValue={activity?.name} className={inputClassName} />
+        </label>
+
+        <label className="flex flex-col text-sm font-medium text-gray-800">
+          Date
+          <input
+            type="date"
+            name="date"
+            required
+            max={format(new Date(), 'yyyy-MM-dd')}
+            defaultValue={activity ? activity.start_date.slice(0, 10) : undefined}
+            className={inputClassName}
+          />
+        </label>
+
+        <label className="flex flex-col text-sm font-medium text-gray-800">
+          Type
+          <select name="sportType" defaultValue={activity?.type ?? 'Hike'} className={inputClassName}>
+            {SPORT_TYPES.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col text-sm font-medium text-gray-800">
+          Distance (km)
+          <input
+            type="number"
+            name="distanceKm"
+            required
+            min="0.01"
+            step="0.01"
+            defaultValue={activity ? (activity.distance / 1000).toFixed(2) : undefined}
+            className={inputClassName}
+          />
+        </label>
+
+        <div className="flex flex-col text-sm font-medium text-gray-800">
+          Duration
+          <div className="flex gap-2">
+            <input
+              type="number"
+              name="hours"
+              min="0"
+              placeholder="h"
+              aria-label="Hours"
+              defaultValue={activity ? Math.floor(activity.moving_time / 3600) : undefined}
+              className={`${inputClassName} w-1/2`}
+            />
+            <input
+              type="number"
+              name="minutes"
+              min="0"
+              max="59"
+              placeholder="min"
+              aria-label="Minutes"
+              defaultValue={activity ? Math.round((activity.moving_time % 3600) / 60) : undefined}
+              className={`${inputClassName} w-1/2`}
+            />
+          </div>
+        </div>
+
+        <label className="flex flex-col text-sm font-medium text-gray-800">
+          Elevation gain (m)
+          <input
+            type="number"
+            name="elevationGain"
+            min="0"
+            defaultValue={activity ? Math.round(activity.elevation_gain) : undefined}
+            className={inputClassName}
+          />
+        </label>
+
+        <div className="flex gap-2">
+          <label className="flex flex-col text-sm font-medium text-gray-800 w-1/2">
+            City
+            <input type="text" name="locationCity" defaultValue={activity?.location_city ?? undefined} className={inputClassName} />
+          </label>
+          <label className="flex flex-col text-sm font-medium text-gray-800 w-1/2">
+            Country
+            <input type="text" name="locationCountry" defaultValue={activity?.location_country ?? undefined} className={inputClassName} />
+          </label>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4 mt-4">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {activity ? <Save className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+          {isSaving ? 'Saving...' : activity ? 'Save Changes' : 'Add Hike'}
+        </button>
+        {onDone && activity && (
+          <button type="button" onClick={onDone} className="text-sm font-medium text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+        )}
+        {message && <p className="text-sm text-green-600">{message}</p>}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm text-red-600">
+          {errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </form>
+  )
+}
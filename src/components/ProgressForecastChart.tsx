@@ -0,0 +1,125 @@
+'use client'
+
+import { format, parseISO } from 'date-fns'
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
+import type { ProgressForecast } from '@/lib/progress-forecast'
+
+interface ProgressForecastChartProps {
+  forecast: ProgressForecast
+}
+
+interface ChartRow {
+  time: number
+  actual?: number
+  ideal?: number
+  expected?: number
+  band?: [number, number]
+}
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d, yyyy')
+
+// One row per date across every series, so recharts can share the time axis
+function toRows(forecast: ProgressForecast): ChartRow[] {
+  const rows = new Map<number, ChartRow>()
+  const row = (date: string) => {
+    const time = Date.parse(date)
+    if (!rows.has(time)) rows.set(time, { time })
+    return rows.get(time)!
+  }
+
+  forecast.cumulative.forEach(point => { row(point.date).actual = point.km })
+  forecast.idealPace.forEach(point => { row(point.date).ideal = point.km })
+  forecast.forecast.forEach(point => {
+    row(point.date).expected = point.expected
+    row(point.date).band = [point.low, point.high]
+  })
+
+  return [...rows.values()].sort((a, b) => a.time - b.time)
+}
+
+/**
+ * Cumulative kilometers against the ideal pace to the deadline, with the range the
+ * 4-, 12- and 52-week averages project ahead of today.
+ */
+export default function ProgressForecastChart({ forecast }: ProgressForecastChartProps) {
+  const expected = forecast.windows.find(window => window.weeks === 12)
+
+  return (
+    <div>
+      <div className="mb-4 space-y-1 text-sm text-gray-700">
+        {forecast.completedOn ? (
+          <p className="font-semibold text-green-700">Goal reached on {formatDay(forecast.completedOn)}.</p>
+        ) : forecast.projectedCompletion && expected ? (
+          <p>
+            At your 12-week pace of <span className="font-semibold">{expected.kmPerWeek} km/week</span>, you&apos;ll reach{' '}
+            {forecast.goalKm.toLocaleString()} km around <span className="font-semibold">{formatDay(forecast.projectedCompletion)}</span>
+            {forecast.projectedRange.earliest && forecast.projectedRange.latest && forecast.projectedRange.earliest !== forecast.projectedRange.latest && (
+              <> (between {formatDay(forecast.projectedRange.earliest)} and {formatDay(forecast.projectedRange.latest)})</>
+            )}.
+          </p>
+        ) : (
+          <p className="font-light text-gray-500">No hikes in the last 12 weeks to project a finish from.</p>
+        )}
+        {forecast.deadline && !forecast.completedOn && (
+          forecast.onTrack ? (
+            <p className="font-medium text-green-700">On track for the {formatDay(forecast.deadline)} deadline.</p>
+          ) : (
+            <p className="font-medium text-orange-700">
+              Behind pace for the {formatDay(forecast.deadline)} deadline
+              {forecast.requiredKmPerWeek !== null && <>: {forecast.requiredKmPerWeek} km/week needed from here</>}.
+            </p>
+          )
+        )}
+      </div>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <ComposedChart data={toRows(forecast)} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(time: number) => format(new Date(time), 'MMM yyyy')}
+            tick={{ fontSize: 12 }}
+          />
+          <YAxis domain={[0, (dataMax: number) => Math.max(dataMax, forecast.goalKm)]} unit=" km" width={70} tick={{ fontSize: 12 }} />
+          <Tooltip
+            labelFormatter={(time: number) => format(new Date(time), 'MMM d, yyyy')}
+            formatter={(value: number | [number, number], name: string) => [
+              Array.isArray(value) ? `${value[0]}–${value[1]} km` : `${value} km`,
+              name
+            ]}
+          />
+          <Legend />
+          <Area dataKey="band" name="Forecast range" stroke="none" fill="#93c5fd" fillOpacity={0.4} connectNulls isAnimationActive={false} />
+          <Line dataKey="ideal" name="Ideal pace" stroke="#9ca3af" strokeDasharray="6 4" dot={false} connectNulls isAnimationActive={false} />
+          <Line dataKey="expected" name="Projected (12-week pace)" stroke="#2563eb" strokeDasharray="3 3" dot={false} connectNulls isAnimationActive={false} />
+          <Line dataKey="actual" name="Hiked" type="stepAfter" stroke="#16a34a" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div className="mt-4 grid grid-cols-3 gap-4 text-sm">
+        {forecast.windows.map(window => (
+          <div key={window.weeks} className="rounded-md bg-gray-50 p-3">
+            <p className="font-medium text-gray-800">{window.weeks}-week average</p>
+            <p className="font-semibold text-gray-900">{window.kmPerWeek} km/week</p>
+            <p className="font-light text-gray-600">
+              {window.projectedCompletion ? `Finish ${formatDay(window.projectedCompletion)}` : forecast.completedOn ? 'Goal reached' : 'No recent hikes'}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { decodePolyline } from '@/lib/polyline'
+import { fitView, toSvgPath, visibleTiles, type LatLng } from '@/lib/map-projection'
+
+export interface MapRoute {
+  id: number | string
+  // Encoded polyline, as stored in summary_polyline
+  polyline: string
+  name?: string
+}
+
+interface RouteMapProps {
+  routes: MapRoute[]
+  width: number
+  height: number
+  className?: string
+  strokeWidth?: number
+}
+
+// Optional slippy map tiles under the routes, e.g. https://tile.openstreetmap.org/{z}/{x}/{y}.png
+const TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL
+const TILE_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION
+
+/**
+ * Routes drawn as SVG paths on a Web Mercator projection fitted to them. Works with no
+ * tile server; when NEXT_PUBLIC_MAP_TILE_URL is set, tiles are drawn underneath.
+ */
+export default function RouteMap({ routes, width, height, className, strokeWidth = 2 }: RouteMapProps) {
+  const decoded = routes
+    .map(route => ({ ...route, points: decodePolyline(route.polyline) as LatLng[] }))
+    .filter(route => route.points.length > 0)
+  const view = fitView(decoded.map(route => route.points), width, height, strokeWidth * 4)
+
+  if (!view) return null
+
+  const tiles = TILE_URL ? visibleTiles(view, TILE_URL) : []
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className={className}
+      role="img"
+      aria-label={decoded.length === 1 ? `Route of ${decoded[0].name ?? 'the activity'}` : `Routes of ${decoded.length} activities`}
+    >
+      <rect width={width} height={height} fill="#f1f5f9" />
+      {tiles.map(tile => (
+        <image key={tile.url + tile.x} href={tile.url} x={tile.x} y={tile.y} width={tile.size} height={tile.size} />
+      ))}
+      {decoded.map(route => (
+        <path
+          key={route.id}
+          d={toSvgPath(view, route.points)}
+          fill="none"
+          stroke="#ea580c"
+          strokeOpacity={decoded.length > 1 ? 0.75 : 1}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          {route.name && <title>{route.name}</title>}
+        </path>
+      ))}
+      {tiles.length > 0 && TILE_ATTRIBUTION && (
+        <text x={width - 4} y={height - 4} textAnchor="end" fontSize={10} fill="#475569">
+          {TILE_ATTRIBUTION}
+        </text>
+      )}
+    </svg>
+  )
+}
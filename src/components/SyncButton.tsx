@@ -1,34 +1,135 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
 import { RefreshCw } from 'lucide-react'
 
+interface SyncJobStatus {
+  id: string
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  pagesFetched: number
+  activitiesFetched: number
+  activitiesQualified: number
+  activitiesUpserted: number
+  activitiesRemoved: number
+  error: string | null
+  runAfter: string
+}
+
+interface SyncProgress {
+  pagesFetched: number
+  examined: number
+  qualifying: number
+  upserted: number
+  errors: string[]
+}
+
+const EMPTY_PROGRESS: SyncProgress = {
+  pagesFetched: 0,
+  examined: 0,
+  qualifying: 0,
+  upserted: 0,
+  errors: []
+}
+
+function toProgress(job: SyncJobStatus, errors: string[]): SyncProgress {
+  return {
+    pagesFetched: job.pagesFetched,
+    examined: job.activitiesFetched,
+    qualifying: job.activitiesQualified,
+    upserted: job.activitiesUpserted,
+    errors
+  }
+}
+
 export default function SyncButton() {
+  const router = useRouter()
   const [isSyncing, setIsSyncing] = useState(false)
   const [message, setMessage] = useState('')
+  const [progress, setProgress] = useState<SyncProgress | null>(null)
+  const eventSourceRef = useRef<EventSource | null>(null)
+
+  // Stop streaming if the dashboard unmounts mid-sync; the job carries on server-side
+  useEffect(() => () => eventSourceRef.current?.close(), [])
+
+  const finish = (text: string) => {
+    eventSourceRef.current?.close()
+    eventSourceRef.current = null
+    setMessage(text)
+    setIsSyncing(false)
+  }
 
   const handleSync = async () => {
     setIsSyncing(true)
     setMessage('')
+    setProgress(EMPTY_PROGRESS)
 
     try {
-      const response = await fetch('/api/sync-activities', {
+      const response = await fetch('/api/sync-jobs', {
         method: 'POST',
       })
 
       const data = await response.json()
 
-      if (response.ok) {
-        setMessage(`Successfully synced ${data.count} activities!`)
-        // Refresh the page to show new data
-        window.location.reload()
-      } else {
-        setMessage(data.error || 'Failed to sync activities')
+      if (!response.ok) {
+        finish(data.error || 'Failed to sync activities')
+        return
+      }
+
+      // The stream drives the job and reports each page; EventSource reconnects on its own
+      // when the server closes a connection before the job is done
+      const errors: string[] = []
+      const eventSource = new EventSource(`/api/sync-jobs/${data.job.id}/events`)
+      eventSourceRef.current = eventSource
+
+      const update = (event: MessageEvent) => {
+        const payload = JSON.parse(event.data)
+        setProgress(toProgress(payload.job, [...errors]))
+        return payload
       }
+
+      const complete = (job: SyncJobStatus) => {
+        finish(job.activitiesRemoved
+          ? `Successfully synced ${job.activitiesQualified} activities and removed ${job.activitiesRemoved} that no longer count!`
+          : `Successfully synced ${job.activitiesQualified} activities!`)
+        // Re-render the dashboard with the new rows
+        router.refresh()
+      }
+
+      eventSource.addEventListener('status', (event) => {
+        // A reconnect can land after the job already finished elsewhere (cron or another tab)
+        const job: SyncJobStatus = update(event).job
+        if (job.status === 'completed') {
+          complete(job)
+        } else if (job.status === 'failed') {
+          finish(job.error || 'Failed to sync activities')
+        }
+      })
+      eventSource.addEventListener('page', update)
+
+      eventSource.addEventListener('error', (event) => {
+        // Connection errors arrive as plain Events with no data
+        if (!(event instanceof MessageEvent)) {
+          if (eventSource.readyState === EventSource.CLOSED) {
+            finish('Lost connection to the sync. It will keep running in the background.')
+          }
+          return
+        }
+
+        const payload = JSON.parse(event.data)
+        errors.push(payload.message)
+        setProgress(toProgress(payload.job, [...errors]))
+
+        if (!payload.willRetry) {
+          finish(payload.message || 'Failed to sync activities')
+        }
+      })
+
+      eventSource.addEventListener('completed', (event) => {
+        complete(update(event).job)
+      })
     } catch {
-      setMessage('Error syncing activities')
-    } finally {
-      setIsSyncing(false)
+      finish('Error syncing activities')
     }
   }
 
@@ -44,6 +145,28 @@ export default function SyncButton() {
         />
         {isSyncing ? 'Syncing...' : 'Sync Activities'}
       </button>
+
+      {isSyncing && progress && (
+        <div className="w-64 rounded-md border border-gray-200 bg-white p-3 text-sm shadow-sm">
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-600">
+            <dt>Pages fetched</dt>
+            <dd className="text-right font-medium text-gray-900">{progress.pagesFetched}</dd>
+            <dt>Activities examined</dt>
+            <dd className="text-right font-medium text-gray-900">{progress.examined}</dd>
+            <dt>Qualifying hikes</dt>
+            <dd className="text-right font-medium text-gray-900">{progress.qualifying}</dd>
+            <dt>Rows saved</dt>
+            <dd className="text-right font-medium text-gray-900">{progress.upserted}</dd>
+          </dl>
+          {progress.errors.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-amber-700">
+              {progress.errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
       
       {message && (
         <p className={`text-sm ${
@@ -54,4 +177,4 @@ export default function SyncButton() {
       )}
     </div>
   )
-} 
\ No newline at end of file
+}
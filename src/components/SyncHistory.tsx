@@ -0,0 +1,98 @@
+import { format } from 'date-fns'
+import type { SyncRunSummary } from '@/lib/sync-runs'
+
+interface SyncHistoryProps {
+  runs: SyncRunSummary[]
+}
+
+const TRIGGER_LABELS: Record<SyncRunSummary['trigger'], string> = {
+  manual: 'Manual',
+  webhook: 'Strava update',
+  cron: 'Scheduled',
+  import: 'Archive import'
+}
+
+const STATUS_STYLES: Record<SyncRunSummary['status'], string> = {
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700'
+}
+
+export default function SyncHistory({ runs }: SyncHistoryProps) {
+  const formatDuration = (ms: number | null) => {
+    if (ms === null) return '—'
+    if (ms < 1000) return `${ms}ms`
+    const seconds = Math.round(ms / 1000)
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+  }
+
+  const formatDistanceChange = (meters: number | null) => {
+    if (meters === null) return '—'
+    const km = meters / 1000
+    if (Math.abs(km) < 0.05) return '0 km'
+    return `${km > 0 ? '+' : ''}${km.toFixed(1)} km`
+  }
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-gray-900 mb-4">Sync History</h2>
+
+      {runs.length === 0 ? (
+        <p className="font-normal text-gray-500">No syncs yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="font-medium py-2 pr-4">When</th>
+                <th className="font-medium py-2 pr-4">Trigger</th>
+                <th className="font-medium py-2 pr-4">Status</th>
+                <th className="font-medium py-2 pr-4 text-right">Fetched</th>
+                <th className="font-medium py-2 pr-4 text-right">Qualified</th>
+                <th className="font-medium py-2 pr-4 text-right">New</th>
+                <th className="font-medium py-2 pr-4 text-right">Updated</th>
+                <th className="font-medium py-2 pr-4 text-right">Removed</th>
+                <th className="font-medium py-2 pr-4 text-right">Total change</th>
+                <th className="font-medium py-2 text-right">Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr key={run.id} className="border-b border-gray-100 align-top">
+                  <td className="py-2 pr-4 text-gray-900 whitespace-nowrap">
+                    {format(new Date(run.startedAt), 'MMM dd, HH:mm')}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">
+                    {TRIGGER_LABELS[run.trigger]}
+                    {run.mode === 'full' && <span className="font-light text-gray-500"> (full)</span>}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span className={`inline-block rounded px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[run.status]}`}>
+                      {run.status}
+                    </span>
+                    {run.errors.length > 0 && (
+                      <ul className="mt-1 space-y-0.5 text-xs text-red-600">
+                        {run.errors.map((error, index) => (
+                          <li key={index}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-right text-gray-700">{run.fetched}</td>
+                  <td className="py-2 pr-4 text-right text-gray-700">{run.qualified}</td>
+                  <td className="py-2 pr-4 text-right text-gray-700">{run.inserted}</td>
+                  <td className="py-2 pr-4 text-right text-gray-700">{run.updated}</td>
+                  <td className="py-2 pr-4 text-right text-gray-700">{run.removed}</td>
+                  <td className="py-2 pr-4 text-right font-semibold text-gray-900 whitespace-nowrap">
+                    {formatDistanceChange(run.distanceChange)}
+                  </td>
+                  <td className="py-2 text-right text-gray-700">{formatDuration(run.durationMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // The schema check uses the Supabase client, which only runs in the Node.js runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { checkSchemaVersion } = await import('@/lib/schema-check')
+  await checkSchemaVersion()
+}
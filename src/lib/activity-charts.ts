@@ -0,0 +1,211 @@
+import type { ActivityStreams } from '@/lib/activity-streams'
+import { elevationGain, MOVING_SPEED_THRESHOLD } from '@/lib/activity-files/track-stats'
+
+/**
+ * Chart data for a single hike, derived from its stored altitude, distance and time
+ * streams: an elevation profile, per-kilometer splits, how much of the route was at
+ * each grade, and the climbs steeper than a chosen grade.
+ */
+
+export interface ElevationPoint {
+  distanceKm: number
+  altitude: number
+}
+
+export interface KilometerSplit {
+  // 1-based; the last split is usually shorter than a kilometer
+  km: number
+  distanceKm: number
+  // Seconds; null when the activity has no time stream
+  movingTime: number | null
+  paceMinPerKm: number | null
+  elevationGain: number
+  elevationLoss: number
+}
+
+export interface GradeBucket {
+  label: string
+  // Percent; null for the open-ended first and last buckets
+  minGrade: number | null
+  maxGrade: number | null
+  distanceKm: number
+}
+
+export interface Climb {
+  startKm: number
+  endKm: number
+  gain: number
+  averageGrade: number
+  maxGrade: number
+}
+
+export interface ActivityCharts {
+  climbGrade: number
+  profile: ElevationPoint[]
+  splits: KilometerSplit[]
+  grades: GradeBucket[]
+  climbs: Climb[]
+}
+
+export const DEFAULT_CLIMB_GRADE = 8
+export const MIN_CLIMB_GRADE = 1
+export const MAX_CLIMB_GRADE = 40
+
+// Enough points for a smooth profile at any chart width
+const MAX_PROFILE_POINTS = 400
+// Grades are measured over this distance; point-to-point GPS altitude is far too noisy
+const GRADE_WINDOW_METERS = 50
+// Shorter stretches above the threshold are bumps, not climbs
+const MIN_CLIMB_METERS = 200
+
+const GRADE_EDGES = [-15, -10, -5, -2, 2, 5, 10, 15]
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits
+
+/**
+ * Parses a climb grade in percent, e.g. from a query string. Null when it isn't a
+ * number in MIN_CLIMB_GRADE..MAX_CLIMB_GRADE.
+ */
+export function parseClimbGrade(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === '') return DEFAULT_CLIMB_GRADE
+
+  const grade = Number(value)
+  return Number.isFinite(grade) && grade >= MIN_CLIMB_GRADE && grade <= MAX_CLIMB_GRADE ? grade : null
+}
+
+function elevationProfile(distance: number[], altitude: number[]): ElevationPoint[] {
+  const step = Math.max(1, Math.ceil(distance.length / MAX_PROFILE_POINTS))
+  const profile: ElevationPoint[] = []
+
+  for (let i = 0; i < distance.length; i += step) {
+    profile.push({ distanceKm: round(distance[i] / 1000, 3), altitude: round(altitude[i], 1) })
+  }
+  const last = distance.length - 1
+  if (last % step !== 0) {
+    profile.push({ distanceKm: round(distance[last] / 1000, 3), altitude: round(altitude[last], 1) })
+  }
+
+  return profile
+}
+
+function kilometerSplits(distance: number[], altitude: number[], time: number[] | null): KilometerSplit[] {
+  const splits: KilometerSplit[] = []
+  let start = 0
+
+  // Each sample belongs to the kilometer its distance falls in; a split ends at the first sample of the next
+  while (start < distance.length - 1) {
+    const km = Math.floor(distance[start] / 1000) + 1
+    let end = start + 1
+    while (end < distance.length - 1 && distance[end] < km * 1000) end++
+
+    let movingTime = 0
+    if (time) {
+      for (let i = start + 1; i <= end; i++) {
+        const elapsed = time[i] - time[i - 1]
+        if (elapsed > 0 && (distance[i] - distance[i - 1]) / elapsed >= MOVING_SPEED_THRESHOLD) {
+          movingTime += elapsed
+        }
+      }
+    }
+
+    const splitDistance = distance[end] - distance[start]
+    const elevations = altitude.slice(start, end + 1)
+    splits.push({
+      km,
+      distanceKm: round(splitDistance / 1000, 3),
+      movingTime: time ? movingTime : null,
+      paceMinPerKm: time && splitDistance > 0 && movingTime > 0 ? round((movingTime / 60) / (splitDistance / 1000), 2) : null,
+      elevationGain: Math.round(elevationGain(elevations)),
+      // Loss is the gain of the same stretch walked backwards
+      elevationLoss: Math.round(elevationGain([...elevations].reverse()))
+    })
+    start = end
+  }
+
+  return splits
+}
+
+// Altitude every GRADE_WINDOW_METERS along the route, linearly interpolated between samples
+function resampleAltitude(distance: number[], altitude: number[]): number[] {
+  const samples: number[] = []
+  let i = 0
+
+  for (let at = distance[0]; at <= distance[distance.length - 1]; at += GRADE_WINDOW_METERS) {
+    while (i < distance.length - 2 && distance[i + 1] < at) i++
+    const span = distance[i + 1] - distance[i]
+    const fraction = span > 0 ? Math.min(Math.max((at - distance[i]) / span, 0), 1) : 0
+    samples.push(altitude[i] + (altitude[i + 1] - altitude[i]) * fraction)
+  }
+
+  return samples
+}
+
+function gradeDistribution(windowGrades: number[]): GradeBucket[] {
+  const edges = [null, ...GRADE_EDGES, null]
+  const buckets: GradeBucket[] = edges.slice(0, -1).map((minGrade, index) => {
+    const maxGrade = edges[index + 1]
+    return {
+      label: minGrade === null ? `< ${maxGrade}%` : maxGrade === null ? `> ${minGrade}%` : `${minGrade} to ${maxGrade}%`,
+      minGrade,
+      maxGrade,
+      distanceKm: 0
+    }
+  })
+
+  for (const grade of windowGrades) {
+    const bucket = buckets.find(bucket => bucket.maxGrade === null || grade < bucket.maxGrade)!
+    bucket.distanceKm += GRADE_WINDOW_METERS / 1000
+  }
+
+  return buckets.map(bucket => ({ ...bucket, distanceKm: round(bucket.distanceKm, 2) }))
+}
+
+function findClimbs(samples: number[], windowGrades: number[], startDistance: number, climbGrade: number): Climb[] {
+  const climbs: Climb[] = []
+  let first = -1
+
+  // A trailing sentinel closes a climb that runs to the end of the route
+  for (let i = 0; i <= windowGrades.length; i++) {
+    const steep = i < windowGrades.length && windowGrades[i] >= climbGrade
+
+    if (steep && first < 0) {
+      first = i
+    } else if (!steep && first >= 0) {
+      const length = (i - first) * GRADE_WINDOW_METERS
+      if (length >= MIN_CLIMB_METERS) {
+        const gain = samples[i] - samples[first]
+        climbs.push({
+          startKm: round((startDistance + first * GRADE_WINDOW_METERS) / 1000, 2),
+          endKm: round((startDistance + i * GRADE_WINDOW_METERS) / 1000, 2),
+          gain: Math.round(gain),
+          averageGrade: round(gain / length * 100, 1),
+          maxGrade: round(Math.max(...windowGrades.slice(first, i)), 1)
+        })
+      }
+      first = -1
+    }
+  }
+
+  return climbs
+}
+
+/**
+ * Chart data for an activity's streams, flagging climbs at or above `climbGrade`
+ * percent. Null when the streams lack distance or altitude, as for treadmill hikes
+ * and devices without an altimeter or GPS.
+ */
+export function buildActivityCharts(streams: ActivityStreams, climbGrade = DEFAULT_CLIMB_GRADE): ActivityCharts | null {
+  const { distance, altitude, time } = streams
+  if (!distance || !altitude || distance.length < 2) return null
+
+  const samples = resampleAltitude(distance, altitude)
+  const windowGrades = samples.slice(1).map((sample, index) => (sample - samples[index]) / GRADE_WINDOW_METERS * 100)
+
+  return {
+    climbGrade,
+    profile: elevationProfile(distance, altitude),
+    splits: kilometerSplits(distance, altitude, time),
+    grades: gradeDistribution(windowGrades),
+    climbs: findClimbs(samples, windowGrades, distance[0], climbGrade)
+  }
+}
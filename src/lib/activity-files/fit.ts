@@ -0,0 +1,179 @@
+import { ActivityFileError, type ParsedTrack, type TrackPoint } from '@/lib/activity-files/types'
+
+/**
+ * Garmin FIT, the binary format most watches record. This reads only what a track
+ * needs: `record` messages (position, altitude, distance, heart rate) and the sport
+ * from `session`. Definitions for every other message are still parsed so their data
+ * can be skipped.
+ */
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_SECONDS = 631065600
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31
+
+const MESG_RECORD = 20
+const MESG_SESSION = 18
+
+const FIELD_TIMESTAMP = 253
+const RECORD_POSITION_LAT = 0
+const RECORD_POSITION_LONG = 1
+const RECORD_ALTITUDE = 2
+const RECORD_HEART_RATE = 3
+const RECORD_DISTANCE = 5
+const RECORD_ENHANCED_ALTITUDE = 78
+const SESSION_SPORT = 5
+
+// Values of the FIT `sport` enum we map onto Strava sport types
+const FIT_SPORTS: Record<number, string> = {
+  1: 'Run',
+  2: 'Ride',
+  11: 'Walk',
+  17: 'Hike'
+}
+
+interface FieldDefinition {
+  number: number
+  size: number
+  baseType: number
+}
+
+interface MessageDefinition {
+  globalNumber: number
+  littleEndian: boolean
+  fields: FieldDefinition[]
+  // Bytes of developer fields that follow the regular ones
+  developerSize: number
+}
+
+// Returns undefined for the all-ones "invalid" value each base type reserves
+function readField(view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean): number | undefined {
+  switch (field.baseType & 0x1f) {
+    case 0x00: // enum
+    case 0x02: { // uint8
+      const value = view.getUint8(offset)
+      return value === 0xff ? undefined : value
+    }
+    case 0x01: { // sint8
+      const value = view.getInt8(offset)
+      return value === 0x7f ? undefined : value
+    }
+    case 0x03: { // sint16
+      const value = view.getInt16(offset, littleEndian)
+      return value === 0x7fff ? undefined : value
+    }
+    case 0x04: { // uint16
+      const value = view.getUint16(offset, littleEndian)
+      return value === 0xffff ? undefined : value
+    }
+    case 0x05: { // sint32
+      const value = view.getInt32(offset, littleEndian)
+      return value === 0x7fffffff ? undefined : value
+    }
+    case 0x06: { // uint32
+      const value = view.getUint32(offset, littleEndian)
+      return value === 0xffffffff ? undefined : value
+    }
+    default:
+      return undefined
+  }
+}
+
+export function parseFit(buffer: Buffer): ParsedTrack {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+
+  if (buffer.length < 12 || buffer.toString('ascii', 8, 12) !== '.FIT') {
+    throw new ActivityFileError('Not a FIT file')
+  }
+
+  const headerSize = view.getUint8(0)
+  const dataEnd = Math.min(headerSize + view.getUint32(4, true), buffer.length)
+
+  const definitions = new Map<number, MessageDefinition>()
+  const points: TrackPoint[] = []
+  let sportType: string | undefined
+  let lastTimestamp = 0
+  let offset = headerSize
+
+  try {
+    while (offset < dataEnd) {
+      const header = view.getUint8(offset++)
+
+      // Compressed timestamp header: a data message whose time is an offset from the last one
+      const compressed = (header & 0x80) !== 0
+      const localType = compressed ? (header >> 5) & 0x03 : header & 0x0f
+
+      if (!compressed && (header & 0x40) !== 0) {
+        const littleEndian = view.getUint8(offset + 1) === 0
+        const globalNumber = view.getUint16(offset + 2, littleEndian)
+        const fieldCount = view.getUint8(offset + 4)
+        offset += 5
+
+        const fields: FieldDefinition[] = []
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push({
+            number: view.getUint8(offset),
+            size: view.getUint8(offset + 1),
+            baseType: view.getUint8(offset + 2)
+          })
+          offset += 3
+        }
+
+        let developerSize = 0
+        if ((header & 0x20) !== 0) {
+          const developerCount = view.getUint8(offset++)
+          for (let i = 0; i < developerCount; i++) {
+            developerSize += view.getUint8(offset + 1)
+            offset += 3
+          }
+        }
+
+        definitions.set(localType, { globalNumber, littleEndian, fields, developerSize })
+        continue
+      }
+
+      const definition = definitions.get(localType)
+      if (!definition) {
+        throw new ActivityFileError('FIT file references a message type before defining it')
+      }
+
+      const values = new Map<number, number>()
+      for (const field of definition.fields) {
+        const value = readField(view, offset, field, definition.littleEndian)
+        if (value !== undefined) values.set(field.number, value)
+        offset += field.size
+      }
+      offset += definition.developerSize
+
+      if (compressed) {
+        const timeOffset = header & 0x1f
+        lastTimestamp += (timeOffset - (lastTimestamp & 0x1f)) & 0x1f
+      } else if (values.has(FIELD_TIMESTAMP)) {
+        lastTimestamp = values.get(FIELD_TIMESTAMP)!
+      }
+
+      if (definition.globalNumber === MESG_RECORD) {
+        const lat = values.get(RECORD_POSITION_LAT)
+        const lng = values.get(RECORD_POSITION_LONG)
+        const altitude = values.get(RECORD_ENHANCED_ALTITUDE) ?? values.get(RECORD_ALTITUDE)
+        const distance = values.get(RECORD_DISTANCE)
+
+        points.push({
+          time: lastTimestamp ? new Date((lastTimestamp + FIT_EPOCH_SECONDS) * 1000) : undefined,
+          lat: lat !== undefined ? lat * SEMICIRCLES_TO_DEGREES : undefined,
+          lng: lng !== undefined ? lng * SEMICIRCLES_TO_DEGREES : undefined,
+          elevation: altitude !== undefined ? altitude / 5 - 500 : undefined,
+          distance: distance !== undefined ? distance / 100 : undefined,
+          heartRate: values.get(RECORD_HEART_RATE)
+        })
+      } else if (definition.globalNumber === MESG_SESSION && values.has(SESSION_SPORT)) {
+        sportType ??= FIT_SPORTS[values.get(SESSION_SPORT)!]
+      }
+    }
+  } catch (error) {
+    if (error instanceof ActivityFileError) throw error
+    // A RangeError from DataView means the file ends mid-message
+    throw new ActivityFileError('FIT file is truncated or corrupt')
+  }
+
+  return { sportType, points }
+}
@@ -0,0 +1,37 @@
+import { ActivityFileError, type ParsedTrack, type TrackPoint } from '@/lib/activity-files/types'
+import { toSportType } from '@/lib/activity-files/sport'
+import { findElements, findNumber, findText, parseTime } from '@/lib/activity-files/xml'
+
+/**
+ * GPX 1.0/1.1 tracks. Points from every track segment are read in order; heart rate
+ * comes from the Garmin TrackPointExtension when present.
+ */
+export function parseGpx(xml: string): ParsedTrack {
+  if (!/<(?:[\w-]+:)?gpx[\s>]/.test(xml)) {
+    throw new ActivityFileError('Not a GPX file')
+  }
+
+  const track = findElements(xml, 'trk')[0]
+  // Some exporters only write a route (<rte>) rather than a recorded track
+  const pointElements = track
+    ? findElements(track.content, 'trkpt')
+    : findElements(xml, 'rtept')
+
+  const points: TrackPoint[] = pointElements.map(({ attributes, content }) => ({
+    lat: attributes.lat !== undefined ? Number(attributes.lat) : undefined,
+    lng: attributes.lon !== undefined ? Number(attributes.lon) : undefined,
+    elevation: findNumber(content, 'ele'),
+    time: parseTime(findText(content, 'time')),
+    heartRate: findNumber(content, 'hr')
+  }))
+
+  const metadata = findElements(xml, 'metadata')[0]?.content ?? ''
+  // The track's own <name>, not the first one nested in a point
+  const header = track ? track.content.split(/<(?:[\w-]+:)?trkseg/)[0] : ''
+
+  return {
+    name: findText(header, 'name') ?? findText(metadata, 'name'),
+    sportType: toSportType(findText(header, 'type')),
+    points
+  }
+}
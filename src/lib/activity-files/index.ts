@@ -0,0 +1,99 @@
+import type { ActivityInsert } from '@/lib/repositories'
+import { parseFit } from '@/lib/activity-files/fit'
+import { parseGpx } from '@/lib/activity-files/gpx'
+import { parseTcx } from '@/lib/activity-files/tcx'
+import { summarizeTrack, type TrackSummary } from '@/lib/activity-files/summary'
+import { ActivityFileError, type ActivityFileFormat } from '@/lib/activity-files/types'
+
+/**
+ * Recorded activity files (GPX, TCX, FIT) for hikes that never made it to Strava.
+ * Files are parsed server-side into the same `activities` row shape a Strava sync
+ * writes, with `source: 'upload'` and a track hash for de-duplication.
+ */
+
+export { ActivityFileError } from '@/lib/activity-files/types'
+export type { ActivityFileFormat } from '@/lib/activity-files/types'
+export type { TrackSummary } from '@/lib/activity-files/summary'
+
+export interface ParsedActivityFile {
+  format: ActivityFileFormat
+  name?: string
+  sportType?: string
+  summary: TrackSummary
+}
+
+export function detectFormat(filename: string, content: Buffer): ActivityFileFormat {
+  const extension = filename.toLowerCase().split('.').pop()
+  if (extension === 'gpx' || extension === 'tcx' || extension === 'fit') {
+    return extension
+  }
+
+  // Fall back to sniffing for files saved without a usable extension
+  if (content.length >= 12 && content.toString('ascii', 8, 12) === '.FIT') return 'fit'
+  const head = content.toString('utf8', 0, 1024)
+  if (/<(?:[\w-]+:)?gpx[\s>]/.test(head)) return 'gpx'
+  if (/<(?:[\w-]+:)?TrainingCenterDatabase[\s>]/.test(head)) return 'tcx'
+
+  throw new ActivityFileError('Unsupported file type; upload a .gpx, .tcx or .fit file')
+}
+
+export function parseActivityFile(filename: string, content: Buffer): ParsedActivityFile {
+  const format = detectFormat(filename, content)
+  const track = format === 'fit'
+    ? parseFit(content)
+    // Strip a UTF-8 byte order mark, which some exporters write before the XML declaration
+    : (format === 'gpx' ? parseGpx : parseTcx)(content.toString('utf8').replace(/^\uFEFF/, ''))
+
+  if (track.points.length === 0) {
+    throw new ActivityFileError(`The ${format.toUpperCase()} file contains no track points`)
+  }
+
+  return {
+    format,
+    name: track.name,
+    sportType: track.sportType,
+    summary: summarizeTrack(track.points)
+  }
+}
+
+interface UploadDetails {
+  userId: string
+  filename: string
+  // Overrides for what the file says (or doesn't)
+  name?: string
+  sportType?: string
+  description?: string
+}
+
+export function toUploadedActivityInsert(
+  parsed: ParsedActivityFile,
+  { userId, filename, name, sportType, description }: UploadDetails
+): ActivityInsert {
+  const { summary } = parsed
+  const type = sportType || parsed.sportType || 'Hike'
+
+  return {
+    strava_id: null,
+    source: 'upload',
+    track_hash: summary.trackHash,
+    user_id: userId,
+    name: name || parsed.name || filename.replace(/\.[^.]+$/, ''),
+    type,
+    sport_type: type,
+    description: description || null,
+    distance: summary.distance,
+    moving_time: summary.movingTime,
+    elapsed_time: summary.elapsedTime,
+    start_date: summary.startDate.toISOString(),
+    elevation_gain: summary.elevationGain,
+    start_latlng: summary.startLatLng,
+    end_latlng: summary.endLatLng,
+    summary_polyline: summary.summaryPolyline,
+    average_speed: summary.movingTime > 0 ? summary.distance / summary.movingTime : null,
+    max_speed: summary.maxSpeed,
+    average_heartrate: summary.averageHeartrate,
+    max_heartrate: summary.maxHeartrate,
+    max_elevation: summary.maxElevation,
+    min_elevation: summary.minElevation
+  }
+}
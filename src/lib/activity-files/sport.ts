@@ -0,0 +1,14 @@
+// Devices and apps name activity types freely ("hiking", "Hike", "mountain_hike"); map
+// the common ones onto Strava sport types so qualification rules and stats treat them alike
+const SPORT_PATTERNS: [RegExp, string][] = [
+  [/hik|mountaineer|trek/i, 'Hike'],
+  [/walk/i, 'Walk'],
+  [/trail.?run/i, 'TrailRun'],
+  [/run/i, 'Run'],
+  [/bik|cycl|ride/i, 'Ride']
+]
+
+export function toSportType(name: string | undefined): string | undefined {
+  if (!name) return undefined
+  return SPORT_PATTERNS.find(([pattern]) => pattern.test(name))?.[1]
+}
@@ -0,0 +1,125 @@
+import { createHash } from 'crypto'
+import { encodePolyline } from '@/lib/polyline'
+import { elevationGain, MOVING_SPEED_THRESHOLD } from '@/lib/activity-files/track-stats'
+import { ActivityFileError, type TrackPoint } from '@/lib/activity-files/types'
+
+export interface TrackSummary {
+  startDate: Date
+  distance: number
+  movingTime: number
+  elapsedTime: number
+  elevationGain: number
+  maxElevation: number | null
+  minElevation: number | null
+  maxSpeed: number | null
+  averageHeartrate: number | null
+  maxHeartrate: number | null
+  startLatLng: [number, number] | null
+  endLatLng: [number, number] | null
+  summaryPolyline: string | null
+  trackHash: string
+}
+
+const EARTH_RADIUS_METERS = 6371008.8
+
+// Keeps the stored polyline about the size of Strava's summary_polyline
+const MAX_POLYLINE_POINTS = 500
+
+function haversine(from: TrackPoint, to: TrackPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180
+  const dLat = toRadians(to.lat! - from.lat!)
+  const dLng = toRadians(to.lng! - from.lng!)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat!)) * Math.cos(toRadians(to.lat!)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a))
+}
+
+const hasPosition = (point: TrackPoint) =>
+  point.lat !== undefined && point.lng !== undefined && Number.isFinite(point.lat) && Number.isFinite(point.lng)
+
+function segmentDistance(from: TrackPoint, to: TrackPoint): number {
+  // The device's own odometer beats GPS when the file has one
+  if (from.distance !== undefined && to.distance !== undefined) {
+    return Math.max(0, to.distance - from.distance)
+  }
+  if (hasPosition(from) && hasPosition(to)) {
+    return haversine(from, to)
+  }
+  return 0
+}
+
+/**
+ * Hash of the recorded positions and times, rounded so the same track exported as GPX,
+ * TCX or FIT hashes the same.
+ */
+function hashTrack(points: TrackPoint[]): string {
+  const hash = createHash('sha256')
+  for (const point of points) {
+    const time = point.time ? Math.round(point.time.getTime() / 1000) : ''
+    const position = hasPosition(point) ? `${point.lat!.toFixed(5)},${point.lng!.toFixed(5)}` : ''
+    hash.update(`${time};${position}\n`)
+  }
+  return hash.digest('hex')
+}
+
+export function summarizeTrack(allPoints: TrackPoint[]): TrackSummary {
+  const points = allPoints
+    .filter(point => point.time || hasPosition(point))
+    .sort((a, b) => (a.time?.getTime() ?? 0) - (b.time?.getTime() ?? 0))
+  const timed = points.filter(point => point.time)
+
+  if (timed.length < 2) {
+    throw new ActivityFileError('The file has no timestamped track points, so its start time and duration are unknown')
+  }
+
+  let distance = 0
+  let movingTime = 0
+  let maxSpeed: number | null = null
+
+  for (let i = 1; i < timed.length; i++) {
+    const seconds = (timed[i].time!.getTime() - timed[i - 1].time!.getTime()) / 1000
+    const meters = segmentDistance(timed[i - 1], timed[i])
+    distance += meters
+
+    if (seconds <= 0) continue
+    const speed = meters / seconds
+    if (speed >= MOVING_SPEED_THRESHOLD) {
+      movingTime += seconds
+      // Single-second spikes are GPS jumps, not sprints
+      if (seconds >= 3) maxSpeed = Math.max(maxSpeed ?? 0, speed)
+    }
+  }
+
+  if (distance === 0) {
+    throw new ActivityFileError('The file has no positions or distances to measure')
+  }
+
+  const elevations = points.map(point => point.elevation).filter((elevation): elevation is number => elevation !== undefined)
+  const heartRates = points.map(point => point.heartRate).filter((rate): rate is number => rate !== undefined && rate > 0)
+  const positioned = points.filter(hasPosition)
+  const step = Math.max(1, Math.ceil(positioned.length / MAX_POLYLINE_POINTS))
+  const polylinePoints = positioned
+    .filter((_, index) => index % step === 0 || index === positioned.length - 1)
+    .map(point => [point.lat!, point.lng!] as [number, number])
+
+  const first = positioned[0]
+  const last = positioned[positioned.length - 1]
+
+  return {
+    startDate: timed[0].time!,
+    distance,
+    movingTime: Math.round(movingTime),
+    elapsedTime: Math.round((timed[timed.length - 1].time!.getTime() - timed[0].time!.getTime()) / 1000),
+    elevationGain: elevationGain(elevations),
+    // reduce rather than Math.max(...): a long hike recorded every second has tens of thousands of points
+    maxElevation: elevations.length > 0 ? elevations.reduce((max, elevation) => Math.max(max, elevation)) : null,
+    minElevation: elevations.length > 0 ? elevations.reduce((min, elevation) => Math.min(min, elevation)) : null,
+    maxSpeed,
+    averageHeartrate: heartRates.length > 0 ? heartRates.reduce((sum, rate) => sum + rate, 0) / heartRates.length : null,
+    maxHeartrate: heartRates.length > 0 ? heartRates.reduce((max, rate) => Math.max(max, rate)) : null,
+    startLatLng: first ? [first.lat!, first.lng!] : null,
+    endLatLng: last ? [last.lat!, last.lng!] : null,
+    summaryPolyline: polylinePoints.length > 1 ? encodePolyline(polylinePoints) : null,
+    trackHash: hashTrack(points)
+  }
+}
@@ -0,0 +1,38 @@
+import { ActivityFileError, type ParsedTrack, type TrackPoint } from '@/lib/activity-files/types'
+import { toSportType } from '@/lib/activity-files/sport'
+import { findElements, findNumber, findText, parseTime } from '@/lib/activity-files/xml'
+
+/**
+ * Garmin Training Center XML. Only the first activity in the file is read; its laps
+ * are concatenated into one track.
+ */
+export function parseTcx(xml: string): ParsedTrack {
+  if (!/<(?:[\w-]+:)?TrainingCenterDatabase[\s>]/.test(xml)) {
+    throw new ActivityFileError('Not a TCX file')
+  }
+
+  const activity = findElements(xml, 'Activity')[0]
+  if (!activity) {
+    throw new ActivityFileError('TCX file contains no activity')
+  }
+
+  const points: TrackPoint[] = findElements(activity.content, 'Trackpoint').map(({ content }) => {
+    const position = findElements(content, 'Position')[0]?.content
+    const heartRate = findElements(content, 'HeartRateBpm')[0]?.content
+
+    return {
+      time: parseTime(findText(content, 'Time')),
+      lat: position ? findNumber(position, 'LatitudeDegrees') : undefined,
+      lng: position ? findNumber(position, 'LongitudeDegrees') : undefined,
+      elevation: findNumber(content, 'AltitudeMeters'),
+      distance: findNumber(content, 'DistanceMeters'),
+      heartRate: heartRate ? findNumber(heartRate, 'Value') : undefined
+    }
+  })
+
+  return {
+    name: findText(activity.content.split(/<(?:[\w-]+:)?Lap[\s>]/)[0], 'Notes'),
+    sportType: toSportType(activity.attributes.Sport),
+    points
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Track arithmetic shared by the file importer and the activity charts. Kept free of
+ * Node-only imports so it can be bundled for the browser.
+ */
+
+// Slower than this between two points counts as stopped; slow uphill hiking is ~0.5 m/s
+export const MOVING_SPEED_THRESHOLD = 0.3
+// Climbs smaller than this are treated as GPS/barometer noise
+const ELEVATION_NOISE_METERS = 3
+
+export function elevationGain(elevations: number[]): number {
+  if (elevations.length === 0) return 0
+
+  // Count a climb only once it clears the noise threshold above the lowest point since the last one
+  let gain = 0
+  let reference = elevations[0]
+  for (const elevation of elevations) {
+    if (elevation - reference >= ELEVATION_NOISE_METERS) {
+      gain += elevation - reference
+      reference = elevation
+    } else if (elevation < reference) {
+      reference = elevation
+    }
+  }
+  return gain
+}
@@ -0,0 +1,26 @@
+export type ActivityFileFormat = 'gpx' | 'tcx' | 'fit'
+
+export interface TrackPoint {
+  time?: Date
+  lat?: number
+  lng?: number
+  // Meters above sea level
+  elevation?: number
+  // Cumulative meters as recorded by the device, when the file has it
+  distance?: number
+  heartRate?: number
+}
+
+export interface ParsedTrack {
+  name?: string
+  // Activity type named in the file, already mapped to a Strava sport type
+  sportType?: string
+  points: TrackPoint[]
+}
+
+export class ActivityFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ActivityFileError'
+  }
+}
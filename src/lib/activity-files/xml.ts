@@ -0,0 +1,70 @@
+/**
+ * Just enough XML reading for GPX and TCX: both are flat, well-known schemas, so
+ * element lookups by tag name cover them without a full parser. Namespace prefixes
+ * (`gpxtpx:hr`, `ns3:TPX`) are ignored.
+ */
+
+export interface XmlElement {
+  attributes: Record<string, string>
+  // Inner XML; empty for self-closing elements
+  content: string
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+}
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16))
+      if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10))
+      return ENTITIES[code] ?? entity
+    })
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    const name = match[1].includes(':') ? match[1].split(':').pop()! : match[1]
+    attributes[name] = decodeEntities(match[2] ?? match[3])
+  }
+  return attributes
+}
+
+export function findElements(xml: string, tag: string): XmlElement[] {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${tag}(?=[\\s/>])([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}\\s*>)`,
+    'g'
+  )
+
+  return [...xml.matchAll(pattern)].map(match => ({
+    attributes: parseAttributes(match[1]),
+    content: match[2] ?? ''
+  }))
+}
+
+export function findText(xml: string, tag: string): string | undefined {
+  const element = findElements(xml, tag)[0]
+  if (!element) return undefined
+  const text = decodeEntities(element.content).trim()
+  return text || undefined
+}
+
+export function findNumber(xml: string, tag: string): number | undefined {
+  const text = findText(xml, tag)
+  if (text === undefined) return undefined
+  const value = Number(text)
+  return Number.isFinite(value) ? value : undefined
+}
+
+export function parseTime(text: string | undefined): Date | undefined {
+  if (!text) return undefined
+  const time = new Date(text)
+  return Number.isNaN(time.getTime()) ? undefined : time
+}
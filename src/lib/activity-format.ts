@@ -0,0 +1,31 @@
+/**
+ * Display values derived from an activity row. Shared by the activity list and the
+ * exports so a spreadsheet shows exactly what the dashboard does.
+ */
+
+interface FormattableActivity {
+  distance: number
+  moving_time: number
+  location_city: string | null
+  location_country: string | null
+}
+
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`
+  }
+  return `${minutes}m`
+}
+
+// Minutes per kilometre, to one decimal; null when there is no distance to divide by
+export function paceMinutesPerKm(activity: FormattableActivity): number | null {
+  if (activity.distance <= 0) return null
+  return Math.round((activity.moving_time / 60) / (activity.distance / 1000) * 10) / 10
+}
+
+export function formatLocation(activity: FormattableActivity): string {
+  return [activity.location_city, activity.location_country].filter(Boolean).join(', ')
+}
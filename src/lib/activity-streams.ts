@@ -0,0 +1,133 @@
+import { logger } from '@/lib/logger'
+import { stravaAPI, type StravaStreamSet } from '@/lib/strava'
+import { getRepositories, type ActivityRow, type ActivityStreamInsert, type ActivityStreamRow } from '@/lib/repositories'
+import { decodeDeltas, decodePolyline, encodeDeltas, encodePolyline } from '@/lib/polyline'
+
+/**
+ * Point-by-point data for a counted activity: the track, elevation, distance, time and
+ * heart rate at every recorded sample. Strava only returns these from a separate
+ * endpoint, so they are fetched the first time something asks for them and stored
+ * compactly in `activity_streams`; the summary columns on `activities` are unaffected.
+ */
+
+export interface ActivityStreams {
+  pointCount: number
+  // Each present stream has pointCount entries; null when the activity has no such data
+  latlng: [number, number][] | null
+  // Meters
+  altitude: number[] | null
+  // Meters from the start
+  distance: number[] | null
+  // Seconds from the start
+  time: number[] | null
+  // Beats per minute
+  heartrate: number[] | null
+}
+
+// Multipliers applied before delta encoding; decimeters keep altitude and distance exact enough
+const ALTITUDE_FACTOR = 10
+const DISTANCE_FACTOR = 10
+
+/**
+ * Samples are occasionally missing (a GPS or sensor dropout comes back as null); carry
+ * the previous value forward so every stream stays aligned with the others.
+ */
+function fillGaps<T>(values: (T | null)[]): T[] | null {
+  const first = values.find(value => value !== null)
+  if (first === undefined) return null
+
+  let previous = first
+  return values.map(value => (previous = value ?? previous) as T)
+}
+
+export function toActivityStreams(set: StravaStreamSet): ActivityStreams {
+  const pointCount = Math.max(0, ...Object.values(set).map(stream => stream?.data.length ?? 0))
+  // A stream that doesn't cover every point can't be lined up with the others
+  const aligned = <T>(stream?: { data: (T | null)[] }) =>
+    stream && stream.data.length === pointCount ? fillGaps(stream.data) : null
+
+  return {
+    pointCount,
+    latlng: aligned(set.latlng),
+    altitude: aligned(set.altitude),
+    distance: aligned(set.distance),
+    time: aligned(set.time),
+    heartrate: aligned(set.heartrate)
+  }
+}
+
+export function encodeActivityStreams(
+  streams: ActivityStreams,
+  activityId: number,
+  userId: string
+): ActivityStreamInsert {
+  return {
+    activity_id: activityId,
+    user_id: userId,
+    point_count: streams.pointCount,
+    latlng: streams.latlng ? encodePolyline(streams.latlng) : null,
+    altitude: streams.altitude ? encodeDeltas(streams.altitude, ALTITUDE_FACTOR) : null,
+    distance: streams.distance ? encodeDeltas(streams.distance, DISTANCE_FACTOR) : null,
+    time: streams.time ? encodeDeltas(streams.time) : null,
+    heartrate: streams.heartrate ? encodeDeltas(streams.heartrate) : null,
+    fetched_at: new Date().toISOString()
+  }
+}
+
+export function decodeActivityStreams(row: ActivityStreamRow): ActivityStreams {
+  return {
+    pointCount: row.point_count,
+    latlng: row.latlng !== null ? decodePolyline(row.latlng) : null,
+    altitude: row.altitude !== null ? decodeDeltas(row.altitude, ALTITUDE_FACTOR) : null,
+    distance: row.distance !== null ? decodeDeltas(row.distance, DISTANCE_FACTOR) : null,
+    time: row.time !== null ? decodeDeltas(row.time) : null,
+    heartrate: row.heartrate !== null ? decodeDeltas(row.heartrate) : null
+  }
+}
+
+/**
+ * The stored streams for one of the user's activities, fetching them from Strava on
+ * first use. Returns null for activities without streams: uploads and manual entries,
+ * and Strava activities recorded without a device. That answer is stored too, so
+ * Strava is asked at most once per activity. Throws StravaRateLimitError when out of
+ * request budget.
+ */
+export async function loadActivityStreams(
+  userId: string,
+  activity: ActivityRow,
+  requestId?: string
+): Promise<ActivityStreams | null> {
+  const { users, streams } = getRepositories()
+  const stored = await streams.get(userId, activity.id)
+
+  if (stored) {
+    return stored.point_count > 0 ? decodeActivityStreams(stored) : null
+  }
+
+  if (activity.source !== 'strava' || !activity.strava_id) {
+    return null
+  }
+
+  const user = await users.getById(userId)
+  if (!user) {
+    throw new Error(`User ${userId} not found`)
+  }
+
+  const accessToken = await stravaAPI.ensureValidToken(userId, user.access_token, user.refresh_token, user.expires_at, users)
+  const set = await stravaAPI.getActivityStreams(accessToken, Number(activity.strava_id))
+  const fetched = set ? toActivityStreams(set) : null
+  const row = encodeActivityStreams(fetched ?? { pointCount: 0, latlng: null, altitude: null, distance: null, time: null, heartrate: null }, activity.id, userId)
+
+  await streams.save(row)
+
+  logger.info('Activity streams stored', {
+    activityId: activity.id,
+    stravaId: activity.strava_id,
+    points: row.point_count,
+    // Stored size against the raw JSON Strava sent
+    bytes: [row.latlng, row.altitude, row.distance, row.time, row.heartrate].reduce((sum, value) => sum + (value?.length ?? 0), 0),
+    rawBytes: set ? JSON.stringify(set).length : 0
+  }, 'activity-streams', userId, requestId)
+
+  return fetched && fetched.pointCount > 0 ? fetched : null
+}
@@ -0,0 +1,29 @@
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+
+// Set by the Strava OAuth callback; holds the athlete ID, which is also the users.id
+export const USER_COOKIE = 'strava_user_id'
+
+/**
+ * The signed-in user's ID from the session cookie, or null for anonymous visitors.
+ */
+export async function getSignedInUserId(): Promise<string | null> {
+  const userId = (await cookies()).get(USER_COOKIE)?.value
+  return userId || null
+}
+
+/**
+ * Single-owner mode serves one athlete's hikes to every visitor straight from Strava,
+ * using STRAVA_ACCESS_TOKEN / STRAVA_REFRESH_TOKEN from the environment. It has to be
+ * switched on explicitly with SINGLE_OWNER_MODE=true; otherwise visitors sign in and
+ * see their own synced activities.
+ */
+export function isSingleOwnerMode(): boolean {
+  const enabled = process.env.SINGLE_OWNER_MODE === 'true'
+
+  logger.debug('Resolved dashboard data mode', {
+    singleOwnerMode: enabled
+  }, 'auth')
+
+  return enabled
+}
@@ -0,0 +1,379 @@
+import { logger } from '@/lib/logger'
+import { getRepositories, type ActivityRow, type ActivityUpdate, type ActivitySource } from '@/lib/repositories'
+import { getQualificationRules, saveQualificationRules } from '@/lib/user-settings'
+import { parseQualificationRules, type QualificationRules } from '@/lib/qualification'
+import { parseGoal, toGoalFields, toGoalInsert, toGoalUpdate, type GoalFields } from '@/lib/goals'
+import { EXPECTED_SCHEMA_VERSION } from '@/lib/schema-version'
+
+/**
+ * A portable copy of one user's data, for moving between Supabase projects or undoing a
+ * mistake without re-syncing from Strava. Bundles carry every activity (synced,
+ * uploaded and manual entries), the qualification rules, goals and the sync watermark,
+ * but never OAuth tokens: the user signs in with Strava on the target first.
+ *
+ * Bump BACKUP_VERSION whenever the bundle shape changes, and keep reading older
+ * versions in parseBackupBundle. Version 2 added goals and version 3 gave them a
+ * metric and target; version 2 goals carry `targetKm`, which parseGoal still reads as
+ * a distance target, and version 1 bundles restore without touching goals.
+ */
+
+export const BACKUP_FORMAT = '3800km-backup'
+export const BACKUP_VERSION = 3
+
+// Stop listing problems after this many; one bad export usually repeats the same one
+const MAX_ERRORS = 20
+
+const SOURCES: ActivitySource[] = ['strava', 'upload', 'manual']
+
+export type BackupActivity = Omit<ActivityRow, 'id' | 'user_id' | 'created_at' | 'updated_at'>
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT
+  version: number
+  createdAt: string
+  // Database schema the bundle was written from, for troubleshooting
+  schemaVersion: number
+  user: {
+    id: string
+    stravaId: string
+    lastSyncedAt: number | null
+  }
+  settings: {
+    qualificationRules: QualificationRules
+  }
+  goals: GoalFields[]
+  activities: BackupActivity[]
+}
+
+export interface RestoreResult {
+  inserted: number
+  updated: number
+  // Strava activities in the bundle that are stored under another user, left untouched
+  skipped: number
+  goalsRestored: number
+  settingsRestored: boolean
+  lastSyncedAt: string | null
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BackupError'
+  }
+}
+
+const NUMBER_FIELDS = ['distance', 'moving_time', 'elevation_gain'] as const
+const NULLABLE_NUMBER_FIELDS = [
+  'elapsed_time', 'average_speed', 'max_speed', 'average_heartrate', 'max_heartrate', 'max_elevation', 'min_elevation'
+] as const
+const NULLABLE_STRING_FIELDS = [
+  'strava_id', 'track_hash', 'location_city', 'location_country', 'sport_type', 'description',
+  'start_date_local', 'timezone', 'summary_polyline', 'gear_id'
+] as const
+
+// Copy known fields only, so a bundle can't set ids or owners; missing optional fields become null
+function copyActivityFields(raw: Record<string, unknown>): BackupActivity {
+  const activity = {
+    name: raw.name,
+    type: raw.type,
+    start_date: raw.start_date,
+    source: raw.source,
+    start_latlng: raw.start_latlng ?? null,
+    end_latlng: raw.end_latlng ?? null
+  } as BackupActivity
+  for (const field of NUMBER_FIELDS) activity[field] = raw[field] as number
+  for (const field of NULLABLE_NUMBER_FIELDS) activity[field] = (raw[field] as number | null | undefined) ?? null
+  for (const field of NULLABLE_STRING_FIELDS) activity[field] = (raw[field] as string | null | undefined) ?? null
+  return activity
+}
+
+export async function createBackup(userId: string, requestId?: string): Promise<BackupBundle> {
+  const { users, activities, goals } = getRepositories()
+  const user = await users.getById(userId)
+
+  if (!user) {
+    throw new BackupError(`User ${userId} not found`)
+  }
+
+  const [rows, qualificationRules, goalRows] = await Promise.all([
+    activities.listByUser(userId),
+    getQualificationRules(userId),
+    goals.listByUser(userId)
+  ])
+
+  logger.info('Backup created', {
+    userId,
+    activities: rows.length,
+    goals: goalRows.length,
+    manual: rows.filter(row => row.source === 'manual').length,
+    uploaded: rows.filter(row => row.source === 'upload').length
+  }, 'backup', userId, requestId)
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    schemaVersion: EXPECTED_SCHEMA_VERSION,
+    user: {
+      id: user.id,
+      stravaId: user.strava_id,
+      lastSyncedAt: user.last_synced_at
+    },
+    settings: { qualificationRules },
+    goals: goalRows.map(toGoalFields),
+    // Oldest first reads more naturally in a file someone may open
+    activities: rows.map(row => copyActivityFields(row)).reverse()
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isLatLng(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber)
+}
+
+function parseActivity(input: unknown, label: string, errors: string[]): BackupActivity | null {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    errors.push(`${label} must be an object`)
+    return null
+  }
+
+  const raw = input as Record<string, unknown>
+  const before = errors.length
+
+  if (typeof raw.name !== 'string' || !raw.name.trim()) errors.push(`${label}.name must be a non-empty string`)
+  if (typeof raw.type !== 'string' || !raw.type.trim()) errors.push(`${label}.type must be a non-empty string`)
+  if (typeof raw.start_date !== 'string' || Number.isNaN(Date.parse(raw.start_date))) {
+    errors.push(`${label}.start_date must be a date`)
+  }
+  if (!SOURCES.includes(raw.source as ActivitySource)) {
+    errors.push(`${label}.source must be one of ${SOURCES.join(', ')}`)
+  }
+  for (const field of NUMBER_FIELDS) {
+    if (!isFiniteNumber(raw[field]) || raw[field] < 0) errors.push(`${label}.${field} must be a non-negative number`)
+  }
+  for (const field of NULLABLE_NUMBER_FIELDS) {
+    if (raw[field] != null && !isFiniteNumber(raw[field])) errors.push(`${label}.${field} must be a number or null`)
+  }
+  for (const field of NULLABLE_STRING_FIELDS) {
+    if (raw[field] != null && typeof raw[field] !== 'string') errors.push(`${label}.${field} must be a string or null`)
+  }
+  for (const field of ['start_latlng', 'end_latlng']) {
+    if (raw[field] != null && !isLatLng(raw[field])) errors.push(`${label}.${field} must be [lat, lng] or null`)
+  }
+  if (raw.source === 'strava' && typeof raw.strava_id !== 'string') {
+    errors.push(`${label}.strava_id is required for Strava activities`)
+  }
+
+  return errors.length > before ? null : copyActivityFields(raw)
+}
+
+/**
+ * Check a bundle read from JSON before anything is written. Bundles from a newer
+ * version of the app are rejected rather than half-restored.
+ */
+export function parseBackupBundle(
+  input: unknown
+): { bundle: BackupBundle; errors: [] } | { bundle: null; errors: string[] } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { bundle: null, errors: ['Backup must be a JSON object'] }
+  }
+
+  const raw = input as Record<string, unknown>
+
+  if (raw.format !== BACKUP_FORMAT) {
+    return { bundle: null, errors: [`Not a 3800km backup (format must be "${BACKUP_FORMAT}")`] }
+  }
+  if (!Number.isInteger(raw.version) || (raw.version as number) < 1) {
+    return { bundle: null, errors: ['Backup version must be a positive integer'] }
+  }
+  if ((raw.version as number) > BACKUP_VERSION) {
+    return {
+      bundle: null,
+      errors: [`Backup version ${raw.version} was written by a newer version of the app; this one reads up to version ${BACKUP_VERSION}`]
+    }
+  }
+
+  const errors: string[] = []
+  const user = raw.user as Record<string, unknown> | undefined
+
+  if (!user || typeof user.id !== 'string' || !user.id) errors.push('user.id must be a non-empty string')
+  if (user && user.lastSyncedAt != null && !isFiniteNumber(user.lastSyncedAt)) {
+    errors.push('user.lastSyncedAt must be Unix seconds or null')
+  }
+
+  const settings = raw.settings as Record<string, unknown> | undefined
+  const parsedRules = parseQualificationRules(settings?.qualificationRules ?? {})
+  errors.push(...parsedRules.errors.map(error => `settings.qualificationRules: ${error}`))
+
+  // Version 1 bundles predate goals
+  const goals: GoalFields[] = []
+  if ((raw.version as number) >= 2) {
+    if (!Array.isArray(raw.goals)) {
+      errors.push('goals must be an array')
+    }
+    for (const [index, item] of (Array.isArray(raw.goals) ? raw.goals : []).entries()) {
+      const parsed = parseGoal(item)
+      if (parsed.goal) {
+        goals.push(parsed.goal)
+      } else {
+        errors.push(...parsed.errors.map(error => `goals[${index}]: ${error}`))
+      }
+    }
+  }
+
+  if (!Array.isArray(raw.activities)) {
+    errors.push('activities must be an array')
+  }
+
+  const activities: BackupActivity[] = []
+  for (const [index, item] of (Array.isArray(raw.activities) ? raw.activities : []).entries()) {
+    const activity = parseActivity(item, `activities[${index}]`, errors)
+    if (activity) activities.push(activity)
+    if (errors.length >= MAX_ERRORS) break
+  }
+
+  if (errors.length > 0 || !parsedRules.rules) {
+    return {
+      bundle: null,
+      errors: errors.length > MAX_ERRORS ? [...errors.slice(0, MAX_ERRORS), `…and more (showing the first ${MAX_ERRORS})`] : errors
+    }
+  }
+
+  return {
+    bundle: {
+      format: BACKUP_FORMAT,
+      version: raw.version as number,
+      createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : '',
+      schemaVersion: isFiniteNumber(raw.schemaVersion) ? raw.schemaVersion : 0,
+      user: {
+        id: user!.id as string,
+        stravaId: typeof user!.stravaId === 'string' ? user!.stravaId : '',
+        lastSyncedAt: (user!.lastSyncedAt as number | null | undefined) ?? null
+      },
+      settings: { qualificationRules: parsedRules.rules },
+      goals,
+      activities
+    },
+    errors: []
+  }
+}
+
+// Uploads are identified by their track; manual entries have nothing better than when and what
+function localKey(activity: Pick<BackupActivity, 'source' | 'track_hash' | 'start_date' | 'name'>): string {
+  return activity.source === 'upload' && activity.track_hash
+    ? `upload:${activity.track_hash}`
+    : `${activity.source}:${new Date(activity.start_date).getTime()}:${activity.name}`
+}
+
+// The fields a restore may change on a matched row; its source and identity stay put
+function toActivityUpdate(activity: BackupActivity): ActivityUpdate {
+  const update: ActivityUpdate & Partial<BackupActivity> = { ...activity }
+  delete update.strava_id
+  delete update.source
+  delete update.track_hash
+  return update
+}
+
+/**
+ * Merge a bundle into the user's data. Activities are matched to stored rows (Strava ID,
+ * upload track, or a manual entry's date and name) and goals by name and start date,
+ * and updated in place, so restoring the same bundle twice changes nothing. Rows that
+ * aren't in the bundle are kept. The bundle is whatever the caller uploads, so a Strava
+ * ID already stored under another user is skipped rather than taken over.
+ */
+export async function restoreBackup(userId: string, bundle: BackupBundle, requestId?: string): Promise<RestoreResult> {
+  if (bundle.user.id !== userId) {
+    throw new BackupError(`This backup belongs to user ${bundle.user.id}, not ${userId}`)
+  }
+
+  const { users, activities, goals } = getRepositories()
+  const user = await users.getById(userId)
+
+  if (!user) {
+    throw new BackupError(`User ${userId} not found; sign in with Strava on this deployment before restoring`)
+  }
+
+  const result: RestoreResult = { inserted: 0, updated: 0, skipped: 0, goalsRestored: 0, settingsRestored: false, lastSyncedAt: null }
+
+  const bundledStravaRows = bundle.activities
+    .filter(activity => activity.source === 'strava')
+    .map(activity => ({ ...activity, strava_id: activity.strava_id!, user_id: userId }))
+  const owners = await activities.findOwners(bundledStravaRows.map(activity => activity.strava_id))
+  const stravaRows = bundledStravaRows.filter(activity => (owners.get(activity.strava_id) ?? userId) === userId)
+
+  result.skipped = bundledStravaRows.length - stravaRows.length
+  if (result.skipped > 0) {
+    logger.warn('Skipped backup activities stored under another user', {
+      userId,
+      skipped: result.skipped
+    }, 'backup', userId, requestId)
+  }
+
+  const upserted = await activities.upsert(userId, stravaRows)
+  result.inserted += upserted.inserted
+  result.updated += upserted.updated
+
+  const localRows = bundle.activities.filter(activity => activity.source !== 'strava')
+  if (localRows.length > 0) {
+    const [uploaded, manual] = await Promise.all([
+      activities.listByUser(userId, { source: 'upload' }),
+      activities.listByUser(userId, { source: 'manual' })
+    ])
+    const existing = new Map([...uploaded, ...manual].map(row => [localKey(row), row.id]))
+
+    for (const activity of localRows) {
+      const id = existing.get(localKey(activity))
+      if (id !== undefined) {
+        await activities.update(userId, id, toActivityUpdate(activity))
+        result.updated++
+      } else {
+        const row = await activities.insert({ ...activity, user_id: userId })
+        existing.set(localKey(row), row.id)
+        result.inserted++
+      }
+    }
+  }
+
+  await saveQualificationRules(userId, bundle.settings.qualificationRules)
+  result.settingsRestored = true
+
+  if (bundle.goals.length > 0) {
+    const goalKey = (goal: Pick<GoalFields, 'name' | 'startDate'>) => `${goal.startDate}:${goal.name}`
+    const existingGoals = new Map((await goals.listByUser(userId)).map(row => [goalKey(toGoalFields(row)), row.id]))
+
+    for (const goal of bundle.goals) {
+      const id = existingGoals.get(goalKey(goal))
+      if (id !== undefined) {
+        await goals.update(userId, id, toGoalUpdate(goal))
+      } else {
+        const row = await goals.insert(toGoalInsert(goal, userId))
+        existingGoals.set(goalKey(goal), row.id)
+      }
+      result.goalsRestored++
+    }
+  }
+
+  // Never move the watermark back: the stored data may already be newer than the bundle
+  let lastSyncedAt = user.last_synced_at
+  if (bundle.user.lastSyncedAt !== null && (lastSyncedAt === null || bundle.user.lastSyncedAt > lastSyncedAt)) {
+    await users.update(userId, { last_synced_at: bundle.user.lastSyncedAt })
+    lastSyncedAt = bundle.user.lastSyncedAt
+  }
+  result.lastSyncedAt = lastSyncedAt ? new Date(lastSyncedAt * 1000).toISOString() : null
+
+  logger.info('Backup restored', {
+    userId,
+    bundleVersion: bundle.version,
+    bundleCreatedAt: bundle.createdAt,
+    activities: bundle.activities.length,
+    goals: result.goalsRestored,
+    inserted: result.inserted,
+    updated: result.updated,
+    skipped: result.skipped
+  }, 'backup', userId, requestId)
+
+  return result
+}
@@ -335,14 +335,16 @@ logger.info('Cache configuration loaded', {
 
 // Schedule periodic cleanup every 5 minutes
 if (typeof setInterval !== 'undefined') {
-  setInterval(() => {
+  const cleanupTimer = setInterval(() => {
     logger.debug('Running scheduled cache cleanup', undefined, 'cache')
     const removed = cache.cleanup()
     if (removed > 0) {
       cache.logStats()
     }
   }, 5 * 60 * 1000) // 5 minutes
-  
+  // Don't keep scripts and test runs alive just for cleanup
+  cleanupTimer.unref?.()
+
   logger.info('Scheduled cache cleanup enabled', {
     intervalMinutes: 5
   }, 'cache')
@@ -0,0 +1,175 @@
+import type { ActivityRow } from '@/lib/repositories'
+import type { ActivityStreams } from '@/lib/activity-streams'
+import { formatDuration, formatLocation, paceMinutesPerKm } from '@/lib/activity-format'
+import { decodePolyline } from '@/lib/polyline'
+
+/**
+ * Extracts of the activities counted toward the goal, for the spreadsheets people keep
+ * alongside the app. Every format carries the same rows; CSV and JSON add the values
+ * the activity list shows (pace, formatted duration, location).
+ */
+
+export type ExportFormat = 'csv' | 'json' | 'gpx'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'gpx']
+
+export interface ExportRecord {
+  id: number
+  date: string
+  startDate: string
+  name: string
+  type: string
+  source: ActivityRow['source']
+  distanceKm: number
+  movingTimeSeconds: number
+  duration: string
+  elevationGainM: number
+  paceMinPerKm: number | null
+  location: string
+  locationCity: string | null
+  locationCountry: string | null
+  stravaUrl: string | null
+}
+
+// The day the hike happened where it happened; the UTC day for rows without a local time
+function activityDate(row: ActivityRow): string {
+  return row.start_date_local ? row.start_date_local.slice(0, 10) : new Date(row.start_date).toISOString().slice(0, 10)
+}
+
+export function toExportRecord(row: ActivityRow): ExportRecord {
+  return {
+    id: row.id,
+    date: activityDate(row),
+    startDate: row.start_date,
+    name: row.name,
+    type: row.sport_type || row.type,
+    source: row.source,
+    distanceKm: Math.round(row.distance) / 1000,
+    movingTimeSeconds: row.moving_time,
+    duration: formatDuration(row.moving_time),
+    elevationGainM: Math.round(row.elevation_gain),
+    paceMinPerKm: paceMinutesPerKm(row),
+    location: formatLocation(row),
+    locationCity: row.location_city,
+    locationCountry: row.location_country,
+    stravaUrl: row.strava_id ? `https://www.strava.com/activities/${row.strava_id}` : null
+  }
+}
+
+const CSV_COLUMNS: [keyof ExportRecord, string][] = [
+  ['date', 'date'],
+  ['name', 'name'],
+  ['type', 'type'],
+  ['source', 'source'],
+  ['distanceKm', 'distance_km'],
+  ['movingTimeSeconds', 'moving_time_seconds'],
+  ['duration', 'duration'],
+  ['elevationGainM', 'elevation_gain_m'],
+  ['paceMinPerKm', 'pace_min_per_km'],
+  ['location', 'location'],
+  ['locationCity', 'location_city'],
+  ['locationCountry', 'location_country'],
+  ['startDate', 'start_date'],
+  ['id', 'id'],
+  ['stravaUrl', 'strava_url']
+]
+
+function toCsvCell(value: ExportRecord[keyof ExportRecord]): string {
+  if (value === null || value === undefined) return ''
+  let text = String(value)
+  // Names are user-typed; don't let a spreadsheet evaluate "=HYPERLINK(...)" from one
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(records: ExportRecord[]): string {
+  const lines = [
+    CSV_COLUMNS.map(([, header]) => header).join(','),
+    ...records.map(record => CSV_COLUMNS.map(([key]) => toCsvCell(record[key])).join(','))
+  ]
+  return lines.join('\r\n') + '\r\n'
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Full-resolution points, with elevation and time where recorded, from stored streams
+function streamPoints(row: ActivityRow, streams: ActivityStreams): string[] {
+  const startedAt = Date.parse(row.start_date)
+
+  return streams.latlng!.map(([lat, lng], index) => {
+    const altitude = streams.altitude?.[index]
+    const time = streams.time?.[index]
+    const children = [
+      ...(altitude !== undefined ? [`<ele>${altitude.toFixed(1)}</ele>`] : []),
+      ...(time !== undefined ? [`<time>${new Date(startedAt + time * 1000).toISOString()}</time>`] : [])
+    ]
+    const attributes = `lat="${lat.toFixed(6)}" lon="${lng.toFixed(6)}"`
+    return children.length > 0
+      ? `      <trkpt ${attributes}>${children.join('')}</trkpt>`
+      : `      <trkpt ${attributes}/>`
+  })
+}
+
+/**
+ * One `<trk>` per activity with a track. Activities whose streams have been stored get
+ * every recorded point with its elevation and time; the rest fall back to the summary
+ * polyline, whose points carry positions only, so the track's start time is also in
+ * its description. Activities with neither, such as manual entries, are left out.
+ */
+export function toGpx(rows: ActivityRow[], streams = new Map<number, ActivityStreams>()): { gpx: string, skipped: number } {
+  const tracks: string[] = []
+  let skipped = 0
+
+  for (const row of rows) {
+    const stored = streams.get(row.id)
+    if (!stored?.latlng && !row.summary_polyline) {
+      skipped++
+      continue
+    }
+
+    const points = (stored?.latlng
+      ? streamPoints(row, stored)
+      : decodePolyline(row.summary_polyline!).map(([lat, lng]) => `      <trkpt lat="${lat.toFixed(5)}" lon="${lng.toFixed(5)}"/>`)
+    ).join('\n')
+    const record = toExportRecord(row)
+    const description = [
+      `Started ${row.start_date}`,
+      `${record.distanceKm.toFixed(2)} km`,
+      record.duration,
+      `${record.elevationGainM} m gain`,
+      record.location
+    ].filter(Boolean).join(' · ')
+
+    tracks.push([
+      '  <trk>',
+      `    <name>${escapeXml(row.name)}</name>`,
+      `    <desc>${escapeXml(description)}</desc>`,
+      ...(record.stravaUrl ? [`    <link href="${escapeXml(record.stravaUrl)}"><text>View on Strava</text></link>`] : []),
+      `    <type>${escapeXml(record.type)}</type>`,
+      '    <trkseg>',
+      points,
+      '    </trkseg>',
+      '  </trk>'
+    ].join('\n'))
+  }
+
+  const gpx = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="3800km" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    '    <name>3800km hikes</name>',
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    ...tracks,
+    '</gpx>',
+    ''
+  ].join('\n')
+
+  return { gpx, skipped }
+}
@@ -0,0 +1,399 @@
+import { logger } from '@/lib/logger'
+import type { QualificationRules } from '@/lib/qualification'
+import { getRepositories, type ActivitySource, type GoalInsert, type GoalMetric, type GoalRow, type GoalUpdate } from '@/lib/repositories'
+
+/**
+ * Goals, or challenges: a target in one metric (distance, elevation, number of hikes
+ * or moving time), counted from a start date, optionally by a deadline and only over
+ * hikes with a given hashtag. A user can run several at once and each gets its own
+ * progress card. The progress bar, the forecast and the user_progress view follow the
+ * active distance goal; users who haven't created any goal get DEFAULT_GOAL, the
+ * original 3800 km counting every stored hike, and users whose goals are all in other
+ * metrics get no distance views at all.
+ */
+
+export type { GoalMetric } from '@/lib/repositories'
+
+export interface Goal {
+  // Null for DEFAULT_GOAL, which isn't stored
+  id: number | null
+  name: string
+  metric: GoalMetric
+  // In the metric's unit, see GOAL_METRIC_UNITS
+  target: number
+  // Inclusive ISO dates (YYYY-MM-DD); a null start counts from the first activity
+  startDate: string | null
+  deadline: string | null
+  // Only Strava activities whose description contains this (case-insensitive) count;
+  // uploaded and manual activities count regardless
+  hashtag: string | null
+}
+
+export interface GoalFields {
+  name: string
+  metric: GoalMetric
+  target: number
+  startDate: string
+  deadline: string | null
+  hashtag: string | null
+}
+
+// Totals toward a distance goal
+export interface GoalStats {
+  totalActivities: number
+  totalDistance: number
+  totalKm: number
+  goalKm: number
+  progressPercentage: number
+  remainingKm: number
+}
+
+// Totals toward a goal of any metric, in the metric's unit
+export interface GoalProgress {
+  goal: Goal
+  activities: number
+  value: number
+  remaining: number
+  progressPercentage: number
+}
+
+export interface ChallengeStats {
+  // Null without an active distance goal
+  active: GoalStats | null
+  challenges: GoalProgress[]
+}
+
+interface GoalActivity {
+  distance: number
+  moving_time: number
+  elevation_gain: number
+  start_date: string
+  description?: string | null
+  // Rows without one (Strava API activities in single-owner mode) are from Strava
+  source?: ActivitySource
+}
+
+export const GOAL_METRICS: GoalMetric[] = ['distance', 'elevation', 'count', 'moving_time']
+
+export const GOAL_METRIC_UNITS: Record<GoalMetric, string> = {
+  distance: 'km',
+  elevation: 'm',
+  count: 'activities',
+  moving_time: 'h'
+}
+
+export const DEFAULT_GOAL: Goal = {
+  id: null,
+  name: '3800km',
+  metric: 'distance',
+  target: 3800,
+  startDate: null,
+  deadline: null,
+  hashtag: null
+}
+
+const MAX_NAME_LENGTH = 100
+const MAX_TARGETS: Record<GoalMetric, number> = {
+  distance: 100000,
+  elevation: 10000000,
+  count: 100000,
+  moving_time: 100000
+}
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+const HASHTAG = /^#[^\s#]{1,50}$/
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+function toDate(value: unknown, field: string, errors: string[]): string | null | undefined {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+  if (typeof value !== 'string' || !DATE_ONLY.test(value) || Number.isNaN(Date.parse(value))) {
+    errors.push(`${field} must be a date like 2025-01-31`)
+    return undefined
+  }
+  return value
+}
+
+// E.g. "3,800 km", "100,000 m", "52 activities", "120 h"
+export function formatGoalValue(metric: GoalMetric, value: number): string {
+  const number = value.toLocaleString('en-US', { maximumFractionDigits: metric === 'elevation' ? 0 : 1 })
+  if (metric === 'count') return `${number} ${value === 1 ? 'activity' : 'activities'}`
+  return `${number} ${GOAL_METRIC_UNITS[metric]}`
+}
+
+/**
+ * Validate a goal (a POST or PATCH body). With a base, omitted fields keep the base
+ * value, so a PATCH only needs the fields it changes; changing the metric needs a new
+ * target. `metric` defaults to distance and `name` to the target, e.g. "1,000 km".
+ * `targetKm`, from before goals had a metric, is read as a distance target.
+ */
+export function parseGoal(
+  input: unknown,
+  base?: GoalFields
+): { goal: GoalFields; errors: [] } | { goal: null; errors: string[] } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { goal: null, errors: ['Goal must be a JSON object'] }
+  }
+
+  const raw = input as Record<string, unknown>
+  const errors: string[] = []
+
+  let name: string | undefined
+  if (raw.name !== undefined && raw.name !== null && raw.name !== '') {
+    if (typeof raw.name !== 'string' || raw.name.trim().length > MAX_NAME_LENGTH) {
+      errors.push(`name must be a string of at most ${MAX_NAME_LENGTH} characters`)
+    } else {
+      name = raw.name.trim() || undefined
+    }
+  }
+
+  let metric: GoalMetric | undefined
+  if (raw.metric !== undefined) {
+    if (!GOAL_METRICS.includes(raw.metric as GoalMetric)) {
+      errors.push(`metric must be one of ${GOAL_METRICS.join(', ')}`)
+    } else {
+      metric = raw.metric as GoalMetric
+    }
+  }
+
+  let rawTarget = raw.target
+  if (rawTarget === undefined && raw.targetKm !== undefined) {
+    if (metric && metric !== 'distance') {
+      errors.push('targetKm only applies to distance goals, use target')
+    }
+    rawTarget = raw.targetKm
+    metric = 'distance'
+  }
+
+  const resolvedMetric = metric ?? base?.metric ?? 'distance'
+
+  let target: number | undefined
+  if (rawTarget !== undefined) {
+    const max = MAX_TARGETS[resolvedMetric]
+    if (typeof rawTarget !== 'number' || !Number.isFinite(rawTarget) || rawTarget <= 0 || rawTarget > max) {
+      errors.push(`target must be a positive number of ${GOAL_METRIC_UNITS[resolvedMetric]} up to ${max}`)
+    } else if (resolvedMetric === 'count' && !Number.isInteger(rawTarget)) {
+      errors.push('target must be a whole number of activities')
+    } else {
+      target = rawTarget
+    }
+  }
+
+  const startDate = toDate(raw.startDate, 'startDate', errors)
+  const deadline = toDate(raw.deadline, 'deadline', errors)
+
+  let hashtag: string | null | undefined
+  if (raw.hashtag === null || raw.hashtag === '') {
+    hashtag = null
+  } else if (raw.hashtag !== undefined) {
+    if (typeof raw.hashtag !== 'string' || !HASHTAG.test(raw.hashtag.trim())) {
+      errors.push('hashtag must look like #3800km')
+    } else {
+      hashtag = raw.hashtag.trim()
+    }
+  }
+
+  // The base target is in the base metric's unit, so it only carries over when that stays
+  const resolvedTarget = target ?? (resolvedMetric === base?.metric ? base.target : undefined)
+  const goal = {
+    name: name ?? base?.name ?? (resolvedTarget !== undefined ? formatGoalValue(resolvedMetric, resolvedTarget) : undefined),
+    metric: resolvedMetric,
+    target: resolvedTarget,
+    startDate: startDate ?? base?.startDate,
+    deadline: deadline === undefined ? base?.deadline ?? null : deadline,
+    hashtag: hashtag === undefined ? base?.hashtag ?? null : hashtag
+  }
+
+  for (const field of ['target', 'startDate'] as const) {
+    if (!goal[field] && !errors.some(error => error.startsWith(field))) {
+      errors.push(`${field} is required`)
+    }
+  }
+
+  if (goal.startDate && goal.deadline && goal.deadline < goal.startDate) {
+    errors.push('deadline must be on or after startDate')
+  }
+
+  if (errors.length > 0) {
+    return { goal: null, errors }
+  }
+
+  return { goal: goal as GoalFields, errors: [] }
+}
+
+export function toGoal(row: GoalRow): Goal {
+  return {
+    id: row.id,
+    ...toGoalFields(row)
+  }
+}
+
+export function toGoalFields(row: GoalRow): GoalFields {
+  return {
+    name: row.name,
+    metric: row.metric,
+    target: row.target,
+    startDate: row.start_date,
+    deadline: row.deadline,
+    hashtag: row.hashtag
+  }
+}
+
+export function toGoalUpdate(fields: GoalFields): GoalUpdate {
+  return {
+    name: fields.name,
+    metric: fields.metric,
+    target: fields.target,
+    start_date: fields.startDate,
+    deadline: fields.deadline,
+    hashtag: fields.hashtag
+  }
+}
+
+export function toGoalInsert(fields: GoalFields, userId: string): GoalInsert {
+  return {
+    user_id: userId,
+    name: fields.name,
+    metric: fields.metric,
+    target: fields.target,
+    start_date: fields.startDate,
+    deadline: fields.deadline,
+    hashtag: fields.hashtag
+  }
+}
+
+/**
+ * Goals in the order their cards are shown: the ones running today, then finished
+ * ones, then upcoming ones. The first distance goal in this order is the active goal,
+ * which the user_progress view in migrations/0014_user_progress_default_goal.sql picks the
+ * same way.
+ */
+export function orderGoals(goals: Goal[], now = new Date()): Goal[] {
+  const today = now.toISOString().slice(0, 10)
+  const started = (goal: Goal) => !goal.startDate || goal.startDate <= today
+  const rank = (goal: Goal) => !started(goal) ? 2 : !goal.deadline || goal.deadline >= today ? 0 : 1
+
+  return [...goals].sort((a, b) =>
+    rank(a) - rank(b) ||
+    // Latest start first among started goals, soonest first among upcoming ones
+    (rank(a) < 2 ? (b.startDate ?? '').localeCompare(a.startDate ?? '') : (a.startDate ?? '').localeCompare(b.startDate ?? '')) ||
+    (b.id ?? 0) - (a.id ?? 0)
+  )
+}
+
+/**
+ * The distance goal the progress bar and forecast follow: DEFAULT_GOAL for users with
+ * no goals, null for users whose goals are all in other metrics.
+ */
+export function selectActiveGoal(goals: Goal[], now = new Date()): Goal | null {
+  if (goals.length === 0) return DEFAULT_GOAL
+  return orderGoals(goals.filter(goal => goal.metric === 'distance'), now)[0] ?? null
+}
+
+/**
+ * Whether an activity falls in the goal's dates and, for Strava activities, carries its
+ * hashtag. Uploaded and manual activities were added on purpose and usually have no
+ * description, so the hashtag doesn't apply to them.
+ */
+export function countsTowardGoal(activity: Pick<GoalActivity, 'start_date' | 'description' | 'source'>, goal: Goal): boolean {
+  const time = Date.parse(activity.start_date)
+  if (goal.startDate && time < Date.parse(goal.startDate)) return false
+  if (goal.deadline && time >= Date.parse(goal.deadline) + DAY_MS) return false
+  const fromStrava = !activity.source || activity.source === 'strava'
+  if (goal.hashtag && fromStrava && !(activity.description ?? '').toLowerCase().includes(goal.hashtag.toLowerCase())) return false
+  return true
+}
+
+/**
+ * The rules a sync qualifies activities with. A goal's hashtag stands in for the rules'
+ * required hashtags rather than adding to them, so a hike tagged only `#5000km` is still
+ * stored for a `#5000km` goal under the default `#3800km` rule. Rules without a required
+ * hashtag are left alone.
+ */
+export function withGoalHashtags(rules: QualificationRules, goals: Goal[]): QualificationRules {
+  if (rules.requiredHashtags.length === 0) return rules
+
+  const hashtags = goals.flatMap(goal => goal.hashtag ? [goal.hashtag] : [])
+  const required = [...rules.requiredHashtags]
+  for (const hashtag of hashtags) {
+    if (!required.some(existing => existing.toLowerCase() === hashtag.toLowerCase())) required.push(hashtag)
+  }
+  return { ...rules, requiredHashtags: required }
+}
+
+function metricValue(activity: GoalActivity, metric: GoalMetric): number {
+  switch (metric) {
+    case 'distance':
+      return activity.distance / 1000
+    case 'elevation':
+      return activity.elevation_gain
+    case 'count':
+      return 1
+    case 'moving_time':
+      return activity.moving_time / 3600
+  }
+}
+
+export function calculateGoalProgress(activities: GoalActivity[], goal: Goal): GoalProgress {
+  const counted = activities.filter(activity => countsTowardGoal(activity, goal))
+  const value = counted.reduce((sum, activity) => sum + metricValue(activity, goal.metric), 0)
+
+  return {
+    goal,
+    activities: counted.length,
+    value: round(value),
+    remaining: Math.max(0, round(goal.target - value)),
+    progressPercentage: round(value / goal.target * 100)
+  }
+}
+
+export function calculateGoalStats(activities: GoalActivity[], goal: Goal): GoalStats {
+  const counted = activities.filter(activity => countsTowardGoal(activity, goal))
+  const totalDistance = counted.reduce((sum, activity) => sum + activity.distance, 0)
+  const totalKm = totalDistance / 1000
+
+  return {
+    totalActivities: counted.length,
+    totalDistance,
+    totalKm: round(totalKm),
+    goalKm: goal.target,
+    progressPercentage: round(totalKm / goal.target * 100),
+    remainingKm: Math.max(0, round(goal.target - totalKm))
+  }
+}
+
+/**
+ * The challenges to show a card for: every goal in card order, or just DEFAULT_GOAL
+ * for users who haven't created any.
+ */
+export function toChallenges(goals: Goal[], now = new Date()): Goal[] {
+  return goals.length > 0 ? orderGoals(goals, now) : [DEFAULT_GOAL]
+}
+
+// The active distance goal's totals plus the progress toward every challenge
+export function calculateChallengeStats(activities: GoalActivity[], goals: Goal[], now = new Date()): ChallengeStats {
+  const goal = selectActiveGoal(goals, now)
+  return {
+    active: goal ? calculateGoalStats(activities, goal) : null,
+    challenges: toChallenges(goals, now).map(goal => calculateGoalProgress(activities, goal))
+  }
+}
+
+export async function listGoals(userId: string): Promise<Goal[]> {
+  const rows = await getRepositories().goals.listByUser(userId)
+  return rows.map(toGoal)
+}
+
+// The user's active distance goal, see selectActiveGoal
+export async function getActiveGoal(userId: string, requestId?: string): Promise<Goal | null> {
+  const goal = selectActiveGoal(await listGoals(userId))
+
+  logger.debug('Active goal selected', {
+    goalId: goal?.id,
+    usingDefault: goal?.id === null,
+    hasDistanceGoal: goal !== null
+  }, 'goals', userId, requestId)
+
+  return goal
+}
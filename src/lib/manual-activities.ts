@@ -0,0 +1,165 @@
+import type { ActivityInsert, ActivityRow, ActivityUpdate } from '@/lib/repositories'
+
+/**
+ * Hikes typed in by hand: old logbook entries, or trips where the GPS died. They are
+ * stored in `activities` with `source = 'manual'` and count toward every total like
+ * synced hikes, but have no track, no Strava ID and can be edited or deleted.
+ */
+
+export interface ManualActivityFields {
+  name: string
+  // ISO date (YYYY-MM-DD) or date-time
+  date: string
+  sportType: string
+  // Meters
+  distance: number
+  // Seconds
+  movingTime: number
+  // Meters
+  elevationGain: number
+  locationCity: string | null
+  locationCountry: string | null
+  description: string | null
+}
+
+const MAX_NAME_LENGTH = 200
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+function toText(value: unknown, field: string, errors: string[], maxLength = MAX_NAME_LENGTH): string | null | undefined {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+  if (typeof value !== 'string') {
+    errors.push(`${field} must be a string`)
+    return undefined
+  }
+  const text = value.trim()
+  if (text.length > maxLength) {
+    errors.push(`${field} must be at most ${maxLength} characters`)
+    return undefined
+  }
+  return text || null
+}
+
+function toNumber(value: unknown, field: string, errors: string[], { allowZero = false } = {}): number | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+    errors.push(`${field} must be a ${allowZero ? 'non-negative' : 'positive'} number`)
+    return undefined
+  }
+  return value
+}
+
+/**
+ * Validate a manual entry (a POST or PATCH body). With a base, omitted fields keep the
+ * base value, so a PATCH only needs the fields it changes. Returns the complete fields
+ * or a list of errors.
+ */
+export function parseManualActivity(
+  input: unknown,
+  base?: ManualActivityFields
+): { activity: ManualActivityFields; errors: [] } | { activity: null; errors: string[] } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { activity: null, errors: ['Activity must be a JSON object'] }
+  }
+
+  const raw = input as Record<string, unknown>
+  const errors: string[] = []
+
+  const name = toText(raw.name, 'name', errors)
+  const sportType = toText(raw.sportType, 'sportType', errors, 40)
+  const locationCity = toText(raw.locationCity, 'locationCity', errors)
+  const locationCountry = toText(raw.locationCountry, 'locationCountry', errors)
+  const description = toText(raw.description, 'description', errors, 2000)
+  const distance = toNumber(raw.distance, 'distance', errors)
+  const movingTime = toNumber(raw.movingTime, 'movingTime', errors)
+  const elevationGain = toNumber(raw.elevationGain, 'elevationGain', errors, { allowZero: true })
+
+  let date: string | undefined
+  if (raw.date !== undefined) {
+    const time = typeof raw.date === 'string' ? new Date(raw.date).getTime() : NaN
+    if (Number.isNaN(time)) {
+      errors.push('date must be an ISO date')
+    } else if (time > Date.now() + 24 * 60 * 60 * 1000) {
+      errors.push('date cannot be in the future')
+    } else {
+      date = raw.date as string
+    }
+  }
+
+  if (movingTime !== undefined && !Number.isInteger(movingTime)) {
+    errors.push('movingTime must be a whole number of seconds')
+  }
+
+  const activity = {
+    name: name ?? base?.name,
+    date: date ?? base?.date,
+    sportType: sportType ?? base?.sportType ?? 'Hike',
+    distance: distance ?? base?.distance,
+    movingTime: movingTime ?? base?.movingTime,
+    elevationGain: elevationGain ?? base?.elevationGain ?? 0,
+    locationCity: locationCity === undefined ? base?.locationCity ?? null : locationCity,
+    locationCountry: locationCountry === undefined ? base?.locationCountry ?? null : locationCountry,
+    description: description === undefined ? base?.description ?? null : description
+  }
+
+  for (const field of ['name', 'date', 'distance', 'movingTime'] as const) {
+    if (!activity[field] && !errors.some(error => error.startsWith(field))) {
+      errors.push(`${field} is required`)
+    }
+  }
+
+  if (errors.length > 0) {
+    return { activity: null, errors }
+  }
+
+  return { activity: activity as ManualActivityFields, errors: [] }
+}
+
+// A bare date is stored at midday UTC so it shows as the same day in every timezone
+function toStartDate(date: string): string {
+  return DATE_ONLY.test(date) ? `${date}T12:00:00.000Z` : new Date(date).toISOString()
+}
+
+function toColumns(fields: ManualActivityFields): Omit<ActivityInsert, 'user_id' | 'strava_id' | 'source' | 'track_hash'> {
+  return {
+    name: fields.name,
+    type: fields.sportType,
+    sport_type: fields.sportType,
+    distance: fields.distance,
+    moving_time: fields.movingTime,
+    elapsed_time: fields.movingTime,
+    start_date: toStartDate(fields.date),
+    elevation_gain: fields.elevationGain,
+    location_city: fields.locationCity,
+    location_country: fields.locationCountry,
+    description: fields.description,
+    average_speed: fields.distance / fields.movingTime
+  }
+}
+
+export function toManualActivityInsert(fields: ManualActivityFields, userId: string): ActivityInsert {
+  return {
+    ...toColumns(fields),
+    strava_id: null,
+    source: 'manual',
+    user_id: userId
+  }
+}
+
+export function toManualActivityUpdate(fields: ManualActivityFields): ActivityUpdate {
+  return toColumns(fields)
+}
+
+export function toManualActivityFields(row: ActivityRow): ManualActivityFields {
+  return {
+    name: row.name,
+    date: row.start_date,
+    sportType: row.sport_type || row.type,
+    distance: row.distance,
+    movingTime: row.moving_time,
+    elevationGain: row.elevation_gain,
+    locationCity: row.location_city,
+    locationCountry: row.location_country,
+    description: row.description
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Web Mercator maths for drawing routes as SVG. The projection matches the one slippy
+ * map tiles use, so tiles from a configured tile server line up under the routes, but
+ * nothing here needs one: without tiles the routes are drawn on a plain background.
+ */
+
+export type LatLng = [number, number]
+
+const TILE_SIZE = 256
+// Zoom for a single point or a very short route, where fitting the bounds would zoom in forever
+const MAX_ZOOM = 16
+// Tile servers stop here
+const MAX_TILE_ZOOM = 19
+
+export interface MapView {
+  width: number
+  height: number
+  // Fractional zoom level: the world is TILE_SIZE * 2^zoom pixels wide
+  zoom: number
+  // World pixel at the view's top left corner
+  originX: number
+  originY: number
+}
+
+export interface MapTile {
+  url: string
+  x: number
+  y: number
+  size: number
+}
+
+// Position on a unit square world: x from the antimeridian eastward, y from the north edge
+function toWorld([lat, lng]: LatLng): [number, number] {
+  const sin = Math.min(Math.max(Math.sin(lat * Math.PI / 180), -0.9999), 0.9999)
+  return [
+    (lng + 180) / 360,
+    0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)
+  ]
+}
+
+/**
+ * The view that fits every point of every route into width × height, leaving `padding`
+ * pixels clear on each side. Null when there is nothing to draw.
+ */
+export function fitView(routes: LatLng[][], width: number, height: number, padding = 8): MapView | null {
+  const points = routes.flat().map(toWorld)
+  if (points.length === 0) return null
+
+  const xs = points.map(([x]) => x)
+  const ys = points.map(([, y]) => y)
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)]
+
+  const fitX = (width - 2 * padding) / Math.max((maxX - minX) * TILE_SIZE, 1e-9)
+  const fitY = (height - 2 * padding) / Math.max((maxY - minY) * TILE_SIZE, 1e-9)
+  const zoom = Math.min(Math.log2(Math.min(fitX, fitY)), MAX_ZOOM)
+  const scale = TILE_SIZE * 2 ** zoom
+
+  return {
+    width,
+    height,
+    zoom,
+    originX: (minX + maxX) / 2 * scale - width / 2,
+    originY: (minY + maxY) / 2 * scale - height / 2
+  }
+}
+
+export function projectPoint(view: MapView, point: LatLng): [number, number] {
+  const scale = TILE_SIZE * 2 ** view.zoom
+  const [x, y] = toWorld(point)
+  return [x * scale - view.originX, y * scale - view.originY]
+}
+
+/**
+ * An SVG path through the route. Points closer than `minSpacing` pixels to the last
+ * one drawn are dropped, which keeps a country-wide map of hundreds of hikes small.
+ */
+export function toSvgPath(view: MapView, route: LatLng[], minSpacing = 1): string {
+  const commands: string[] = []
+  let last: [number, number] | null = null
+
+  route.forEach((point, index) => {
+    const [x, y] = projectPoint(view, point)
+    const isEnd = index === route.length - 1
+    if (last && !isEnd && Math.hypot(x - last[0], y - last[1]) < minSpacing) return
+
+    commands.push(`${last ? 'L' : 'M'}${x.toFixed(1)} ${y.toFixed(1)}`)
+    last = [x, y]
+  })
+
+  return commands.join('')
+}
+
+/**
+ * The tiles covering the view, positioned in view pixels. `template` is a URL like
+ * `https://tile.openstreetmap.org/{z}/{x}/{y}.png`; `{s}` picks a subdomain a-c.
+ */
+export function visibleTiles(view: MapView, template: string): MapTile[] {
+  const z = Math.max(0, Math.min(Math.floor(view.zoom), MAX_TILE_ZOOM))
+  const size = TILE_SIZE * 2 ** (view.zoom - z)
+  const count = 2 ** z
+  const tiles: MapTile[] = []
+
+  const firstX = Math.floor(view.originX / size)
+  const lastX = Math.floor((view.originX + view.width) / size)
+  const firstY = Math.max(0, Math.floor(view.originY / size))
+  const lastY = Math.min(count - 1, Math.floor((view.originY + view.height) / size))
+
+  for (let tileY = firstY; tileY <= lastY; tileY++) {
+    for (let tileX = firstX; tileX <= lastX; tileX++) {
+      // Wrap around the antimeridian
+      const wrappedX = ((tileX % count) + count) % count
+      tiles.push({
+        url: template
+          .replace('{z}', String(z))
+          .replace('{x}', String(wrappedX))
+          .replace('{y}', String(tileY))
+          .replace('{s}', 'abc'[(wrappedX + tileY) % 3]),
+        x: tileX * size - view.originX,
+        y: tileY * size - view.originY,
+        size
+      })
+    }
+  }
+
+  return tiles
+}
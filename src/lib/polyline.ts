@@ -0,0 +1,96 @@
+/**
+ * Google encoded polyline format, as used by Strava's `summary_polyline`. Precision
+ * is five decimal places (about a metre).
+ */
+
+function encodeValue(value: number): string {
+  let shifted = value < 0 ? ~(value << 1) : value << 1
+  let encoded = ''
+
+  while (shifted >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63)
+    shifted >>= 5
+  }
+
+  return encoded + String.fromCharCode(shifted + 63)
+}
+
+export function encodePolyline(points: [number, number][]): string {
+  let previousLat = 0
+  let previousLng = 0
+  let encoded = ''
+
+  for (const [lat, lng] of points) {
+    const roundedLat = Math.round(lat * 1e5)
+    const roundedLng = Math.round(lng * 1e5)
+    encoded += encodeValue(roundedLat - previousLat) + encodeValue(roundedLng - previousLng)
+    previousLat = roundedLat
+    previousLng = roundedLng
+  }
+
+  return encoded
+}
+
+function createReader(encoded: string) {
+  let index = 0
+
+  return {
+    done: () => index >= encoded.length,
+    next: () => {
+      let result = 0
+      let shift = 0
+      let byte: number
+      do {
+        byte = encoded.charCodeAt(index++) - 63
+        result |= (byte & 0x1f) << shift
+        shift += 5
+      } while (byte >= 0x20 && index < encoded.length)
+      return result & 1 ? ~(result >> 1) : result >> 1
+    }
+  }
+}
+
+export function decodePolyline(encoded: string): [number, number][] {
+  const points: [number, number][] = []
+  const reader = createReader(encoded)
+  let lat = 0
+  let lng = 0
+
+  while (!reader.done()) {
+    lat += reader.next()
+    lng += reader.next()
+    points.push([lat / 1e5, lng / 1e5])
+  }
+
+  return points
+}
+
+/**
+ * The same scheme for a single numeric series (an elevation or time stream): each value
+ * is multiplied by `factor`, rounded and stored as the difference from the previous one.
+ */
+export function encodeDeltas(values: number[], factor = 1): string {
+  let previous = 0
+  let encoded = ''
+
+  for (const value of values) {
+    const rounded = Math.round(value * factor)
+    encoded += encodeValue(rounded - previous)
+    previous = rounded
+  }
+
+  return encoded
+}
+
+export function decodeDeltas(encoded: string, factor = 1): number[] {
+  const values: number[] = []
+  const reader = createReader(encoded)
+  let value = 0
+
+  while (!reader.done()) {
+    value += reader.next()
+    values.push(value / factor)
+  }
+
+  return values
+}
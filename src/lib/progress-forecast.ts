@@ -0,0 +1,172 @@
+import { DEFAULT_GOAL } from '@/lib/goals'
+
+/**
+ * "Will I make it, and when": cumulative kilometers over time, the straight line from
+ * the start of the goal to its target at the deadline, and where recent pace leads.
+ * The projection uses the 12-week average; the 4- and 52-week averages are shown
+ * alongside it, and the band between the slowest and fastest of the three is the
+ * forecast range. Dates are UTC calendar days (YYYY-MM-DD).
+ */
+
+export const FORECAST_WINDOW_WEEKS = [4, 12, 52]
+// The window the projected completion date comes from
+const EXPECTED_WINDOW_WEEKS = 12
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+// Beyond this the band isn't drawn; the projected dates are still reported
+const MAX_FORECAST_WEEKS = 5 * 52
+
+interface ForecastActivity {
+  distance: number
+  start_date: string
+}
+
+export interface ProgressPoint {
+  date: string
+  km: number
+}
+
+export interface ForecastPoint {
+  date: string
+  low: number
+  expected: number
+  high: number
+}
+
+export interface ForecastWindow {
+  weeks: number
+  kmPerWeek: number
+  // Null when nothing was hiked in the window, or the goal is already reached
+  projectedCompletion: string | null
+}
+
+export interface ProgressForecast {
+  goalKm: number
+  totalKm: number
+  remainingKm: number
+  startDate: string
+  // Null when the goal has none
+  deadline: string | null
+  // Day the cumulative total reached the goal
+  completedOn: string | null
+  // Weekly distance needed from today to finish by the deadline
+  requiredKmPerWeek: number | null
+  windows: ForecastWindow[]
+  projectedCompletion: string | null
+  projectedRange: { earliest: string | null; latest: string | null }
+  // Whether the projected completion is on or before the deadline
+  onTrack: boolean | null
+  cumulative: ProgressPoint[]
+  idealPace: ProgressPoint[]
+  forecast: ForecastPoint[]
+}
+
+export interface ForecastOptions {
+  goalKm?: number
+  // Defaults to the first activity's day
+  startDate?: string | null
+  deadline?: string | null
+  now?: Date
+}
+
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10)
+const dayStart = (date: string) => Date.parse(date.slice(0, 10))
+const round = (value: number) => Math.round(value * 10) / 10
+
+function cumulativeByDay(activities: ForecastActivity[], startDate: string, today: string): ProgressPoint[] {
+  const byDay = new Map<string, number>()
+  for (const activity of activities) {
+    const day = toDay(Date.parse(activity.start_date))
+    byDay.set(day, (byDay.get(day) ?? 0) + activity.distance / 1000)
+  }
+
+  const days = [...byDay.keys()].sort()
+  let km = 0
+  const points: ProgressPoint[] = [{ date: days[0] && days[0] < startDate ? days[0] : startDate, km: 0 }]
+  for (const day of days) {
+    km += byDay.get(day)!
+    points.push({ date: day, km: round(km) })
+  }
+  if (points[points.length - 1].date < today) {
+    points.push({ date: today, km: round(km) })
+  }
+
+  return points
+}
+
+function projectCompletion(now: number, remainingKm: number, kmPerWeek: number): string | null {
+  if (remainingKm <= 0 || kmPerWeek <= 0) return null
+  return toDay(now + remainingKm / kmPerWeek * WEEK_MS)
+}
+
+/**
+ * The forecast for the activities counted toward a goal. Each rolling average divides by the
+ * full window, or by the time since the start date when the challenge is younger than
+ * the window (but at least a week, so one early hike doesn't project a sprint).
+ */
+export function buildProgressForecast(activities: ForecastActivity[], options: ForecastOptions = {}): ProgressForecast {
+  const goalKm = options.goalKm ?? DEFAULT_GOAL.target
+  const now = (options.now ?? new Date()).getTime()
+  const today = toDay(now)
+  const firstDay = activities.reduce<string | null>((first, activity) => {
+    const day = toDay(Date.parse(activity.start_date))
+    return !first || day < first ? day : first
+  }, null)
+  const startDate = options.startDate?.slice(0, 10) ?? firstDay ?? today
+  const deadline = options.deadline?.slice(0, 10) ?? null
+
+  const cumulative = cumulativeByDay(activities, startDate, today)
+  const totalKm = cumulative[cumulative.length - 1].km
+  const remainingKm = Math.max(0, round(goalKm - totalKm))
+
+  const windows: ForecastWindow[] = FORECAST_WINDOW_WEEKS.map(weeks => {
+    const since = now - weeks * WEEK_MS
+    const km = activities
+      .filter(activity => Date.parse(activity.start_date) > since)
+      .reduce((sum, activity) => sum + activity.distance / 1000, 0)
+    const spanWeeks = Math.max(1, Math.min(weeks, (now - dayStart(startDate)) / WEEK_MS))
+    const kmPerWeek = round(km / spanWeeks)
+    return { weeks, kmPerWeek, projectedCompletion: projectCompletion(now, remainingKm, kmPerWeek) }
+  })
+
+  const rates = windows.map(window => window.kmPerWeek)
+  const expectedRate = windows.find(window => window.weeks === EXPECTED_WINDOW_WEEKS)!.kmPerWeek
+  const [lowRate, highRate] = [Math.min(...rates), Math.max(...rates)]
+  const projectedCompletion = projectCompletion(now, remainingKm, expectedRate)
+
+  // Draw the band until the expected line reaches the goal, or through the deadline if later
+  const forecast: ForecastPoint[] = []
+  if (remainingKm > 0) {
+    const untilGoal = expectedRate > 0 ? Math.ceil(remainingKm / expectedRate) : 0
+    const untilDeadline = deadline ? Math.ceil((dayStart(deadline) + DAY_MS - now) / WEEK_MS) : 0
+    const weeks = Math.min(Math.max(untilGoal, untilDeadline, 1), MAX_FORECAST_WEEKS)
+    for (let week = 0; week <= weeks; week++) {
+      const at = (rate: number) => round(Math.min(goalKm, totalKm + rate * week))
+      forecast.push({ date: toDay(now + week * WEEK_MS), low: at(lowRate), expected: at(expectedRate), high: at(highRate) })
+    }
+  }
+
+  const weeksLeft = deadline ? (dayStart(deadline) + DAY_MS - now) / WEEK_MS : null
+  const completedOn = remainingKm > 0 ? null : cumulative.find(point => point.km >= goalKm)?.date ?? today
+
+  return {
+    goalKm,
+    totalKm,
+    remainingKm,
+    startDate,
+    deadline,
+    completedOn,
+    requiredKmPerWeek: weeksLeft !== null && weeksLeft > 0 && remainingKm > 0 ? round(remainingKm / weeksLeft) : null,
+    windows,
+    projectedCompletion,
+    projectedRange: {
+      earliest: projectCompletion(now, remainingKm, highRate),
+      latest: projectCompletion(now, remainingKm, lowRate)
+    },
+    onTrack: !deadline ? null : completedOn ? completedOn <= deadline : projectedCompletion !== null && projectedCompletion <= deadline,
+    cumulative,
+    idealPace: deadline ? [{ date: startDate, km: 0 }, { date: deadline, km: goalKm }] : [],
+    forecast
+  }
+}
@@ -0,0 +1,276 @@
+import { logger } from '@/lib/logger'
+import type { StravaActivity } from '@/lib/strava'
+
+/**
+ * Rules deciding which Strava activities count toward the goal. Every list rule is
+ * skipped when empty, so the defaults only constrain sport type and hashtag.
+ */
+export interface QualificationRules {
+  // Strava `sport_type` (or legacy `type`) values that can count
+  sportTypes: string[]
+  // At least one of these must appear in the description (case-insensitive)
+  requiredHashtags: string[]
+  // None of these may appear in the description (case-insensitive)
+  excludedHashtags: string[]
+  // Activity name must match at least one of these regexes (case-insensitive)
+  namePatterns: string[]
+  // Activity name must match none of these regexes (case-insensitive)
+  excludedNamePatterns: string[]
+  // Minimum distance in meters
+  minDistance: number | null
+  // Inclusive date window (ISO dates) on the activity start date
+  startDate: string | null
+  endDate: string | null
+  // Only activities recorded with one of these Strava gear IDs
+  gearIds: string[]
+}
+
+export type QualificationRuleName =
+  | 'sport_type'
+  | 'required_hashtag'
+  | 'excluded_hashtag'
+  | 'name_pattern'
+  | 'excluded_name_pattern'
+  | 'min_distance'
+  | 'date_window'
+  | 'gear'
+
+export interface QualificationResult {
+  activityId: number
+  qualifies: boolean
+  // The rule that rejected the activity, or null when every rule passed
+  rejectedBy: QualificationRuleName | null
+  reason: string
+  // Rules the activity was checked against and passed
+  passed: QualificationRuleName[]
+}
+
+export interface QualificationSummary {
+  evaluated: number
+  accepted: number
+  rejected: number
+  rejectedBy: Partial<Record<QualificationRuleName, number>>
+}
+
+export const DEFAULT_QUALIFICATION_RULES: QualificationRules = {
+  sportTypes: ['Hike'],
+  requiredHashtags: ['#3800km'],
+  excludedHashtags: [],
+  namePatterns: [],
+  excludedNamePatterns: [],
+  minDistance: null,
+  startDate: null,
+  endDate: null,
+  gearIds: []
+}
+
+function containsHashtag(text: string | undefined, hashtag: string): boolean {
+  return !!text && text.toLowerCase().includes(hashtag.toLowerCase())
+}
+
+export function evaluateActivity(activity: StravaActivity, rules: QualificationRules): QualificationResult {
+  const passed: QualificationRuleName[] = []
+  const reject = (rule: QualificationRuleName, reason: string): QualificationResult => ({
+    activityId: activity.id,
+    qualifies: false,
+    rejectedBy: rule,
+    reason,
+    passed
+  })
+
+  if (rules.sportTypes.length > 0) {
+    if (!rules.sportTypes.includes(activity.sport_type) && !rules.sportTypes.includes(activity.type)) {
+      return reject('sport_type', `Sport type ${activity.sport_type || activity.type} is not one of ${rules.sportTypes.join(', ')}`)
+    }
+    passed.push('sport_type')
+  }
+
+  if (rules.requiredHashtags.length > 0) {
+    if (!rules.requiredHashtags.some(hashtag => containsHashtag(activity.description, hashtag))) {
+      return reject('required_hashtag', activity.description
+        ? `Description has none of ${rules.requiredHashtags.join(', ')}`
+        : 'Activity has no description')
+    }
+    passed.push('required_hashtag')
+  }
+
+  if (rules.excludedHashtags.length > 0) {
+    const excluded = rules.excludedHashtags.find(hashtag => containsHashtag(activity.description, hashtag))
+    if (excluded) {
+      return reject('excluded_hashtag', `Description contains excluded hashtag ${excluded}`)
+    }
+    passed.push('excluded_hashtag')
+  }
+
+  if (rules.namePatterns.length > 0) {
+    if (!rules.namePatterns.some(pattern => new RegExp(pattern, 'i').test(activity.name))) {
+      return reject('name_pattern', `Name "${activity.name}" matches none of the name patterns`)
+    }
+    passed.push('name_pattern')
+  }
+
+  if (rules.excludedNamePatterns.length > 0) {
+    const excluded = rules.excludedNamePatterns.find(pattern => new RegExp(pattern, 'i').test(activity.name))
+    if (excluded) {
+      return reject('excluded_name_pattern', `Name "${activity.name}" matches excluded pattern /${excluded}/`)
+    }
+    passed.push('excluded_name_pattern')
+  }
+
+  if (rules.minDistance !== null) {
+    if (activity.distance < rules.minDistance) {
+      return reject('min_distance', `Distance ${Math.round(activity.distance)} m is below the ${rules.minDistance} m minimum`)
+    }
+    passed.push('min_distance')
+  }
+
+  if (rules.startDate || rules.endDate) {
+    const startedAt = new Date(activity.start_date).getTime()
+    if (rules.startDate && startedAt < new Date(rules.startDate).getTime()) {
+      return reject('date_window', `Started before ${rules.startDate}`)
+    }
+    // End date is inclusive, so compare against the end of that day
+    if (rules.endDate && startedAt >= new Date(rules.endDate).getTime() + 24 * 60 * 60 * 1000) {
+      return reject('date_window', `Started after ${rules.endDate}`)
+    }
+    passed.push('date_window')
+  }
+
+  if (rules.gearIds.length > 0) {
+    if (!activity.gear_id || !rules.gearIds.includes(activity.gear_id)) {
+      return reject('gear', activity.gear_id ? `Gear ${activity.gear_id} is not in the allowed gear list` : 'Activity has no gear')
+    }
+    passed.push('gear')
+  }
+
+  return {
+    activityId: activity.id,
+    qualifies: true,
+    rejectedBy: null,
+    reason: passed.length > 0 ? `Passed ${passed.join(', ')}` : 'No rules configured',
+    passed
+  }
+}
+
+export function summarizeQualification(results: QualificationResult[]): QualificationSummary {
+  const rejectedBy: Partial<Record<QualificationRuleName, number>> = {}
+  let accepted = 0
+
+  for (const result of results) {
+    if (result.qualifies) {
+      accepted++
+    } else if (result.rejectedBy) {
+      rejectedBy[result.rejectedBy] = (rejectedBy[result.rejectedBy] || 0) + 1
+    }
+  }
+
+  return {
+    evaluated: results.length,
+    accepted,
+    rejected: results.length - accepted,
+    rejectedBy
+  }
+}
+
+function toStringList(value: unknown, field: string, errors: string[]): string[] | undefined {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    errors.push(`${field} must be an array of strings`)
+    return undefined
+  }
+  return value.map(item => item.trim()).filter(Boolean)
+}
+
+function toDate(value: unknown, field: string, errors: string[]): string | null | undefined {
+  if (value === undefined || value === null || value === '') return value === undefined ? undefined : null
+  if (typeof value !== 'string' || Number.isNaN(new Date(value).getTime())) {
+    errors.push(`${field} must be an ISO date`)
+    return undefined
+  }
+  return value
+}
+
+/**
+ * Validate user-supplied rules (e.g. a PUT body) on top of a base rule set. Fields that
+ * are omitted keep their base value. Returns the merged rules or a list of errors.
+ */
+export function parseQualificationRules(
+  input: unknown,
+  base: QualificationRules = DEFAULT_QUALIFICATION_RULES
+): { rules: QualificationRules; errors: [] } | { rules: null; errors: string[] } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { rules: null, errors: ['Rules must be a JSON object'] }
+  }
+
+  const raw = input as Record<string, unknown>
+  const errors: string[] = []
+
+  const sportTypes = toStringList(raw.sportTypes, 'sportTypes', errors)
+  const requiredHashtags = toStringList(raw.requiredHashtags, 'requiredHashtags', errors)
+  const excludedHashtags = toStringList(raw.excludedHashtags, 'excludedHashtags', errors)
+  const namePatterns = toStringList(raw.namePatterns, 'namePatterns', errors)
+  const excludedNamePatterns = toStringList(raw.excludedNamePatterns, 'excludedNamePatterns', errors)
+  const gearIds = toStringList(raw.gearIds, 'gearIds', errors)
+  const startDate = toDate(raw.startDate, 'startDate', errors)
+  const endDate = toDate(raw.endDate, 'endDate', errors)
+
+  for (const pattern of [...(namePatterns || []), ...(excludedNamePatterns || [])]) {
+    try {
+      new RegExp(pattern, 'i')
+    } catch {
+      errors.push(`Invalid name pattern: ${pattern}`)
+    }
+  }
+
+  let minDistance: number | null | undefined
+  if (raw.minDistance !== undefined) {
+    if (raw.minDistance === null) {
+      minDistance = null
+    } else if (typeof raw.minDistance !== 'number' || !Number.isFinite(raw.minDistance) || raw.minDistance < 0) {
+      errors.push('minDistance must be a non-negative number of meters')
+    } else {
+      minDistance = raw.minDistance
+    }
+  }
+
+  if (errors.length > 0) {
+    return { rules: null, errors }
+  }
+
+  const rules: QualificationRules = {
+    sportTypes: sportTypes ?? base.sportTypes,
+    requiredHashtags: requiredHashtags ?? base.requiredHashtags,
+    excludedHashtags: excludedHashtags ?? base.excludedHashtags,
+    namePatterns: namePatterns ?? base.namePatterns,
+    excludedNamePatterns: excludedNamePatterns ?? base.excludedNamePatterns,
+    minDistance: minDistance === undefined ? base.minDistance : minDistance,
+    startDate: startDate === undefined ? base.startDate : startDate,
+    endDate: endDate === undefined ? base.endDate : endDate,
+    gearIds: gearIds ?? base.gearIds
+  }
+
+  if (rules.startDate && rules.endDate && new Date(rules.startDate) > new Date(rules.endDate)) {
+    return { rules: null, errors: ['startDate must be on or before endDate'] }
+  }
+
+  return { rules, errors: [] }
+}
+
+/**
+ * Rules as stored in the database may predate newer fields; fill the gaps from the defaults.
+ */
+export function normalizeQualificationRules(stored: unknown): QualificationRules {
+  if (!stored) {
+    return DEFAULT_QUALIFICATION_RULES
+  }
+
+  const parsed = parseQualificationRules(stored)
+  if (!parsed.rules) {
+    logger.warn('Stored qualification rules are invalid, falling back to defaults', {
+      errors: parsed.errors
+    }, 'qualification')
+    return DEFAULT_QUALIFICATION_RULES
+  }
+
+  return parsed.rules
+}
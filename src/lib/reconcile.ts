@@ -0,0 +1,126 @@
+import { logger } from '@/lib/logger'
+import { getRepositories } from '@/lib/repositories'
+
+export interface RemovedActivity {
+  stravaId: string
+  name: string
+  distance: number
+  reason: string
+}
+
+export interface ReconciliationResult {
+  // 'full' checks every stored row; 'window' only rows inside the fetched date range
+  scope: 'full' | 'window'
+  checked: number
+  removed: RemovedActivity[]
+  removedDistance: number
+  // Stored rows left alone because their details couldn't be fetched this run
+  skipped: number
+}
+
+interface ReconcileOptions {
+  userId: string
+  // Unix seconds the fetch started after; undefined for a full resync
+  after?: number
+  // Unix seconds the fetched history ends at, when it doesn't reach the present (an archive export)
+  before?: number
+  // Strava IDs returned by the fetch, and the subset that qualified
+  fetchedIds: string[]
+  qualifyingIds: string[]
+  // Activities whose detail fetch failed, so their qualification is unknown
+  unknownIds: string[]
+  // Rejection reasons by Strava ID, when the caller still has them
+  reasons?: Record<string, string>
+  requestId?: string
+}
+
+/**
+ * Upserting only ever adds rows, so hikes deleted on Strava or stripped of their tag
+ * would keep counting forever. This pass compares the stored rows covered by the fetch
+ * with what Strava just returned and deletes the ones that no longer qualify.
+ *
+ * An incremental sync only sees activities after its watermark, so it can only vouch
+ * for stored rows in that window; older rows are reconciled by a full resync (or by
+ * webhook events as they happen).
+ */
+export async function reconcileActivities({
+  userId,
+  after,
+  before,
+  fetchedIds,
+  qualifyingIds,
+  unknownIds,
+  reasons = {},
+  requestId
+}: ReconcileOptions): Promise<ReconciliationResult> {
+  const scope = after || before ? 'window' : 'full'
+
+  logger.info('Reconciling stored activities', {
+    userId,
+    scope,
+    after: after ? new Date(after * 1000).toISOString() : null,
+    before: before ? new Date(before * 1000).toISOString() : null,
+    fetched: fetchedIds.length
+  }, 'reconcile', userId, requestId)
+
+  const { activities } = getRepositories()
+  // Uploaded activities aren't on Strava, so Strava can't vouch for them either way
+  const storedRows = await activities.listByUser(userId, {
+    after: after ? new Date(after * 1000).toISOString() : undefined,
+    before: before ? new Date(before * 1000).toISOString() : undefined,
+    source: 'strava'
+  })
+
+  const fetched = new Set(fetchedIds)
+  const qualifying = new Set(qualifyingIds)
+  const unknown = new Set(unknownIds)
+
+  const removed: RemovedActivity[] = []
+  let skipped = 0
+
+  for (const row of storedRows) {
+    const stravaId = row.strava_id
+    if (!stravaId) continue
+
+    if (unknown.has(stravaId)) {
+      skipped++
+      continue
+    }
+
+    if (qualifying.has(stravaId)) {
+      continue
+    }
+
+    removed.push({
+      stravaId,
+      name: row.name,
+      distance: row.distance,
+      reason: fetched.has(stravaId)
+        ? reasons[stravaId] || 'No longer qualifies'
+        : 'Not returned by Strava (deleted or made private)'
+    })
+  }
+
+  if (removed.length > 0) {
+    await activities.deleteByStravaIds(userId, removed.map(activity => activity.stravaId))
+  }
+
+  const reconciliation: ReconciliationResult = {
+    scope,
+    checked: storedRows.length,
+    removed,
+    removedDistance: removed.reduce((sum, activity) => sum + activity.distance, 0),
+    skipped
+  }
+
+  logger.info('Reconciliation completed', {
+    userId,
+    scope,
+    checked: reconciliation.checked,
+    removed: removed.length,
+    removedKm: Math.round(reconciliation.removedDistance / 1000 * 10) / 10,
+    skipped
+  }, 'reconcile', userId, requestId)
+
+  return reconciliation
+}
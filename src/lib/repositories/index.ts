@@ -0,0 +1,32 @@
+import { logger } from '@/lib/logger'
+import { supabase } from '@/lib/supabase'
+import { createSupabaseRepositories } from '@/lib/repositories/supabase'
+import { createInMemoryRepositories } from '@/lib/repositories/memory'
+import type { Repositories } from '@/lib/repositories/types'
+
+export type * from '@/lib/repositories/types'
+export { createSupabaseRepositories } from '@/lib/repositories/supabase'
+export { createInMemoryRepositories } from '@/lib/repositories/memory'
+
+let repositories: Repositories | null = null
+
+/**
+ * The data access layer for every table the app reads or writes. Backed by Supabase unless
+ * DATA_STORE=memory; tests can swap in their own with `setRepositories`.
+ */
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    const store = process.env.DATA_STORE === 'memory' ? 'memory' : 'supabase'
+    logger.info('Creating repositories', { store }, 'repository')
+
+    repositories = store === 'memory'
+      ? createInMemoryRepositories()
+      : createSupabaseRepositories(supabase)
+  }
+
+  return repositories
+}
+
+export function setRepositories(next: Repositories | null) {
+  repositories = next
+}
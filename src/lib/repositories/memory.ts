@@ -0,0 +1,471 @@
+import { randomUUID } from 'crypto'
+import { EXPECTED_SCHEMA_VERSION } from '@/lib/schema-version'
+import type {
+  ActivityAggregate,
+  ActivityInsert,
+  ActivityRange,
+  ActivityRepository,
+  ActivityRow,
+  ActivityStreamInsert,
+  ActivityStreamRepository,
+  ActivityStreamRow,
+  ActivityUpdate,
+  GoalInsert,
+  GoalRepository,
+  GoalRow,
+  GoalUpdate,
+  InsertMissingResult,
+  MigrationRepository,
+  Repositories,
+  StravaActivityInsert,
+  SyncJobInsert,
+  SyncJobRepository,
+  SyncJobRow,
+  SyncJobUpdate,
+  SyncRunInsert,
+  SyncRunRepository,
+  SyncRunRow,
+  SyncRunUpdate,
+  UpsertResult,
+  UserInsert,
+  UserRepository,
+  UserRow,
+  UserSettingsInsert,
+  UserSettingsRepository,
+  UserSettingsRow,
+  UserUpdate
+} from '@/lib/repositories/types'
+
+/**
+ * In-process stores with the same behaviour as the Supabase tables they stand in for
+ * (upsert by primary key / strava_id, timestamps, serial activity IDs). Used by tests
+ * and by `DATA_STORE=memory` for running the app without a Supabase project. Data
+ * lives only as long as the process.
+ */
+
+function inRange(activity: ActivityRow, range: ActivityRange): boolean {
+  if (range.source && activity.source !== range.source) return false
+  const time = new Date(activity.start_date).getTime()
+  if (range.after && time <= new Date(range.after).getTime()) return false
+  if (range.before && time >= new Date(range.before).getTime()) return false
+  return true
+}
+
+export class InMemoryUserRepository implements UserRepository {
+  private users = new Map<string, UserRow>()
+
+  async getById(id: string): Promise<UserRow | null> {
+    return this.users.get(id) ?? null
+  }
+
+  async getByStravaId(stravaId: string): Promise<UserRow | null> {
+    return [...this.users.values()].find(user => user.strava_id === stravaId) ?? null
+  }
+
+  async listIds(): Promise<string[]> {
+    return [...this.users.keys()]
+  }
+
+  async upsert(user: UserInsert): Promise<UserRow> {
+    const now = new Date().toISOString()
+    const existing = this.users.get(user.id)
+    const row: UserRow = {
+      last_synced_at: null,
+      created_at: now,
+      ...existing,
+      ...user,
+      updated_at: now
+    }
+    this.users.set(row.id, row)
+    return row
+  }
+
+  async update(id: string, update: UserUpdate): Promise<void> {
+    const existing = this.users.get(id)
+    if (!existing) return
+    this.users.set(id, { ...existing, ...update, updated_at: new Date().toISOString() })
+  }
+}
+
+export class InMemoryActivityRepository implements ActivityRepository {
+  // Keyed by the serial ID; strava_id stays unique across users like the table's constraint
+  private activities = new Map<number, ActivityRow>()
+  private nextId = 1
+
+  private findByStravaId(stravaId: string): ActivityRow | undefined {
+    return [...this.activities.values()].find(activity => activity.strava_id === stravaId)
+  }
+
+  private save(activity: ActivityInsert, existing?: ActivityRow): ActivityRow {
+    const now = new Date().toISOString()
+    const row: ActivityRow = {
+      strava_id: null,
+      source: 'strava',
+      track_hash: null,
+      elapsed_time: null,
+      sport_type: null,
+      description: null,
+      start_date_local: null,
+      timezone: null,
+      start_latlng: null,
+      end_latlng: null,
+      summary_polyline: null,
+      average_speed: null,
+      max_speed: null,
+      average_heartrate: null,
+      max_heartrate: null,
+      gear_id: null,
+      max_elevation: null,
+      min_elevation: null,
+      location_city: null,
+      location_country: null,
+      ...existing,
+      ...activity,
+      id: existing?.id ?? this.nextId++,
+      created_at: existing?.created_at ?? now,
+      updated_at: now
+    }
+    this.activities.set(row.id, row)
+    return row
+  }
+
+  async upsert(userId: string, activities: StravaActivityInsert[]): Promise<UpsertResult> {
+    let inserted = 0
+    let updated = 0
+
+    for (const activity of activities) {
+      const existing = this.findByStravaId(activity.strava_id)
+      if (existing) {
+        updated++
+      } else {
+        inserted++
+      }
+      this.save(activity, existing)
+    }
+
+    return { inserted, updated }
+  }
+
+  async insertMissing(userId: string, activities: StravaActivityInsert[]): Promise<InsertMissingResult> {
+    let inserted = 0
+    let skipped = 0
+
+    for (const activity of activities) {
+      if (this.findByStravaId(activity.strava_id)) {
+        skipped++
+      } else {
+        this.save(activity)
+        inserted++
+      }
+    }
+
+    return { inserted, skipped }
+  }
+
+  async findOwners(stravaIds: string[]): Promise<Map<string, string>> {
+    const owners = new Map<string, string>()
+    for (const stravaId of stravaIds) {
+      const row = this.findByStravaId(stravaId)
+      if (row) owners.set(stravaId, row.user_id)
+    }
+    return owners
+  }
+
+  async insert(activity: ActivityInsert): Promise<ActivityRow> {
+    if (activity.strava_id && this.findByStravaId(activity.strava_id)) {
+      throw new Error(`duplicate key value violates unique constraint "activities_strava_id_key"`)
+    }
+    return this.save(activity)
+  }
+
+  async getById(userId: string, id: number): Promise<ActivityRow | null> {
+    const activity = this.activities.get(id)
+    return activity?.user_id === userId ? activity : null
+  }
+
+  async update(userId: string, id: number, update: ActivityUpdate): Promise<ActivityRow | null> {
+    const existing = await this.getById(userId, id)
+    if (!existing) return null
+    return this.save({ ...existing, ...update }, existing)
+  }
+
+  async deleteById(userId: string, id: number): Promise<boolean> {
+    if (!(await this.getById(userId, id))) return false
+    return this.activities.delete(id)
+  }
+
+  async findDuplicate(userId: string, startDate: string, trackHash: string): Promise<ActivityRow | null> {
+    const startTime = new Date(startDate).getTime()
+    return [...this.activities.values()].find(activity =>
+      activity.user_id === userId &&
+      (activity.track_hash === trackHash || new Date(activity.start_date).getTime() === startTime)
+    ) ?? null
+  }
+
+  async listByUser(userId: string, range: ActivityRange = {}): Promise<ActivityRow[]> {
+    return [...this.activities.values()]
+      .filter(activity => activity.user_id === userId && inRange(activity, range))
+      .sort((a, b) => new Date(b.start_date).getTime() - new Date(a.start_date).getTime())
+  }
+
+  async aggregate(userId: string, range: ActivityRange = {}): Promise<ActivityAggregate> {
+    const rows = await this.listByUser(userId, range)
+
+    return {
+      count: rows.length,
+      totalDistance: rows.reduce((sum, row) => sum + row.distance, 0),
+      totalMovingTime: rows.reduce((sum, row) => sum + row.moving_time, 0),
+      totalElevationGain: rows.reduce((sum, row) => sum + row.elevation_gain, 0)
+    }
+  }
+
+  async deleteByStravaIds(userId: string, stravaIds: string[]): Promise<number> {
+    let deleted = 0
+    for (const stravaId of stravaIds) {
+      const existing = this.findByStravaId(stravaId)
+      if (existing?.user_id === userId) {
+        this.activities.delete(existing.id)
+        deleted++
+      }
+    }
+    return deleted
+  }
+}
+
+export class InMemoryActivityStreamRepository implements ActivityStreamRepository {
+  private streams = new Map<number, ActivityStreamRow>()
+
+  // Streams go with their activity, as ON DELETE CASCADE does in the database
+  constructor(private activities: ActivityRepository) {}
+
+  async get(userId: string, activityId: number): Promise<ActivityStreamRow | null> {
+    const row = this.streams.get(activityId)
+    if (!row || row.user_id !== userId || !(await this.activities.getById(userId, activityId))) {
+      return null
+    }
+    return row
+  }
+
+  async listByActivities(userId: string, activityIds: number[]): Promise<ActivityStreamRow[]> {
+    const rows = await Promise.all(activityIds.map(activityId => this.get(userId, activityId)))
+    return rows.filter((row): row is ActivityStreamRow => row !== null)
+  }
+
+  async save(streams: ActivityStreamInsert): Promise<void> {
+    this.streams.set(streams.activity_id, {
+      latlng: null,
+      altitude: null,
+      distance: null,
+      time: null,
+      heartrate: null,
+      fetched_at: new Date().toISOString(),
+      ...streams
+    })
+  }
+}
+
+export class InMemoryGoalRepository implements GoalRepository {
+  private goals = new Map<number, GoalRow>()
+  private nextId = 1
+
+  async listByUser(userId: string): Promise<GoalRow[]> {
+    return [...this.goals.values()]
+      .filter(goal => goal.user_id === userId)
+      .sort((a, b) => a.start_date.localeCompare(b.start_date) || a.id - b.id)
+  }
+
+  async getById(userId: string, id: number): Promise<GoalRow | null> {
+    const goal = this.goals.get(id)
+    return goal?.user_id === userId ? goal : null
+  }
+
+  async insert(goal: GoalInsert): Promise<GoalRow> {
+    const now = new Date().toISOString()
+    const row: GoalRow = {
+      metric: 'distance',
+      deadline: null,
+      hashtag: null,
+      ...goal,
+      id: this.nextId++,
+      created_at: now,
+      updated_at: now
+    }
+    this.goals.set(row.id, row)
+    return row
+  }
+
+  async update(userId: string, id: number, update: GoalUpdate): Promise<GoalRow | null> {
+    const existing = await this.getById(userId, id)
+    if (!existing) return null
+    const row = { ...existing, ...update, updated_at: new Date().toISOString() }
+    this.goals.set(id, row)
+    return row
+  }
+
+  async deleteById(userId: string, id: number): Promise<boolean> {
+    if (!(await this.getById(userId, id))) return false
+    return this.goals.delete(id)
+  }
+}
+
+export class InMemoryUserSettingsRepository implements UserSettingsRepository {
+  private settings = new Map<string, UserSettingsRow>()
+
+  async get(userId: string): Promise<UserSettingsRow | null> {
+    return this.settings.get(userId) ?? null
+  }
+
+  async save(settings: UserSettingsInsert): Promise<void> {
+    const now = new Date().toISOString()
+    const existing = this.settings.get(settings.user_id)
+    this.settings.set(settings.user_id, {
+      qualification_rules: null,
+      created_at: now,
+      ...existing,
+      ...settings,
+      updated_at: now
+    })
+  }
+}
+
+export class InMemorySyncRunRepository implements SyncRunRepository {
+  private runs = new Map<string, SyncRunRow>()
+
+  async insert(run: SyncRunInsert): Promise<SyncRunRow> {
+    const row: SyncRunRow = {
+      job_id: null,
+      distance_before: null,
+      ...run,
+      id: randomUUID(),
+      status: 'running',
+      activities_fetched: 0,
+      activities_qualified: 0,
+      activities_inserted: 0,
+      activities_updated: 0,
+      activities_removed: 0,
+      distance_after: null,
+      errors: [],
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      duration_ms: null
+    }
+    this.runs.set(row.id, row)
+    return row
+  }
+
+  async getByJobId(jobId: string): Promise<SyncRunRow | null> {
+    return [...this.runs.values()].find(run => run.job_id === jobId) ?? null
+  }
+
+  async update(id: string, update: SyncRunUpdate): Promise<void> {
+    const existing = this.runs.get(id)
+    if (!existing) return
+    this.runs.set(id, { ...existing, ...update })
+  }
+
+  async listByUser(userId: string, limit: number): Promise<SyncRunRow[]> {
+    return [...this.runs.values()]
+      .filter(run => run.user_id === userId)
+      .sort((a, b) => b.started_at.localeCompare(a.started_at))
+      .slice(0, limit)
+  }
+}
+
+export class InMemorySyncJobRepository implements SyncJobRepository {
+  private jobs = new Map<string, SyncJobRow>()
+
+  private isActive(job: SyncJobRow): boolean {
+    return job.status === 'pending' || job.status === 'running'
+  }
+
+  async getById(id: string): Promise<SyncJobRow | null> {
+    return this.jobs.get(id) ?? null
+  }
+
+  async findActive(userId: string): Promise<SyncJobRow | null> {
+    return [...this.jobs.values()]
+      .filter(job => job.user_id === userId && this.isActive(job))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0] ?? null
+  }
+
+  async insert(job: SyncJobInsert): Promise<SyncJobRow> {
+    const now = new Date().toISOString()
+    const row: SyncJobRow = {
+      after: null,
+      ...job,
+      id: randomUUID(),
+      status: 'pending',
+      next_page: 1,
+      pages_fetched: 0,
+      activities_fetched: 0,
+      activities_qualified: 0,
+      activities_upserted: 0,
+      activities_inserted: 0,
+      activities_updated: 0,
+      activities_removed: 0,
+      cursor_ids: [],
+      cursor_kept_ids: [],
+      latest_start: null,
+      earliest_start: null,
+      earliest_failed_start: null,
+      attempts: 0,
+      error: null,
+      errors: [],
+      run_after: now,
+      locked_until: null,
+      started_at: null,
+      finished_at: null,
+      created_at: now,
+      updated_at: now
+    }
+    this.jobs.set(row.id, row)
+    return row
+  }
+
+  async update(id: string, update: SyncJobUpdate): Promise<SyncJobRow> {
+    const existing = this.jobs.get(id)
+    if (!existing) {
+      throw new Error(`Sync job ${id} not found`)
+    }
+    const row = { ...existing, ...update, updated_at: new Date().toISOString() }
+    this.jobs.set(id, row)
+    return row
+  }
+
+  async acquireLease(id: string, update: SyncJobUpdate, now: string): Promise<SyncJobRow | null> {
+    const existing = this.jobs.get(id)
+    if (!existing || !this.isActive(existing)) return null
+    if (existing.locked_until && new Date(existing.locked_until).getTime() >= new Date(now).getTime()) return null
+    return this.update(id, update)
+  }
+
+  async listDue(now: string, limit: number): Promise<SyncJobRow[]> {
+    const time = new Date(now).getTime()
+    return [...this.jobs.values()]
+      .filter(job => this.isActive(job) && new Date(job.run_after).getTime() <= time)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .slice(0, limit)
+  }
+}
+
+// There are no migrations to run in memory, so the store always matches the code
+export class InMemoryMigrationRepository implements MigrationRepository {
+  async currentVersion(): Promise<number> {
+    return EXPECTED_SCHEMA_VERSION
+  }
+}
+
+export function createInMemoryRepositories(): Repositories {
+  const activities = new InMemoryActivityRepository()
+
+  return {
+    users: new InMemoryUserRepository(),
+    activities,
+    streams: new InMemoryActivityStreamRepository(activities),
+    goals: new InMemoryGoalRepository(),
+    settings: new InMemoryUserSettingsRepository(),
+    syncRuns: new InMemorySyncRunRepository(),
+    syncJobs: new InMemorySyncJobRepository(),
+    migrations: new InMemoryMigrationRepository()
+  }
+}
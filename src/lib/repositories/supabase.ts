@@ -0,0 +1,540 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js'
+import { logger, type LogContext } from '@/lib/logger'
+import type {
+  ActivityAggregate,
+  ActivityInsert,
+  ActivityRange,
+  ActivityRepository,
+  ActivityRow,
+  ActivityStreamInsert,
+  ActivityStreamRepository,
+  ActivityStreamRow,
+  ActivityUpdate,
+  GoalInsert,
+  GoalRepository,
+  GoalRow,
+  GoalUpdate,
+  InsertMissingResult,
+  MigrationRepository,
+  Repositories,
+  StravaActivityInsert,
+  SyncJobInsert,
+  SyncJobRepository,
+  SyncJobRow,
+  SyncJobUpdate,
+  SyncRunInsert,
+  SyncRunRepository,
+  SyncRunRow,
+  SyncRunUpdate,
+  UpsertResult,
+  UserInsert,
+  UserRepository,
+  UserRow,
+  UserSettingsInsert,
+  UserSettingsRepository,
+  UserSettingsRow,
+  UserUpdate
+} from '@/lib/repositories/types'
+
+// Rows per request for calls keyed by a list of IDs, which go into the URL
+const STRAVA_ID_CHUNK_SIZE = 200
+
+function chunks<T>(items: T[]): T[][] {
+  const result: T[][] = []
+  for (let start = 0; start < items.length; start += STRAVA_ID_CHUNK_SIZE) {
+    result.push(items.slice(start, start + STRAVA_ID_CHUNK_SIZE))
+  }
+  return result
+}
+
+interface QueryResult<T> {
+  data: T
+  error: PostgrestError | null
+  count?: number | null
+}
+
+/**
+ * Run one query with the timing and error logging every call used to repeat. Errors
+ * are logged with their Supabase code and rethrown.
+ */
+async function execute<T>(
+  operation: string,
+  context: LogContext,
+  query: PromiseLike<QueryResult<T>>
+): Promise<{ data: T, count: number | null }> {
+  const timer = logger.time(`supabase-${operation}`, 'repository')
+
+  const { data, error, count } = await query
+  timer.end()
+
+  if (error) {
+    logger.error(`Supabase ${operation} failed`, error, {
+      ...context,
+      errorCode: error.code,
+      errorMessage: error.message,
+      errorDetails: error.details
+    }, 'repository', typeof context.userId === 'string' ? context.userId : undefined)
+    throw error
+  }
+
+  return { data, count: count ?? null }
+}
+
+export class SupabaseUserRepository implements UserRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async getById(id: string): Promise<UserRow | null> {
+    const { data } = await execute('get-user', { userId: id }, this.client
+      .from('users')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle())
+    return data
+  }
+
+  async getByStravaId(stravaId: string): Promise<UserRow | null> {
+    const { data } = await execute('get-user-by-strava-id', { stravaId }, this.client
+      .from('users')
+      .select('*')
+      .eq('strava_id', stravaId)
+      .maybeSingle())
+    return data
+  }
+
+  async listIds(): Promise<string[]> {
+    const { data } = await execute('list-user-ids', {}, this.client
+      .from('users')
+      .select('id'))
+    return (data || []).map((user: { id: string }) => user.id)
+  }
+
+  async upsert(user: UserInsert): Promise<UserRow> {
+    const { data } = await execute('upsert-user', { userId: user.id }, this.client
+      .from('users')
+      .upsert(user)
+      .select()
+      .single())
+    return data
+  }
+
+  async update(id: string, update: UserUpdate): Promise<void> {
+    await execute('update-user', { userId: id, fields: Object.keys(update) }, this.client
+      .from('users')
+      .update(update)
+      .eq('id', id))
+  }
+}
+
+export class SupabaseActivityRepository implements ActivityRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async upsert(userId: string, activities: StravaActivityInsert[]): Promise<UpsertResult> {
+    const result: UpsertResult = { inserted: 0, updated: 0 }
+
+    for (const chunk of chunks(activities)) {
+      const { data: existing } = await execute('find-existing-activities', { userId }, this.client
+        .from('activities')
+        .select('strava_id')
+        .in('strava_id', chunk.map(activity => activity.strava_id)))
+
+      await execute('upsert-activities', { userId, activitiesCount: chunk.length }, this.client
+        .from('activities')
+        .upsert(chunk, {
+          onConflict: 'strava_id',
+          ignoreDuplicates: false,
+        }))
+
+      const updated = existing?.length || 0
+      result.inserted += chunk.length - updated
+      result.updated += updated
+    }
+
+    return result
+  }
+
+  async insertMissing(userId: string, activities: StravaActivityInsert[]): Promise<InsertMissingResult> {
+    const result: InsertMissingResult = { inserted: 0, skipped: 0 }
+
+    for (const chunk of chunks(activities)) {
+      const { data: existing } = await execute('find-existing-activities', { userId }, this.client
+        .from('activities')
+        .select('strava_id')
+        .in('strava_id', chunk.map(activity => activity.strava_id)))
+
+      const stored = new Set((existing || []).map((row: { strava_id: string }) => row.strava_id))
+      const missing = chunk.filter(activity => !stored.has(activity.strava_id))
+
+      // ignoreDuplicates also leaves alone rows a concurrent sync stored since the lookup
+      if (missing.length > 0) {
+        await execute('insert-missing-activities', { userId, activitiesCount: missing.length }, this.client
+          .from('activities')
+          .upsert(missing, {
+            onConflict: 'strava_id',
+            ignoreDuplicates: true,
+          }))
+      }
+
+      result.inserted += missing.length
+      result.skipped += chunk.length - missing.length
+    }
+
+    return result
+  }
+
+  async findOwners(stravaIds: string[]): Promise<Map<string, string>> {
+    const owners = new Map<string, string>()
+
+    for (const chunk of chunks(stravaIds)) {
+      const { data } = await execute('find-activity-owners', { stravaIdsCount: chunk.length }, this.client
+        .from('activities')
+        .select('strava_id, user_id')
+        .in('strava_id', chunk))
+
+      for (const row of (data || []) as { strava_id: string, user_id: string }[]) {
+        owners.set(row.strava_id, row.user_id)
+      }
+    }
+
+    return owners
+  }
+
+  async insert(activity: ActivityInsert): Promise<ActivityRow> {
+    const { data } = await execute('insert-activity', { userId: activity.user_id, source: activity.source }, this.client
+      .from('activities')
+      .insert(activity)
+      .select()
+      .single())
+    return data
+  }
+
+  async getById(userId: string, id: number): Promise<ActivityRow | null> {
+    const { data } = await execute('get-activity', { userId, activityId: id }, this.client
+      .from('activities')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('id', id)
+      .maybeSingle())
+    return data
+  }
+
+  async update(userId: string, id: number, update: ActivityUpdate): Promise<ActivityRow | null> {
+    const { data } = await execute('update-activity', { userId, activityId: id }, this.client
+      .from('activities')
+      .update(update)
+      .eq('user_id', userId)
+      .eq('id', id)
+      .select()
+      .maybeSingle())
+    return data
+  }
+
+  async deleteById(userId: string, id: number): Promise<boolean> {
+    const { count } = await execute('delete-activity', { userId, activityId: id }, this.client
+      .from('activities')
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+      .eq('id', id))
+    return (count ?? 0) > 0
+  }
+
+  async findDuplicate(userId: string, startDate: string, trackHash: string): Promise<ActivityRow | null> {
+    const { data } = await execute('find-duplicate-activity', { userId, startDate }, this.client
+      .from('activities')
+      .select('*')
+      .eq('user_id', userId)
+      .or(`track_hash.eq.${trackHash},start_date.eq."${startDate}"`)
+      .limit(1)
+      .maybeSingle())
+    return data
+  }
+
+  async listByUser(userId: string, range: ActivityRange = {}): Promise<ActivityRow[]> {
+    let query = this.client
+      .from('activities')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (range.after) query = query.gt('start_date', range.after)
+    if (range.before) query = query.lt('start_date', range.before)
+    if (range.source) query = query.eq('source', range.source)
+
+    const { data } = await execute('list-activities', { userId, ...range }, query
+      .order('start_date', { ascending: false }))
+    return data || []
+  }
+
+  async aggregate(userId: string, range: ActivityRange = {}): Promise<ActivityAggregate> {
+    // PostgREST aggregates are off by default on Supabase, so sum the few columns here
+    let query = this.client
+      .from('activities')
+      .select('distance, moving_time, elevation_gain')
+      .eq('user_id', userId)
+
+    if (range.after) query = query.gt('start_date', range.after)
+    if (range.before) query = query.lt('start_date', range.before)
+    if (range.source) query = query.eq('source', range.source)
+
+    const { data } = await execute('aggregate-activities', { userId, ...range }, query)
+    const rows: Pick<ActivityRow, 'distance' | 'moving_time' | 'elevation_gain'>[] = data || []
+
+    return {
+      count: rows.length,
+      totalDistance: rows.reduce((sum, row) => sum + row.distance, 0),
+      totalMovingTime: rows.reduce((sum, row) => sum + row.moving_time, 0),
+      totalElevationGain: rows.reduce((sum, row) => sum + row.elevation_gain, 0)
+    }
+  }
+
+  async deleteByStravaIds(userId: string, stravaIds: string[]): Promise<number> {
+    let deleted = 0
+
+    for (const chunk of chunks(stravaIds)) {
+      const { count } = await execute('delete-activities', { userId, activitiesCount: chunk.length }, this.client
+        .from('activities')
+        .delete({ count: 'exact' })
+        .eq('user_id', userId)
+        .in('strava_id', chunk))
+      deleted += count ?? 0
+    }
+
+    return deleted
+  }
+}
+
+export class SupabaseActivityStreamRepository implements ActivityStreamRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async get(userId: string, activityId: number): Promise<ActivityStreamRow | null> {
+    const { data } = await execute('get-activity-streams', { userId, activityId }, this.client
+      .from('activity_streams')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('activity_id', activityId)
+      .maybeSingle())
+    return data
+  }
+
+  async listByActivities(userId: string, activityIds: number[]): Promise<ActivityStreamRow[]> {
+    const rows: ActivityStreamRow[] = []
+
+    for (const chunk of chunks(activityIds)) {
+      const { data } = await execute('list-activity-streams', { userId, activityIdsCount: chunk.length }, this.client
+        .from('activity_streams')
+        .select('*')
+        .eq('user_id', userId)
+        .in('activity_id', chunk))
+      rows.push(...(data || []))
+    }
+
+    return rows
+  }
+
+  async save(streams: ActivityStreamInsert): Promise<void> {
+    await execute('save-activity-streams', { userId: streams.user_id, activityId: streams.activity_id, points: streams.point_count }, this.client
+      .from('activity_streams')
+      .upsert(streams, { onConflict: 'activity_id' }))
+  }
+}
+
+export class SupabaseGoalRepository implements GoalRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async listByUser(userId: string): Promise<GoalRow[]> {
+    const { data } = await execute('list-goals', { userId }, this.client
+      .from('goals')
+      .select('*')
+      .eq('user_id', userId)
+      .order('start_date', { ascending: true })
+      .order('id', { ascending: true }))
+    return data || []
+  }
+
+  async getById(userId: string, id: number): Promise<GoalRow | null> {
+    const { data } = await execute('get-goal', { userId, goalId: id }, this.client
+      .from('goals')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('id', id)
+      .maybeSingle())
+    return data
+  }
+
+  async insert(goal: GoalInsert): Promise<GoalRow> {
+    const { data } = await execute('insert-goal', { userId: goal.user_id }, this.client
+      .from('goals')
+      .insert(goal)
+      .select()
+      .single())
+    return data
+  }
+
+  async update(userId: string, id: number, update: GoalUpdate): Promise<GoalRow | null> {
+    const { data } = await execute('update-goal', { userId, goalId: id }, this.client
+      .from('goals')
+      .update(update)
+      .eq('user_id', userId)
+      .eq('id', id)
+      .select()
+      .maybeSingle())
+    return data
+  }
+
+  async deleteById(userId: string, id: number): Promise<boolean> {
+    const { count } = await execute('delete-goal', { userId, goalId: id }, this.client
+      .from('goals')
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+      .eq('id', id))
+    return (count ?? 0) > 0
+  }
+}
+
+export class SupabaseUserSettingsRepository implements UserSettingsRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async get(userId: string): Promise<UserSettingsRow | null> {
+    const { data } = await execute('get-user-settings', { userId }, this.client
+      .from('user_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle())
+    return data
+  }
+
+  async save(settings: UserSettingsInsert): Promise<void> {
+    await execute('save-user-settings', { userId: settings.user_id }, this.client
+      .from('user_settings')
+      .upsert(settings, { onConflict: 'user_id' }))
+  }
+}
+
+export class SupabaseSyncRunRepository implements SyncRunRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async insert(run: SyncRunInsert): Promise<SyncRunRow> {
+    const { data } = await execute('insert-sync-run', { userId: run.user_id, trigger: run.trigger }, this.client
+      .from('sync_runs')
+      .insert(run)
+      .select()
+      .single())
+    return data
+  }
+
+  async getByJobId(jobId: string): Promise<SyncRunRow | null> {
+    const { data } = await execute('get-sync-run-for-job', { jobId }, this.client
+      .from('sync_runs')
+      .select('*')
+      .eq('job_id', jobId)
+      .maybeSingle())
+    return data
+  }
+
+  async update(id: string, update: SyncRunUpdate): Promise<void> {
+    await execute('update-sync-run', { runId: id, status: update.status }, this.client
+      .from('sync_runs')
+      .update(update)
+      .eq('id', id))
+  }
+
+  async listByUser(userId: string, limit: number): Promise<SyncRunRow[]> {
+    const { data } = await execute('list-sync-runs', { userId, limit }, this.client
+      .from('sync_runs')
+      .select('*')
+      .eq('user_id', userId)
+      .order('started_at', { ascending: false })
+      .limit(limit))
+    return data || []
+  }
+}
+
+export class SupabaseSyncJobRepository implements SyncJobRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async getById(id: string): Promise<SyncJobRow | null> {
+    const { data } = await execute('get-sync-job', { jobId: id }, this.client
+      .from('sync_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle())
+    return data
+  }
+
+  async findActive(userId: string): Promise<SyncJobRow | null> {
+    const { data } = await execute('find-active-sync-job', { userId }, this.client
+      .from('sync_jobs')
+      .select('*')
+      .eq('user_id', userId)
+      .in('status', ['pending', 'running'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle())
+    return data
+  }
+
+  async insert(job: SyncJobInsert): Promise<SyncJobRow> {
+    const { data } = await execute('insert-sync-job', { userId: job.user_id, mode: job.mode }, this.client
+      .from('sync_jobs')
+      .insert(job)
+      .select()
+      .single())
+    return data
+  }
+
+  async update(id: string, update: SyncJobUpdate): Promise<SyncJobRow> {
+    const { data } = await execute('update-sync-job', { jobId: id, status: update.status }, this.client
+      .from('sync_jobs')
+      .update(update)
+      .eq('id', id)
+      .select()
+      .single())
+    return data
+  }
+
+  async acquireLease(id: string, update: SyncJobUpdate, now: string): Promise<SyncJobRow | null> {
+    const { data } = await execute('acquire-sync-job-lease', { jobId: id }, this.client
+      .from('sync_jobs')
+      .update(update)
+      .eq('id', id)
+      .in('status', ['pending', 'running'])
+      .or(`locked_until.is.null,locked_until.lt."${now}"`)
+      .select())
+    return data && data.length > 0 ? data[0] : null
+  }
+
+  async listDue(now: string, limit: number): Promise<SyncJobRow[]> {
+    const { data } = await execute('list-due-sync-jobs', { limit }, this.client
+      .from('sync_jobs')
+      .select('*')
+      .in('status', ['pending', 'running'])
+      .lte('run_after', now)
+      .order('created_at', { ascending: true })
+      .limit(limit))
+    return data || []
+  }
+}
+
+export class SupabaseMigrationRepository implements MigrationRepository {
+  constructor(private client: SupabaseClient) {}
+
+  async currentVersion(): Promise<number> {
+    const { data } = await execute('get-schema-version', {}, this.client
+      .from('schema_migrations')
+      .select('version')
+      .order('version', { ascending: false })
+      .limit(1))
+    return data && data.length > 0 ? data[0].version : 0
+  }
+}
+
+export function createSupabaseRepositories(client: SupabaseClient): Repositories {
+  return {
+    users: new SupabaseUserRepository(client),
+    activities: new SupabaseActivityRepository(client),
+    streams: new SupabaseActivityStreamRepository(client),
+    goals: new SupabaseGoalRepository(client),
+    settings: new SupabaseUserSettingsRepository(client),
+    syncRuns: new SupabaseSyncRunRepository(client),
+    syncJobs: new SupabaseSyncJobRepository(client),
+    migrations: new SupabaseMigrationRepository(client)
+  }
+}
@@ -0,0 +1,156 @@
+import type { Database } from '@/lib/supabase'
+
+export type UserRow = Database['public']['Tables']['users']['Row']
+export type UserInsert = Database['public']['Tables']['users']['Insert']
+export type UserUpdate = Database['public']['Tables']['users']['Update']
+
+export type ActivityRow = Database['public']['Tables']['activities']['Row']
+export type ActivityInsert = Database['public']['Tables']['activities']['Insert']
+export type ActivityUpdate = Database['public']['Tables']['activities']['Update']
+export type ActivitySource = ActivityRow['source']
+// Rows from Strava are keyed by their Strava ID
+export type StravaActivityInsert = ActivityInsert & { strava_id: string }
+
+export type ActivityStreamRow = Database['public']['Tables']['activity_streams']['Row']
+export type ActivityStreamInsert = Database['public']['Tables']['activity_streams']['Insert']
+
+export type GoalRow = Database['public']['Tables']['goals']['Row']
+export type GoalInsert = Database['public']['Tables']['goals']['Insert']
+export type GoalUpdate = Database['public']['Tables']['goals']['Update']
+export type GoalMetric = GoalRow['metric']
+
+export type UserSettingsRow = Database['public']['Tables']['user_settings']['Row']
+export type UserSettingsInsert = Database['public']['Tables']['user_settings']['Insert']
+
+export type SyncRunRow = Database['public']['Tables']['sync_runs']['Row']
+export type SyncRunInsert = Database['public']['Tables']['sync_runs']['Insert']
+export type SyncRunUpdate = Database['public']['Tables']['sync_runs']['Update']
+
+export type SyncJobRow = Database['public']['Tables']['sync_jobs']['Row']
+export type SyncJobInsert = Database['public']['Tables']['sync_jobs']['Insert']
+export type SyncJobUpdate = Database['public']['Tables']['sync_jobs']['Update']
+
+// Bounds on start_date (ISO strings), both exclusive; omit either for an open range
+export interface ActivityRange {
+  after?: string
+  before?: string
+  // Only rows from this source; all sources when omitted
+  source?: ActivitySource
+}
+
+export interface ActivityAggregate {
+  count: number
+  totalDistance: number
+  totalMovingTime: number
+  totalElevationGain: number
+}
+
+export interface UpsertResult {
+  inserted: number
+  updated: number
+}
+
+export interface InsertMissingResult {
+  inserted: number
+  // Rows whose Strava ID was already stored, left as they were
+  skipped: number
+}
+
+export interface UserRepository {
+  getById(id: string): Promise<UserRow | null>
+  getByStravaId(stravaId: string): Promise<UserRow | null>
+  listIds(): Promise<string[]>
+  upsert(user: UserInsert): Promise<UserRow>
+  update(id: string, update: UserUpdate): Promise<void>
+}
+
+export interface ActivityRepository {
+  // Insert or update by strava_id, reporting how many rows were new. Takes any number of
+  // rows; the Supabase implementation batches them to keep request URLs short
+  upsert(userId: string, activities: StravaActivityInsert[]): Promise<UpsertResult>
+  // Insert only rows whose strava_id isn't stored yet, for sources that know less about an
+  // activity than the API rows they would otherwise overwrite
+  insertMissing(userId: string, activities: StravaActivityInsert[]): Promise<InsertMissingResult>
+  // The user_id each of these Strava IDs is stored under; IDs not stored are left out
+  findOwners(stravaIds: string[]): Promise<Map<string, string>>
+  // Insert one row that has no Strava ID to key on, e.g. an uploaded file
+  insert(activity: ActivityInsert): Promise<ActivityRow>
+  // The user's activity with this ID; null if it doesn't exist or belongs to someone else
+  getById(userId: string, id: number): Promise<ActivityRow | null>
+  // Returns the updated row, or null if the user has no activity with this ID
+  update(userId: string, id: number, update: ActivityUpdate): Promise<ActivityRow | null>
+  // Returns whether a row was deleted
+  deleteById(userId: string, id: number): Promise<boolean>
+  // A stored activity that starts at the same moment or has the same track hash
+  findDuplicate(userId: string, startDate: string, trackHash: string): Promise<ActivityRow | null>
+  // Newest first
+  listByUser(userId: string, range?: ActivityRange): Promise<ActivityRow[]>
+  aggregate(userId: string, range?: ActivityRange): Promise<ActivityAggregate>
+  // Returns the number of rows deleted
+  deleteByStravaIds(userId: string, stravaIds: string[]): Promise<number>
+}
+
+export interface ActivityStreamRepository {
+  // Null until the streams have been fetched, or if the activity belongs to someone else
+  get(userId: string, activityId: number): Promise<ActivityStreamRow | null>
+  // The user's stored streams for any of these activities; never fetches missing ones
+  listByActivities(userId: string, activityIds: number[]): Promise<ActivityStreamRow[]>
+  // Insert or replace by activity_id
+  save(streams: ActivityStreamInsert): Promise<void>
+}
+
+export interface GoalRepository {
+  // Oldest start date first
+  listByUser(userId: string): Promise<GoalRow[]>
+  // The user's goal with this ID; null if it doesn't exist or belongs to someone else
+  getById(userId: string, id: number): Promise<GoalRow | null>
+  insert(goal: GoalInsert): Promise<GoalRow>
+  // Returns the updated row, or null if the user has no goal with this ID
+  update(userId: string, id: number, update: GoalUpdate): Promise<GoalRow | null>
+  // Returns whether a row was deleted
+  deleteById(userId: string, id: number): Promise<boolean>
+}
+
+export interface UserSettingsRepository {
+  // Null for users who have never saved settings
+  get(userId: string): Promise<UserSettingsRow | null>
+  // Insert or replace by user_id
+  save(settings: UserSettingsInsert): Promise<void>
+}
+
+export interface SyncRunRepository {
+  insert(run: SyncRunInsert): Promise<SyncRunRow>
+  getByJobId(jobId: string): Promise<SyncRunRow | null>
+  update(id: string, update: SyncRunUpdate): Promise<void>
+  // Newest first
+  listByUser(userId: string, limit: number): Promise<SyncRunRow[]>
+}
+
+export interface SyncJobRepository {
+  getById(id: string): Promise<SyncJobRow | null>
+  // The user's newest pending or running job
+  findActive(userId: string): Promise<SyncJobRow | null>
+  insert(job: SyncJobInsert): Promise<SyncJobRow>
+  update(id: string, update: SyncJobUpdate): Promise<SyncJobRow>
+  // Applies the update only if the job is still pending or running and no unexpired lease
+  // (locked_until after `now`) is held; null when another worker holds it
+  acquireLease(id: string, update: SyncJobUpdate, now: string): Promise<SyncJobRow | null>
+  // Pending or running jobs whose run_after has passed, oldest first
+  listDue(now: string, limit: number): Promise<SyncJobRow[]>
+}
+
+export interface MigrationRepository {
+  // The newest applied migration, 0 when none are
+  currentVersion(): Promise<number>
+}
+
+export interface Repositories {
+  users: UserRepository
+  activities: ActivityRepository
+  streams: ActivityStreamRepository
+  goals: GoalRepository
+  settings: UserSettingsRepository
+  syncRuns: SyncRunRepository
+  syncJobs: SyncJobRepository
+  migrations: MigrationRepository
+}
@@ -0,0 +1,62 @@
+import { logger } from '@/lib/logger'
+import { getRepositories } from '@/lib/repositories'
+import { EXPECTED_SCHEMA_VERSION } from '@/lib/schema-version'
+import { describeSyncError } from '@/lib/sync-runs'
+
+export interface SchemaStatus {
+  expectedVersion: number
+  // null when schema_migrations is missing or unreadable
+  currentVersion: number | null
+  upToDate: boolean
+  error?: string
+}
+
+/**
+ * Compare the newest applied migration with what the code expects. Never throws: a
+ * database that can't be checked is reported as not up to date.
+ */
+export async function getSchemaStatus(): Promise<SchemaStatus> {
+  let currentVersion: number
+  try {
+    currentVersion = await getRepositories().migrations.currentVersion()
+  } catch (error) {
+    return {
+      expectedVersion: EXPECTED_SCHEMA_VERSION,
+      currentVersion: null,
+      upToDate: false,
+      error: describeSyncError(error)
+    }
+  }
+
+  return {
+    expectedVersion: EXPECTED_SCHEMA_VERSION,
+    currentVersion,
+    upToDate: currentVersion >= EXPECTED_SCHEMA_VERSION
+  }
+}
+
+/**
+ * Startup check, run once per server process from instrumentation.ts. Only warns: the
+ * app may still mostly work, and the log line says exactly what to run.
+ */
+export async function checkSchemaVersion(): Promise<void> {
+  try {
+    const status = await getSchemaStatus()
+
+    if (status.upToDate) {
+      logger.info('Database schema is up to date', {
+        version: status.currentVersion
+      }, 'schema-check')
+      return
+    }
+
+    logger.warn('Database schema is behind the application', {
+      expectedVersion: status.expectedVersion,
+      currentVersion: status.currentVersion,
+      error: status.error,
+      fix: 'Run `DATABASE_URL=postgres://... npm run migrate` to apply pending migrations'
+    }, 'schema-check')
+  } catch (error) {
+    logger.error('Database schema check failed', error, undefined, 'schema-check')
+  }
+}
@@ -0,0 +1,4 @@
+// Version of the newest file in migrations/ that the Database type in supabase.ts
+// matches. Bump it together with the type whenever a migration is added; the migration
+// runner refuses to run if the two disagree.
+export const EXPECTED_SCHEMA_VERSION = 15
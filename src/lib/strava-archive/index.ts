@@ -0,0 +1,316 @@
+import { gunzipSync } from 'zlib'
+import { logger } from '@/lib/logger'
+import { stravaAPI, toActivityInsert, type StravaActivity } from '@/lib/strava'
+import { getSyncQualificationRules } from '@/lib/user-settings'
+import { getRepositories } from '@/lib/repositories'
+import { summarizeQualification, type QualificationSummary } from '@/lib/qualification'
+import { reconcileActivities, type ReconciliationResult } from '@/lib/reconcile'
+import { startSyncRun, finishSyncRun, describeSyncError } from '@/lib/sync-runs'
+import { parseActivityFile } from '@/lib/activity-files'
+import { parseCsv } from '@/lib/strava-archive/csv'
+import { ZipArchive, ZipError } from '@/lib/strava-archive/zip'
+
+/**
+ * Backfill from the "Download your data" archive Strava emails to athletes, instead of
+ * paging through years of history against the API rate limit. The archive's
+ * activities.csv carries the fields the activity detail endpoint would (descriptions
+ * included), and its per-activity GPX/FIT files supply the start/end points and route.
+ * Activities go through the same rules, reconciliation and watermark as an API sync, so
+ * a later sync picks up exactly where the archive ends. Unlike a sync, only activities
+ * not stored yet are written: archive rows have no local time, timezone or gear ID, and
+ * would otherwise overwrite what an API sync stored.
+ */
+
+export { ZipError } from '@/lib/strava-archive/zip'
+
+// A gzipped GPX, FIT or TCX file never gets near this; anything bigger is a bomb
+const MAX_ACTIVITY_FILE_BYTES = 64 * 1024 * 1024
+
+export class ArchiveImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ArchiveImportError'
+  }
+}
+
+interface ArchiveActivity {
+  activity: StravaActivity
+  // Path of the recorded file inside the archive, e.g. activities/123.gpx.gz
+  filename: string | null
+}
+
+export interface StravaArchive {
+  activities: ArchiveActivity[]
+  // Null for a bare activities.csv, which has no activity files
+  zip: ZipArchive | null
+  // Directory holding activities.csv, which the CSV's Filename column is relative to
+  root: string
+}
+
+export interface ArchiveImportResult {
+  fetched: number
+  qualified: number
+  inserted: number
+  // Qualifying activities already stored, e.g. by an API sync, and left as they were
+  skipped: number
+  // Qualifying activities stored without a route because their file was missing or unreadable
+  withoutTrack: number
+  qualification: QualificationSummary
+  reconciliation: ReconciliationResult
+  lastSyncedAt: string | null
+  warnings: string[]
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
+}
+
+/**
+ * Activity Date is UTC, written like "Mar 8, 2025, 3:12:04 PM". Anything else falls
+ * back to Date.parse, read as UTC.
+ */
+function parseActivityDate(value: string): string | null {
+  const match = /^([A-Za-z]{3})\w* (\d{1,2}), (\d{4}),? (\d{1,2}):(\d{2}):(\d{2})\s*([AP]M)$/i.exec(value.trim())
+  if (match) {
+    const [, month, day, year, hours, minutes, seconds, meridiem] = match
+    const monthIndex = MONTHS[month.toLowerCase()]
+    if (monthIndex === undefined) return null
+    const hour = Number(hours) % 12 + (meridiem.toUpperCase() === 'PM' ? 12 : 0)
+    return new Date(Date.UTC(Number(year), monthIndex, Number(day), hour, Number(minutes), Number(seconds))).toISOString()
+  }
+
+  const parsed = Date.parse(/[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value} UTC`)
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString()
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const number = Number(value.replace(/,/g, ''))
+  return Number.isFinite(number) ? number : undefined
+}
+
+/**
+ * The CSV repeats some headers: the first "Distance" is in the athlete's display
+ * units and the later one in meters, so the last occurrence of a header wins.
+ */
+function parseActivitiesCsv(text: string): ArchiveActivity[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  if (!header) {
+    throw new ArchiveImportError('activities.csv is empty')
+  }
+
+  const columns = new Map<string, number>()
+  header.forEach((name, index) => columns.set(name.trim(), index))
+
+  for (const required of ['Activity ID', 'Activity Date', 'Activity Type', 'Distance']) {
+    if (!columns.has(required)) {
+      throw new ArchiveImportError(`activities.csv has no "${required}" column; is this a Strava export?`)
+    }
+  }
+
+  const activities: ArchiveActivity[] = []
+
+  for (const row of rows) {
+    const cell = (name: string) => {
+      const index = columns.get(name)
+      return index === undefined ? undefined : row[index]?.trim() || undefined
+    }
+
+    const id = toNumber(cell('Activity ID'))
+    const startDate = parseActivityDate(cell('Activity Date') || '')
+    if (!id || !startDate) {
+      logger.warn('Skipping unreadable archive row', { activityId: cell('Activity ID'), date: cell('Activity Date') }, 'strava-archive')
+      continue
+    }
+
+    // Display names ("Trail Run", "E-Bike Ride") map onto the API's sport types
+    const type = (cell('Activity Type') || 'Workout').replace(/[\s-]/g, '')
+    const averageHeartrate = toNumber(cell('Average Heart Rate'))
+    const elapsedTime = toNumber(cell('Elapsed Time')) ?? 0
+
+    activities.push({
+      activity: {
+        id,
+        name: cell('Activity Name') || `${type} ${startDate.slice(0, 10)}`,
+        type,
+        sport_type: type,
+        description: cell('Activity Description'),
+        distance: toNumber(cell('Distance')) ?? 0,
+        moving_time: toNumber(cell('Moving Time')) ?? elapsedTime,
+        elapsed_time: elapsedTime,
+        total_elevation_gain: toNumber(cell('Elevation Gain')) ?? 0,
+        start_date: startDate,
+        // The archive only has UTC times, and gear by name rather than ID
+        start_date_local: '',
+        gear_id: null,
+        average_speed: toNumber(cell('Average Speed')),
+        max_speed: toNumber(cell('Max Speed')),
+        has_heartrate: averageHeartrate !== undefined,
+        average_heartrate: averageHeartrate,
+        max_heartrate: toNumber(cell('Max Heart Rate')),
+        elev_high: toNumber(cell('Elevation High')),
+        elev_low: toNumber(cell('Elevation Low'))
+      },
+      filename: cell('Filename') || null
+    })
+  }
+
+  return activities
+}
+
+/**
+ * Accepts the archive zip as downloaded, or just its activities.csv for people whose
+ * archive is too large to upload (activities are then stored without routes).
+ */
+export function readStravaArchive(filename: string, content: Buffer): StravaArchive {
+  const isZip = content.length >= 4 && content.readUInt32LE(0) === 0x04034b50
+
+  if (!isZip) {
+    if (!filename.toLowerCase().endsWith('.csv')) {
+      throw new ArchiveImportError('Upload the Strava export .zip or its activities.csv')
+    }
+    return { activities: parseActivitiesCsv(content.toString('utf8')), zip: null, root: '' }
+  }
+
+  const zip = new ZipArchive(content)
+  // Some unzip-and-rezip round trips nest everything in a folder
+  const csvName = zip.names()
+    .filter(name => name === 'activities.csv' || name.endsWith('/activities.csv'))
+    .sort((a, b) => a.length - b.length)[0]
+
+  if (!csvName) {
+    throw new ArchiveImportError('The zip has no activities.csv; is this a Strava export?')
+  }
+
+  return {
+    activities: parseActivitiesCsv(zip.read(csvName)!.toString('utf8')),
+    zip,
+    root: csvName.slice(0, -'activities.csv'.length)
+  }
+}
+
+/**
+ * Fill in the start/end points and route from the activity's recorded file. Returns
+ * false when there is no file or it can't be read; the activity is still stored.
+ */
+function addTrack(archive: StravaArchive, { activity, filename }: ArchiveActivity): boolean {
+  if (!archive.zip || !filename) return false
+
+  try {
+    const raw = archive.zip.read(archive.root + filename)
+    if (!raw) return false
+
+    const gzipped = filename.toLowerCase().endsWith('.gz')
+    const parsed = parseActivityFile(gzipped ? filename.slice(0, -3) : filename, gzipped ? gunzipSync(raw, { maxOutputLength: MAX_ACTIVITY_FILE_BYTES }) : raw)
+    const { summary } = parsed
+
+    activity.start_latlng = summary.startLatLng ?? []
+    activity.end_latlng = summary.endLatLng ?? []
+    activity.map = { id: `a${activity.id}`, summary_polyline: summary.summaryPolyline }
+    return true
+  } catch (error) {
+    logger.warn('Could not read archived activity file', {
+      activityId: activity.id,
+      filename,
+      error: error instanceof Error ? error.message : String(error)
+    }, 'strava-archive')
+    return false
+  }
+}
+
+/**
+ * Load an archive into `activities` for the user, recorded as an 'import' sync run.
+ */
+export async function importStravaArchive(
+  userId: string,
+  archive: StravaArchive,
+  requestId?: string
+): Promise<ArchiveImportResult> {
+  const rules = await getSyncQualificationRules(userId)
+
+  // Gear is exported by name, so a gear rule would reject every activity and reconciliation
+  // would then delete everything the archive covers
+  if (rules.gearIds.length > 0) {
+    throw new ArchiveImportError('Your qualification rules filter on gear, which the Strava export does not identify. Remove the gear rule or sync from Strava instead.')
+  }
+
+  const { users, activities } = getRepositories()
+  const user = await users.getById(userId)
+  const syncRun = await startSyncRun({ userId, trigger: 'import', triggeredBy: userId, mode: 'full', requestId })
+
+  try {
+    const fetched = archive.activities.map(({ activity }) => activity)
+    const { qualifying, results } = stravaAPI.qualifyActivities(fetched, rules)
+    const qualification = summarizeQualification(results)
+    const qualifyingIds = new Set(qualifying.map(activity => activity.id))
+
+    // Only qualifying activities are stored, so only their files are worth decompressing
+    let withoutTrack = 0
+    for (const entry of archive.activities) {
+      if (qualifyingIds.has(entry.activity.id) && !addTrack(archive, entry)) {
+        withoutTrack++
+      }
+    }
+
+    logger.info('Archive activities qualified', {
+      userId,
+      fetched: fetched.length,
+      qualified: qualifying.length,
+      withoutTrack,
+      qualification
+    }, 'strava-archive', userId, requestId)
+
+    const stored = await activities.insertMissing(userId, qualifying.map(activity => toActivityInsert(activity, userId)))
+
+    // The archive is a snapshot: it vouches for stored rows up to its newest activity, and
+    // hikes recorded since then are left for the next sync
+    const latestStart = stravaAPI.getLatestStartTime(fetched)
+    const reconciliation = await reconcileActivities({
+      userId,
+      before: latestStart === null ? undefined : latestStart + 1,
+      fetchedIds: fetched.map(activity => activity.id.toString()),
+      qualifyingIds: qualifying.map(activity => activity.id.toString()),
+      unknownIds: [],
+      reasons: Object.fromEntries(results.map(result => [result.activityId.toString(), result.reason])),
+      requestId
+    })
+
+    // Only ever move the watermark forward, so importing an old archive doesn't make the
+    // next sync re-fetch history it already has
+    let lastSyncedAt = user?.last_synced_at ?? null
+    if (latestStart !== null && (lastSyncedAt === null || latestStart > lastSyncedAt)) {
+      await users.update(userId, { last_synced_at: latestStart })
+      lastSyncedAt = latestStart
+    }
+
+    const warnings = withoutTrack > 0
+      ? [`${withoutTrack} qualifying ${withoutTrack === 1 ? 'activity has' : 'activities have'} no readable GPX/FIT file and ${withoutTrack === 1 ? 'was' : 'were'} stored without a route`]
+      : []
+
+    await finishSyncRun(syncRun, 'completed', {
+      fetched: fetched.length,
+      qualified: qualifying.length,
+      inserted: stored.inserted,
+      updated: 0,
+      removed: reconciliation.removed.length
+    }, warnings, requestId)
+
+    return {
+      fetched: fetched.length,
+      qualified: qualifying.length,
+      ...stored,
+      withoutTrack,
+      qualification,
+      reconciliation,
+      lastSyncedAt: lastSyncedAt ? new Date(lastSyncedAt * 1000).toISOString() : null,
+      warnings
+    }
+  } catch (error) {
+    await finishSyncRun(syncRun, 'failed', {}, [describeSyncError(error)], requestId)
+    throw error
+  }
+}
+
+export function isArchiveError(error: unknown): error is ArchiveImportError | ZipError {
+  return error instanceof ArchiveImportError || error instanceof ZipError
+}
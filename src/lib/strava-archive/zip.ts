@@ -0,0 +1,115 @@
+import { inflateRawSync } from 'zlib'
+
+/**
+ * Read-only access to the files in a zip held in memory, via its central directory.
+ * Supports the stored and deflate methods every archiver writes; ZIP64 archives (over
+ * 4 GB or 65,535 entries) are rejected. Entries never inflate past the size the
+ * directory declares, or past MAX_ENTRY_BYTES, so a zip bomb fails instead of filling
+ * memory.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+// Far above any activities.csv or activity file; larger entries are refused unread
+const MAX_ENTRY_BYTES = 256 * 1024 * 1024
+
+interface ZipEntry {
+  name: string
+  method: number
+  compressedSize: number
+  size: number
+  localHeaderOffset: number
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipError'
+  }
+}
+
+export class ZipArchive {
+  private entries = new Map<string, ZipEntry>()
+
+  constructor(private buffer: Buffer) {
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+    let end = -1
+    for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+      if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        end = offset
+        break
+      }
+    }
+    if (end < 0) {
+      throw new ZipError('Not a zip archive')
+    }
+
+    const entryCount = buffer.readUInt16LE(end + 10)
+    let offset = buffer.readUInt32LE(end + 16)
+    if (entryCount === 0xffff || offset === 0xffffffff) {
+      throw new ZipError('ZIP64 archives are not supported')
+    }
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new ZipError('Zip central directory is corrupt')
+      }
+
+      const nameLength = buffer.readUInt16LE(offset + 28)
+      const entry: ZipEntry = {
+        name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+        method: buffer.readUInt16LE(offset + 10),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        size: buffer.readUInt32LE(offset + 24),
+        localHeaderOffset: buffer.readUInt32LE(offset + 42)
+      }
+      this.entries.set(entry.name, entry)
+
+      offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32)
+    }
+  }
+
+  names(): string[] {
+    return [...this.entries.keys()]
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name)
+  }
+
+  read(name: string): Buffer | null {
+    const entry = this.entries.get(name)
+    if (!entry) return null
+
+    const header = entry.localHeaderOffset
+    if (header + 30 > this.buffer.length || this.buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+      throw new ZipError(`Zip entry ${name} is corrupt`)
+    }
+
+    // The local header's name and extra lengths can differ from the central directory's
+    const dataStart = header + 30 + this.buffer.readUInt16LE(header + 26) + this.buffer.readUInt16LE(header + 28)
+    const data = this.buffer.subarray(dataStart, dataStart + entry.compressedSize)
+
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+      throw new ZipError(`Zip entry ${name} uses unsupported compression method ${entry.method}`)
+    }
+    if (entry.size > MAX_ENTRY_BYTES) {
+      throw new ZipError(`Zip entry ${name} is larger than ${MAX_ENTRY_BYTES / 1024 / 1024} MB`)
+    }
+
+    if (entry.method === METHOD_STORED) return data
+    if (entry.size === 0) return Buffer.alloc(0)
+
+    try {
+      return inflateRawSync(data, { maxOutputLength: entry.size })
+    } catch {
+      // Also what inflating more than the declared size throws
+      throw new ZipError(`Zip entry ${name} is corrupt`)
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { logger } from '@/lib/logger'
+
+/**
+ * Shared request layer for the Strava API. Strava enforces a 15-minute and a daily
+ * request budget per application and reports both on every response via
+ * `X-RateLimit-Limit` / `X-RateLimit-Usage` ("<15min>,<daily>"). Every API call goes
+ * through `stravaFetch` so that budget is tracked in one place, requests are serialized
+ * and deferred near the limit, and 429/5xx responses are retried with backoff.
+ *
+ * State lives in memory per server instance, like the cache. The headers resync it
+ * after the first response, so a fresh instance only overshoots by its first request.
+ */
+
+interface RateLimitWindow {
+  limit: number
+  usage: number
+}
+
+export interface RateLimitStatus {
+  shortTerm: RateLimitWindow & { remaining: number; resetsAt: string }
+  daily: RateLimitWindow & { remaining: number; resetsAt: string }
+  lastUpdated: string | null
+  totalRequests: number
+  throttledRequests: number
+  retriedRequests: number
+}
+
+export class StravaRateLimitError extends Error {
+  retryAt: Date
+
+  constructor(message: string, retryAt: Date) {
+    super(message)
+    this.name = 'StravaRateLimitError'
+    this.retryAt = retryAt
+  }
+}
+
+const FIFTEEN_MINUTES_MS = 15 * 60 * 1000
+// Requests kept in hand so webhook-driven single fetches still work during a big sync
+const SHORT_TERM_RESERVE = 2
+const DAILY_RESERVE = 20
+// Longest we'll block a request waiting for the 15-minute window; beyond this we defer
+const MAX_WAIT_MS = 20 * 1000
+const MAX_RETRIES = 3
+const BASE_BACKOFF_MS = 500
+
+function nextShortTermReset(now: number): number {
+  // Strava's 15-minute windows reset at :00, :15, :30 and :45
+  return Math.floor(now / FIFTEEN_MINUTES_MS) * FIFTEEN_MINUTES_MS + FIFTEEN_MINUTES_MS
+}
+
+function nextDailyReset(now: number): number {
+  const reset = new Date(now)
+  reset.setUTCHours(24, 0, 0, 0)
+  return reset.getTime()
+}
+
+function parsePair(value: string | null): [number, number] | null {
+  if (!value) return null
+  const [shortTerm, daily] = value.split(',').map(part => parseInt(part.trim(), 10))
+  if (Number.isNaN(shortTerm) || Number.isNaN(daily)) return null
+  return [shortTerm, daily]
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+class StravaRateLimiter {
+  // Strava's documented defaults until the first response tells us otherwise
+  private shortTerm: RateLimitWindow = { limit: 100, usage: 0 }
+  private daily: RateLimitWindow = { limit: 1000, usage: 0 }
+  private shortTermResetsAt: number
+  private dailyResetsAt: number
+  private lastUpdated: number | null = null
+  private queue: Promise<void> = Promise.resolve()
+  private totalRequests = 0
+  private throttledRequests = 0
+  private retriedRequests = 0
+
+  constructor() {
+    const now = Date.now()
+    this.shortTermResetsAt = nextShortTermReset(now)
+    this.dailyResetsAt = nextDailyReset(now)
+  }
+
+  private rollWindows(now: number): void {
+    if (now >= this.shortTermResetsAt) {
+      this.shortTerm.usage = 0
+      this.shortTermResetsAt = nextShortTermReset(now)
+    }
+    if (now >= this.dailyResetsAt) {
+      this.daily.usage = 0
+      this.dailyResetsAt = nextDailyReset(now)
+    }
+  }
+
+  /**
+   * Reserve one request from the budget, waiting for the 15-minute window to reset if
+   * that is close enough. Calls are chained so concurrent callers take turns.
+   */
+  acquire(label: string): Promise<void> {
+    const turn = this.queue.then(() => this.reserve(label))
+    // Keep the chain alive even if this caller gets deferred
+    this.queue = turn.catch(() => undefined)
+    return turn
+  }
+
+  private async reserve(label: string): Promise<void> {
+    let now = Date.now()
+    this.rollWindows(now)
+
+    if (this.daily.limit - this.daily.usage <= DAILY_RESERVE) {
+      this.throttledRequests++
+      logger.warn('Strava daily rate limit budget exhausted, deferring request', {
+        label,
+        daily: this.daily,
+        resetsAt: new Date(this.dailyResetsAt).toISOString()
+      }, 'strava-rate-limit')
+      throw new StravaRateLimitError('Strava daily rate limit reached', new Date(this.dailyResetsAt))
+    }
+
+    if (this.shortTerm.limit - this.shortTerm.usage <= SHORT_TERM_RESERVE) {
+      const waitMs = this.shortTermResetsAt - now
+      this.throttledRequests++
+
+      if (waitMs > MAX_WAIT_MS) {
+        logger.warn('Strava 15-minute rate limit budget exhausted, deferring request', {
+          label,
+          shortTerm: this.shortTerm,
+          resetsAt: new Date(this.shortTermResetsAt).toISOString()
+        }, 'strava-rate-limit')
+        throw new StravaRateLimitError('Strava 15-minute rate limit reached', new Date(this.shortTermResetsAt))
+      }
+
+      logger.info('Waiting for Strava 15-minute rate limit window', {
+        label,
+        waitMs,
+        shortTerm: this.shortTerm
+      }, 'strava-rate-limit')
+      await sleep(waitMs)
+      now = Date.now()
+      this.rollWindows(now)
+    }
+
+    // Count optimistically; the response headers correct it afterwards
+    this.shortTerm.usage++
+    this.daily.usage++
+    this.totalRequests++
+  }
+
+  updateFromHeaders(headers: Headers): void {
+    // Read-specific limits are stricter and all our calls are reads, so prefer them
+    const limits = parsePair(headers.get('x-readratelimit-limit')) ?? parsePair(headers.get('x-ratelimit-limit'))
+    const usage = parsePair(headers.get('x-readratelimit-usage')) ?? parsePair(headers.get('x-ratelimit-usage'))
+
+    if (!limits || !usage) return
+
+    this.rollWindows(Date.now())
+    this.shortTerm = { limit: limits[0], usage: usage[0] }
+    this.daily = { limit: limits[1], usage: usage[1] }
+    this.lastUpdated = Date.now()
+
+    logger.debug('Strava rate limit headers', {
+      shortTerm: this.shortTerm,
+      daily: this.daily
+    }, 'strava-rate-limit')
+  }
+
+  /**
+   * After a 429 that retries didn't clear: the server disagrees with our count, so mark
+   * the limit it reports as used up (the 15-minute one if the headers don't say) and
+   * return when that limit resets.
+   */
+  markExhausted(): Date {
+    this.rollWindows(Date.now())
+
+    if (this.daily.usage >= this.daily.limit) {
+      return new Date(this.dailyResetsAt)
+    }
+
+    this.shortTerm.usage = Math.max(this.shortTerm.usage, this.shortTerm.limit)
+    return new Date(this.shortTermResetsAt)
+  }
+
+  recordRetry(): void {
+    this.retriedRequests++
+  }
+
+  getStatus(): RateLimitStatus {
+    this.rollWindows(Date.now())
+
+    return {
+      shortTerm: {
+        ...this.shortTerm,
+        remaining: Math.max(0, this.shortTerm.limit - this.shortTerm.usage),
+        resetsAt: new Date(this.shortTermResetsAt).toISOString()
+      },
+      daily: {
+        ...this.daily,
+        remaining: Math.max(0, this.daily.limit - this.daily.usage),
+        resetsAt: new Date(this.dailyResetsAt).toISOString()
+      },
+      lastUpdated: this.lastUpdated ? new Date(this.lastUpdated).toISOString() : null,
+      totalRequests: this.totalRequests,
+      throttledRequests: this.throttledRequests,
+      retriedRequests: this.retriedRequests
+    }
+  }
+}
+
+export const stravaRateLimiter = new StravaRateLimiter()
+
+/**
+ * `fetch` for Strava API endpoints. Waits for budget, records the rate limit headers and
+ * retries 429s and 5xx responses with exponential backoff. The final response is returned
+ * as-is so callers keep their own error handling; a `StravaRateLimitError` is thrown only
+ * when the request has to be deferred past what we're willing to wait.
+ */
+export async function stravaFetch(url: string, init: RequestInit = {}, label = 'strava-request'): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    await stravaRateLimiter.acquire(label)
+
+    const response = await fetch(url, init)
+    stravaRateLimiter.updateFromHeaders(response.headers)
+
+    const retryable = response.status === 429 || response.status >= 500
+    if (!retryable || attempt >= MAX_RETRIES) {
+      if (response.status === 429) {
+        throw new StravaRateLimitError('Strava rate limit exceeded', stravaRateLimiter.markExhausted())
+      }
+      return response
+    }
+
+    // acquire() on the next attempt defers instead if the headers show a limit used up
+    const backoffMs = BASE_BACKOFF_MS * 2 ** attempt + Math.floor(Math.random() * BASE_BACKOFF_MS)
+
+    // Release the connection before retrying
+    await response.body?.cancel()
+    stravaRateLimiter.recordRetry()
+    logger.warn('Retrying Strava request', {
+      label,
+      status: response.status,
+      attempt: attempt + 1,
+      maxRetries: MAX_RETRIES,
+      backoffMs
+    }, 'strava-rate-limit')
+
+    await sleep(backoffMs)
+  }
+}
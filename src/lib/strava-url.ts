@@ -0,0 +1,11 @@
+export const DEFAULT_STRAVA_BASE_URL = 'https://www.strava.com'
+
+/**
+ * Absolute URL for a Strava path such as `/oauth/token` or `/api/v3/activities/1`.
+ * STRAVA_BASE_URL points every call (OAuth included) somewhere else, e.g. the fake
+ * server from `npm run fake-strava`. Read on each call so tests can switch it.
+ */
+export function stravaUrl(path: string): string {
+  const baseUrl = (process.env.STRAVA_BASE_URL || DEFAULT_STRAVA_BASE_URL).replace(/\/+$/, '')
+  return `${baseUrl}${path}`
+}
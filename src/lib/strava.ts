@@ -1,5 +1,15 @@
 import { logger } from '@/lib/logger'
-import { SupabaseClient } from '@supabase/supabase-js'
+import type { StravaActivityInsert, UserRepository } from '@/lib/repositories'
+import { cache, CACHE_KEYS, CACHE_TTL } from '@/lib/cache'
+import { stravaFetch, StravaRateLimitError } from '@/lib/strava-rate-limit'
+import { stravaUrl } from '@/lib/strava-url'
+import {
+  DEFAULT_QUALIFICATION_RULES,
+  evaluateActivity,
+  summarizeQualification,
+  type QualificationResult,
+  type QualificationRules
+} from '@/lib/qualification'
 
 export interface StravaActivity {
   id: number
@@ -15,6 +25,44 @@ export interface StravaActivity {
   location_country?: string
   sport_type: string
   description?: string
+  gear_id?: string | null
+  // e.g. "(GMT-08:00) America/Los_Angeles"
+  timezone?: string
+  // [lat, lng]; empty for activities without GPS
+  start_latlng?: [number, number] | []
+  end_latlng?: [number, number] | []
+  map?: {
+    id: string
+    summary_polyline: string | null
+    polyline?: string | null
+  }
+  average_speed?: number
+  max_speed?: number
+  has_heartrate?: boolean
+  average_heartrate?: number
+  max_heartrate?: number
+  elev_high?: number
+  elev_low?: number
+}
+
+export type StravaStreamKey = 'latlng' | 'altitude' | 'distance' | 'time' | 'heartrate'
+
+export const STRAVA_STREAM_KEYS: StravaStreamKey[] = ['latlng', 'altitude', 'distance', 'time', 'heartrate']
+
+export interface StravaStream<T> {
+  data: T[]
+  series_type: 'distance' | 'time'
+  original_size: number
+  resolution: 'low' | 'medium' | 'high'
+}
+
+// Streams keyed by type (`key_by_type=true`); a key is missing when the activity has no such data
+export interface StravaStreamSet {
+  latlng?: StravaStream<[number, number]>
+  altitude?: StravaStream<number>
+  distance?: StravaStream<number>
+  time?: StravaStream<number>
+  heartrate?: StravaStream<number>
 }
 
 export interface StravaTokenResponse {
@@ -80,7 +128,7 @@ export class StravaAPI {
       scope: 'read,activity:read',
     })
     
-    const authUrl = `https://www.strava.com/oauth/authorize?${params.toString()}`
+    const authUrl = stravaUrl(`/oauth/authorize?${params.toString()}`)
     
     logger.debug('Generated authorization URL', {
       clientId: this.clientId,
@@ -101,7 +149,7 @@ export class StravaAPI {
     const timer = logger.time('strava-token-exchange', 'strava-api')
     
     try {
-      const response = await fetch('https://www.strava.com/oauth/token', {
+      const response = await fetch(stravaUrl('/oauth/token'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -185,7 +233,7 @@ export class StravaAPI {
     const timer = logger.time('strava-token-refresh', 'strava-api')
     
     try {
-      const response = await fetch('https://www.strava.com/oauth/token', {
+      const response = await fetch(stravaUrl('/oauth/token'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -254,24 +302,41 @@ export class StravaAPI {
   async getActivities(
     accessToken: string,
     page = 1,
-    perPage = 200
+    perPage = 200,
+    after?: number,
+    // Strava lists newest first, or oldest first when `after` is set
+    before?: number
   ): Promise<StravaActivity[]> {
     logger.info('Fetching activities from Strava', {
       page,
       perPage,
+      after: after ? new Date(after * 1000).toISOString() : null,
+      before: before ? new Date(before * 1000).toISOString() : null,
       accessTokenLength: accessToken.length
     }, 'strava-api')
     
     const timer = logger.time(`strava-get-activities-page-${page}`, 'strava-api')
     
+    const params = new URLSearchParams({
+      page: page.toString(),
+      per_page: perPage.toString(),
+    })
+    if (after) {
+      params.set('after', after.toString())
+    }
+    if (before) {
+      params.set('before', before.toString())
+    }
+    
     try {
-      const response = await fetch(
-        `https://www.strava.com/api/v3/athlete/activities?page=${page}&per_page=${perPage}`,
+      const response = await stravaFetch(
+        stravaUrl(`/api/v3/athlete/activities?${params.toString()}`),
         {
           headers: {
             Authorization: `Bearer ${accessToken}`,
           },
-        }
+        },
+        'get-activities'
       )
 
       timer.end()
@@ -317,11 +382,246 @@ export class StravaAPI {
     }
   }
 
-  async getAllActivities(accessToken: string): Promise<StravaActivity[]> {
-    logger.info('Starting to fetch all activities from Strava', {
+  async getActivity(accessToken: string, activityId: number): Promise<StravaActivity> {
+    logger.info('Fetching activity details from Strava', {
+      activityId,
       accessTokenLength: accessToken.length
     }, 'strava-api')
     
+    const timer = logger.time(`strava-get-activity-${activityId}`, 'strava-api')
+    
+    try {
+      const response = await stravaFetch(
+        stravaUrl(`/api/v3/activities/${activityId}`),
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        },
+        'get-activity'
+      )
+
+      timer.end()
+
+      logger.debug('Get activity response received', {
+        activityId,
+        status: response.status,
+        statusText: response.statusText,
+        ok: response.ok
+      }, 'strava-api')
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        logger.error('Failed to fetch activity details', undefined, {
+          activityId,
+          status: response.status,
+          statusText: response.statusText,
+          errorText
+        }, 'strava-api')
+        throw new Error(`Failed to fetch activity ${activityId}`)
+      }
+
+      const activity: StravaActivity = await response.json()
+      
+      logger.info('Successfully fetched activity details', {
+        activityId,
+        name: activity.name,
+        sport_type: activity.sport_type,
+        hasDescription: !!activity.description
+      }, 'strava-api')
+
+      return activity
+    } catch (error) {
+      timer.end()
+      logger.error('Error fetching activity details', error, { activityId }, 'strava-api')
+      throw error
+    }
+  }
+
+  /**
+   * Whether an activity is still on Strava, to confirm a delete event before acting on
+   * it. Only a 404 counts as gone; any other failure throws so the event is retried.
+   */
+  async activityExists(accessToken: string, activityId: number): Promise<boolean> {
+    const response = await stravaFetch(
+      stravaUrl(`/api/v3/activities/${activityId}`),
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      'check-activity'
+    )
+
+    if (response.status === 404) {
+      logger.info('Activity is gone from Strava', { activityId }, 'strava-api')
+      return false
+    }
+
+    if (!response.ok) {
+      logger.error('Failed to check activity', undefined, {
+        activityId,
+        status: response.status,
+        statusText: response.statusText
+      }, 'strava-api')
+      throw new Error(`Failed to check activity ${activityId}`)
+    }
+
+    return true
+  }
+
+  /**
+   * Full-resolution streams for one activity. Returns null when Strava has none, as for
+   * manual activities, which it reports as not found.
+   */
+  async getActivityStreams(accessToken: string, activityId: number): Promise<StravaStreamSet | null> {
+    logger.info('Fetching activity streams from Strava', { activityId }, 'strava-api')
+
+    const timer = logger.time(`strava-get-activity-streams-${activityId}`, 'strava-api')
+    const params = new URLSearchParams({ keys: STRAVA_STREAM_KEYS.join(','), key_by_type: 'true' })
+
+    try {
+      const response = await stravaFetch(
+        stravaUrl(`/api/v3/activities/${activityId}/streams?${params.toString()}`),
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        },
+        'get-activity-streams'
+      )
+
+      timer.end()
+
+      if (response.status === 404) {
+        logger.info('Activity has no streams', { activityId }, 'strava-api')
+        return null
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        logger.error('Failed to fetch activity streams', undefined, {
+          activityId,
+          status: response.status,
+          statusText: response.statusText,
+          errorText
+        }, 'strava-api')
+        throw new Error(`Failed to fetch streams for activity ${activityId}`)
+      }
+
+      const streams: StravaStreamSet = await response.json()
+
+      logger.info('Successfully fetched activity streams', {
+        activityId,
+        keys: Object.keys(streams),
+        points: streams.time?.data.length ?? streams.latlng?.data.length ?? 0
+      }, 'strava-api')
+
+      return streams
+    } catch (error) {
+      timer.end()
+      logger.error('Error fetching activity streams', error, { activityId }, 'strava-api')
+      throw error
+    }
+  }
+
+  /**
+   * Detail fetch backed by the shared cache. Activity details rarely change once
+   * uploaded, so repeated syncs only hit Strava for activities not seen within the TTL.
+   */
+  async getActivityDetails(accessToken: string, activityId: number): Promise<StravaActivity> {
+    const cacheKey = CACHE_KEYS.STRAVA_ACTIVITY_DETAILS(activityId)
+    const cached = cache.get<StravaActivity>(cacheKey)
+    
+    if (cached) {
+      logger.debug('Using cached activity details', { activityId }, 'strava-api')
+      return cached
+    }
+
+    const activity = await this.getActivity(accessToken, activityId)
+    cache.set(cacheKey, activity, CACHE_TTL.ACTIVITY_DETAILS)
+    return activity
+  }
+
+  /**
+   * Whether an activity is worth a detail fetch: only the sport type can be checked
+   * from the summary, everything else may depend on the description.
+   */
+  isHikingCandidate(activity: StravaActivity, rules: QualificationRules = DEFAULT_QUALIFICATION_RULES): boolean {
+    return rules.sportTypes.length === 0 ||
+      rules.sportTypes.includes(activity.sport_type) ||
+      rules.sportTypes.includes(activity.type)
+  }
+
+  /**
+   * The list endpoint never includes `description`, so the hashtag filter needs the
+   * detailed representation. Only hike-type candidates are fetched; everything else is
+   * returned as-is because it can't qualify anyway. Candidates whose detail fetch failed
+   * come back as summaries and are listed in `failedIds`.
+   */
+  async getActivitiesWithDetails(
+    accessToken: string,
+    activities: StravaActivity[],
+    rules: QualificationRules = DEFAULT_QUALIFICATION_RULES
+  ): Promise<{ activities: StravaActivity[]; failedIds: number[] }> {
+    const candidates = activities.filter(activity => this.isHikingCandidate(activity, rules))
+    
+    logger.info('Fetching details for hiking candidates', {
+      totalActivities: activities.length,
+      candidates: candidates.length
+    }, 'strava-api')
+    
+    const timer = logger.time('strava-get-activity-details', 'strava-api')
+    const details = new Map<number, StravaActivity>()
+    const failed: number[] = []
+
+    for (const candidate of candidates) {
+      try {
+        details.set(candidate.id, await this.getActivityDetails(accessToken, candidate.id))
+      } catch (error) {
+        if (error instanceof StravaRateLimitError) {
+          // Out of budget: every remaining fetch would fail the same way, so stop here
+          // and let the caller decide whether partial details are good enough
+          timer.end()
+          throw error
+        }
+        // Keep the summary so one bad activity doesn't abort the whole batch
+        failed.push(candidate.id)
+        logger.warn('Falling back to summary activity after detail fetch failed', {
+          activityId: candidate.id,
+          error: error instanceof Error ? error.message : String(error)
+        }, 'strava-api')
+      }
+    }
+
+    timer.end()
+    
+    logger.info('Activity details fetched', {
+      candidates: candidates.length,
+      fetched: details.size,
+      failed: failed.length,
+      failedIds: failed
+    }, 'strava-api')
+
+    return {
+      activities: activities.map(activity => details.get(activity.id) ?? activity),
+      // Summaries without details can't be judged on hashtags; callers must not treat them as rejected
+      failedIds: failed
+    }
+  }
+
+  /**
+   * Page through the athlete's activities. When `after` (Unix seconds) is given,
+   * Strava only returns activities that started after it, so incremental syncs
+   * stop after a page or two instead of walking the whole history.
+   */
+  async getAllActivities(accessToken: string, after?: number): Promise<StravaActivity[]> {
+    logger.info('Starting to fetch all activities from Strava', {
+      accessTokenLength: accessToken.length,
+      mode: after ? 'incremental' : 'full',
+      after: after ? new Date(after * 1000).toISOString() : null
+    }, 'strava-api')
+    
     const allActivities: StravaActivity[] = []
     let page = 1
     let hasMore = true
@@ -331,7 +631,7 @@ export class StravaAPI {
       while (hasMore) {
         logger.debug('Fetching activities page', { page }, 'strava-api')
         
-        const activities = await this.getActivities(accessToken, page)
+        const activities = await this.getActivities(accessToken, page, 200, after)
         
         if (activities.length === 0) {
           hasMore = false
@@ -369,44 +669,38 @@ export class StravaAPI {
     }
   }
 
-  filterHikingActivities(activities: StravaActivity[]): StravaActivity[] {
+  /**
+   * Evaluate every activity against the qualification rules and keep the ones that
+   * count. The per-activity results say which rule accepted or rejected each one.
+   */
+  qualifyActivities(
+    activities: StravaActivity[],
+    rules: QualificationRules = DEFAULT_QUALIFICATION_RULES
+  ): { qualifying: StravaActivity[]; results: QualificationResult[] } {
     logger.info('Starting to filter hiking activities', {
       totalActivities: activities.length
     }, 'strava-api')
     
-    const hikingTypes = ['Hike']
-    const hashtag = '#3800km'
-    
-    logger.debug('Filter criteria', {
-      hikingTypes,
-      hashtag,
-      caseSensitive: false
-    }, 'strava-api')
+    logger.debug('Filter criteria', { rules }, 'strava-api')
     
+    const results: QualificationResult[] = []
     const filteredActivities = activities.filter(activity => {
-      // First check if it's a hiking activity
-      const isHikingType = hikingTypes.includes(activity.type) || 
-                          hikingTypes.includes(activity.sport_type)
-      
-      // Then check if it has the #3800km hashtag in the description
-      const hasHashtag = activity.description && 
-                        activity.description.toLowerCase().includes(hashtag.toLowerCase())
-      
-      const included = isHikingType && hasHashtag
+      const result = evaluateActivity(activity, rules)
+      results.push(result)
       
       logger.debug('Activity filter evaluation', {
         activityId: activity.id,
         activityName: activity.name,
         type: activity.type,
         sport_type: activity.sport_type,
-        isHikingType,
         hasDescription: !!activity.description,
         descriptionLength: activity.description?.length || 0,
-        hasHashtag,
-        included
+        included: result.qualifies,
+        rejectedBy: result.rejectedBy,
+        reason: result.reason
       }, 'strava-api')
       
-      return included
+      return result.qualifies
     })
 
     // Calculate summary statistics
@@ -416,7 +710,8 @@ export class StravaAPI {
     logger.info('Hiking activities filtering completed', {
       totalActivities: activities.length,
       filteredActivities: filteredActivities.length,
-      filterRate: ((filteredActivities.length / activities.length) * 100).toFixed(1) + '%',
+      filterRate: activities.length > 0 ? ((filteredActivities.length / activities.length) * 100).toFixed(1) + '%' : 'n/a',
+      summary: summarizeQualification(results),
       totalDistance,
       totalKm: Math.round(totalKm * 10) / 10,
       dateRange: filteredActivities.length > 0 ? {
@@ -425,7 +720,36 @@ export class StravaAPI {
       } : null
     }, 'strava-api')
 
-    return filteredActivities
+    return { qualifying: filteredActivities, results }
+  }
+
+  filterHikingActivities(
+    activities: StravaActivity[],
+    rules: QualificationRules = DEFAULT_QUALIFICATION_RULES
+  ): StravaActivity[] {
+    return this.qualifyActivities(activities, rules).qualifying
+  }
+
+  /**
+   * Find the sync watermark for a batch of activities: the start time (Unix seconds)
+   * of the most recent one. Returns null for an empty batch so callers keep the old value.
+   */
+  getLatestStartTime(activities: StravaActivity[]): number | null {
+    if (activities.length === 0) {
+      return null
+    }
+
+    const latest = Math.max(...activities.map(activity => new Date(activity.start_date).getTime()))
+    return Math.floor(latest / 1000)
+  }
+
+  getEarliestStartTime(activities: StravaActivity[]): number | null {
+    if (activities.length === 0) {
+      return null
+    }
+
+    const earliest = Math.min(...activities.map(activity => new Date(activity.start_date).getTime()))
+    return Math.floor(earliest / 1000)
   }
 
   /**
@@ -437,7 +761,7 @@ export class StravaAPI {
     currentAccessToken: string,
     currentRefreshToken: string,
     expiresAt: number,
-    supabaseClient: SupabaseClient
+    users: UserRepository
   ): Promise<string> {
     logger.info('Ensuring valid token', {
       userId,
@@ -467,29 +791,24 @@ export class StravaAPI {
       const newTokenData = await this.refreshToken(currentRefreshToken)
       
       // Update tokens in database
-      const { error: updateError } = await supabaseClient
-        .from('users')
-        .update({
+      try {
+        await users.update(userId, {
           access_token: newTokenData.access_token,
           refresh_token: newTokenData.refresh_token,
           expires_at: newTokenData.expires_at,
         })
-        .eq('id', userId)
 
-      if (updateError) {
-        logger.error('Failed to update tokens in database after refresh', updateError, {
-          userId,
-          errorCode: updateError.code,
-          errorMessage: updateError.message
-        }, 'strava-api')
-        // Still return the new token even if DB update failed
-        // The app can continue working, but next request might need another refresh
-      } else {
         logger.info('Successfully refreshed and updated tokens', {
           userId,
           newExpiresAt: new Date(newTokenData.expires_at * 1000).toISOString(),
           expiresInHours: Math.round((newTokenData.expires_at * 1000 - Date.now()) / (1000 * 60 * 60))
         }, 'strava-api')
+      } catch (updateError) {
+        logger.error('Failed to update tokens in database after refresh', updateError, {
+          userId
+        }, 'strava-api')
+        // Still return the new token even if DB update failed
+        // The app can continue working, but next request might need another refresh
       }
 
       return newTokenData.access_token
@@ -503,5 +822,48 @@ export class StravaAPI {
   }
 }
 
+/**
+ * Map a Strava activity onto an `activities` row. Shared by the bulk sync and the
+ * webhook receiver so both write identical rows.
+ */
+export function toActivityInsert(
+  activity: StravaActivity,
+  userId: string
+): StravaActivityInsert {
+  return {
+    strava_id: activity.id.toString(),
+    source: 'strava',
+    name: activity.name,
+    type: activity.type,
+    distance: activity.distance,
+    moving_time: activity.moving_time,
+    start_date: activity.start_date,
+    location_city: activity.location_city || null,
+    location_country: activity.location_country || null,
+    elevation_gain: activity.total_elevation_gain,
+    user_id: userId,
+    elapsed_time: activity.elapsed_time ?? null,
+    sport_type: activity.sport_type || null,
+    description: activity.description || null,
+    start_date_local: activity.start_date_local || null,
+    timezone: activity.timezone || null,
+    start_latlng: toLatLng(activity.start_latlng),
+    end_latlng: toLatLng(activity.end_latlng),
+    summary_polyline: activity.map?.summary_polyline || null,
+    average_speed: activity.average_speed ?? null,
+    max_speed: activity.max_speed ?? null,
+    average_heartrate: activity.has_heartrate === false ? null : activity.average_heartrate ?? null,
+    max_heartrate: activity.has_heartrate === false ? null : activity.max_heartrate ?? null,
+    gear_id: activity.gear_id || null,
+    max_elevation: activity.elev_high ?? null,
+    min_elevation: activity.elev_low ?? null,
+  }
+}
+
+// Strava sends [] rather than null for activities recorded without GPS
+function toLatLng(latlng?: [number, number] | []): [number, number] | null {
+  return latlng && latlng.length === 2 ? [latlng[0], latlng[1]] : null
+}
+
 logger.info('Creating Strava API instance', undefined, 'strava-api')
 export const stravaAPI = new StravaAPI() 
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
 import { logger } from '@/lib/logger'
+import type { QualificationRules } from '@/lib/qualification'
 
 logger.info('Initializing Supabase client', {
   environment: process.env.NODE_ENV
@@ -80,190 +81,7 @@ export async function testSupabaseConnection() {
   }
 }
 
-// Enhanced database operations with logging
-export async function insertActivity(activity: Database['public']['Tables']['activities']['Insert']) {
-  logger.info('Inserting activity into database', {
-    stravaId: activity.strava_id,
-    name: activity.name,
-    type: activity.type,
-    distance: activity.distance,
-    userId: activity.user_id
-  }, 'supabase')
-  
-  const timer = logger.time('supabase-insert-activity', 'supabase')
-  
-  try {
-    const { data, error } = await supabase
-      .from('activities')
-      .insert(activity)
-      .select()
-    
-    timer.end()
-    
-    if (error) {
-      logger.error('Failed to insert activity', error, {
-        errorCode: error.code,
-        errorMessage: error.message,
-        errorDetails: error.details,
-        activity: {
-          stravaId: activity.strava_id,
-          name: activity.name,
-          type: activity.type
-        }
-      }, 'supabase')
-      throw error
-    }
-    
-    logger.info('Activity inserted successfully', {
-      insertedData: data,
-      stravaId: activity.strava_id,
-      name: activity.name
-    }, 'supabase')
-    
-    return data
-  } catch (error) {
-    timer.end()
-    logger.error('Error inserting activity', error, {
-      activity: {
-        stravaId: activity.strava_id,
-        name: activity.name,
-        type: activity.type
-      }
-    }, 'supabase')
-    throw error
-  }
-}
-
-export async function getActivitiesByUserId(userId: string) {
-  logger.info('Fetching activities by user ID', { userId }, 'supabase')
-  
-  const timer = logger.time('supabase-get-activities-by-user', 'supabase')
-  
-  try {
-    const { data, error } = await supabase
-      .from('activities')
-      .select('*')
-      .eq('user_id', userId)
-      .order('start_date', { ascending: false })
-    
-    timer.end()
-    
-    if (error) {
-      logger.error('Failed to fetch activities by user ID', error, {
-        errorCode: error.code,
-        errorMessage: error.message,
-        errorDetails: error.details,
-        userId
-      }, 'supabase')
-      throw error
-    }
-    
-    logger.info('Activities fetched successfully', {
-      userId,
-      activitiesCount: data?.length || 0,
-      totalDistance: data?.reduce((sum, activity) => sum + activity.distance, 0) || 0
-    }, 'supabase')
-    
-    return data
-  } catch (error) {
-    timer.end()
-    logger.error('Error fetching activities by user ID', error, { userId }, 'supabase')
-    throw error
-  }
-}
-
-export async function upsertUser(user: Database['public']['Tables']['users']['Insert']) {
-  logger.info('Upserting user', {
-    id: user.id,
-    stravaId: user.strava_id,
-    expiresAt: new Date(user.expires_at * 1000).toISOString()
-  }, 'supabase')
-  
-  const timer = logger.time('supabase-upsert-user', 'supabase')
-  
-  try {
-    const { data, error } = await supabase
-      .from('users')
-      .upsert(user)
-      .select()
-    
-    timer.end()
-    
-    if (error) {
-      logger.error('Failed to upsert user', error, {
-        errorCode: error.code,
-        errorMessage: error.message,
-        errorDetails: error.details,
-        user: {
-          id: user.id,
-          stravaId: user.strava_id
-        }
-      }, 'supabase')
-      throw error
-    }
-    
-    logger.info('User upserted successfully', {
-      data,
-      id: user.id,
-      stravaId: user.strava_id
-    }, 'supabase')
-    
-    return data
-  } catch (error) {
-    timer.end()
-    logger.error('Error upserting user', error, {
-      user: {
-        id: user.id,
-        stravaId: user.strava_id
-      }
-    }, 'supabase')
-    throw error
-  }
-}
-
-export async function getUserByStravaId(stravaId: string) {
-  logger.info('Fetching user by Strava ID', { stravaId }, 'supabase')
-  
-  const timer = logger.time('supabase-get-user-by-strava-id', 'supabase')
-  
-  try {
-    const { data, error } = await supabase
-      .from('users')
-      .select('*')
-      .eq('strava_id', stravaId)
-      .single()
-    
-    timer.end()
-    
-    if (error) {
-      if (error.code === 'PGRST116') {
-        // No rows found - this is expected for new users
-        logger.info('No user found with Strava ID (expected for new users)', { stravaId }, 'supabase')
-        return null
-      }
-      
-      logger.error('Failed to fetch user by Strava ID', error, {
-        errorCode: error.code,
-        errorMessage: error.message,
-        errorDetails: error.details,
-        stravaId
-      }, 'supabase')
-      throw error
-    }
-    
-    logger.info('User fetched successfully', {
-      stravaId,
-      userId: data.id,
-      tokenExpiresAt: new Date(data.expires_at * 1000).toISOString()
-    }, 'supabase')
-    
-    return data
-  } catch (error) {
-    timer.end()
-    logger.error('Error fetching user by Strava ID', error, { stravaId }, 'supabase')
-    throw error
-  }
-}
+// Table queries live in the repository layer (src/lib/repositories)
 
 export type Database = {
   public: {
@@ -271,7 +89,10 @@ export type Database = {
       activities: {
         Row: {
           id: number
-          strava_id: string
+          // Null for activities that didn't come from Strava
+          strava_id: string | null
+          source: 'strava' | 'upload' | 'manual'
+          track_hash: string | null
           name: string
           type: string
           distance: number
@@ -281,11 +102,28 @@ export type Database = {
           location_country: string | null
           elevation_gain: number
           user_id: string
+          elapsed_time: number | null
+          sport_type: string | null
+          description: string | null
+          start_date_local: string | null
+          timezone: string | null
+          start_latlng: [number, number] | null
+          end_latlng: [number, number] | null
+          summary_polyline: string | null
+          average_speed: number | null
+          max_speed: number | null
+          average_heartrate: number | null
+          max_heartrate: number | null
+          gear_id: string | null
+          max_elevation: number | null
+          min_elevation: number | null
           created_at: string
           updated_at: string
         }
         Insert: {
-          strava_id: string
+          strava_id?: string | null
+          source?: 'strava' | 'upload' | 'manual'
+          track_hash?: string | null
           name: string
           type: string
           distance: number
@@ -295,6 +133,21 @@ export type Database = {
           location_country?: string | null
           elevation_gain: number
           user_id: string
+          elapsed_time?: number | null
+          sport_type?: string | null
+          description?: string | null
+          start_date_local?: string | null
+          timezone?: string | null
+          start_latlng?: [number, number] | null
+          end_latlng?: [number, number] | null
+          summary_polyline?: string | null
+          average_speed?: number | null
+          max_speed?: number | null
+          average_heartrate?: number | null
+          max_heartrate?: number | null
+          gear_id?: string | null
+          max_elevation?: number | null
+          min_elevation?: number | null
         }
         Update: {
           name?: string
@@ -305,6 +158,21 @@ export type Database = {
           location_city?: string | null
           location_country?: string | null
           elevation_gain?: number
+          elapsed_time?: number | null
+          sport_type?: string | null
+          description?: string | null
+          start_date_local?: string | null
+          timezone?: string | null
+          start_latlng?: [number, number] | null
+          end_latlng?: [number, number] | null
+          summary_polyline?: string | null
+          average_speed?: number | null
+          max_speed?: number | null
+          average_heartrate?: number | null
+          max_heartrate?: number | null
+          gear_id?: string | null
+          max_elevation?: number | null
+          min_elevation?: number | null
         }
       }
       users: {
@@ -314,6 +182,7 @@ export type Database = {
           access_token: string
           refresh_token: string
           expires_at: number
+          last_synced_at: number | null
           created_at: string
           updated_at: string
         }
@@ -323,11 +192,219 @@ export type Database = {
           access_token: string
           refresh_token: string
           expires_at: number
+          last_synced_at?: number | null
         }
         Update: {
           access_token?: string
           refresh_token?: string
           expires_at?: number
+          last_synced_at?: number | null
+        }
+      }
+      schema_migrations: {
+        Row: {
+          version: number
+          name: string
+          checksum: string
+          applied_at: string
+        }
+        Insert: {
+          version: number
+          name: string
+          checksum: string
+        }
+        Update: {
+          checksum?: string
+        }
+      }
+      sync_jobs: {
+        Row: {
+          id: string
+          user_id: string
+          status: 'pending' | 'running' | 'completed' | 'failed'
+          mode: 'incremental' | 'full'
+          after: number | null
+          next_page: number
+          pages_fetched: number
+          activities_fetched: number
+          activities_qualified: number
+          activities_upserted: number
+          activities_inserted: number
+          activities_updated: number
+          activities_removed: number
+          cursor_ids: string[]
+          cursor_kept_ids: string[]
+          latest_start: number | null
+          // Oldest start seen, the cursor of a full job (Unix seconds)
+          earliest_start: number | null
+          earliest_failed_start: number | null
+          attempts: number
+          error: string | null
+          errors: string[]
+          run_after: string
+          locked_until: string | null
+          started_at: string | null
+          finished_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          mode: 'incremental' | 'full'
+          after?: number | null
+        }
+        Update: {
+          status?: 'pending' | 'running' | 'completed' | 'failed'
+          next_page?: number
+          pages_fetched?: number
+          activities_fetched?: number
+          activities_qualified?: number
+          activities_upserted?: number
+          activities_inserted?: number
+          activities_updated?: number
+          activities_removed?: number
+          cursor_ids?: string[]
+          cursor_kept_ids?: string[]
+          latest_start?: number | null
+          earliest_start?: number | null
+          earliest_failed_start?: number | null
+          attempts?: number
+          error?: string | null
+          errors?: string[]
+          run_after?: string
+          locked_until?: string | null
+          started_at?: string | null
+          finished_at?: string | null
+        }
+      }
+      sync_runs: {
+        Row: {
+          id: string
+          user_id: string
+          job_id: string | null
+          trigger: 'manual' | 'webhook' | 'cron' | 'import'
+          triggered_by: string
+          mode: 'incremental' | 'full' | 'event'
+          status: 'running' | 'completed' | 'failed'
+          activities_fetched: number
+          activities_qualified: number
+          activities_inserted: number
+          activities_updated: number
+          activities_removed: number
+          distance_before: number | null
+          distance_after: number | null
+          errors: string[]
+          started_at: string
+          finished_at: string | null
+          duration_ms: number | null
+        }
+        Insert: {
+          user_id: string
+          job_id?: string | null
+          trigger: 'manual' | 'webhook' | 'cron' | 'import'
+          triggered_by: string
+          mode: 'incremental' | 'full' | 'event'
+          distance_before?: number | null
+        }
+        Update: {
+          status?: 'running' | 'completed' | 'failed'
+          activities_fetched?: number
+          activities_qualified?: number
+          activities_inserted?: number
+          activities_updated?: number
+          activities_removed?: number
+          distance_after?: number | null
+          errors?: string[]
+          finished_at?: string | null
+          duration_ms?: number | null
+        }
+      }
+      activity_streams: {
+        Row: {
+          activity_id: number
+          user_id: string
+          point_count: number
+          // Encoded polyline
+          latlng: string | null
+          // Delta-encoded: altitude and distance in decimeters, time in seconds, heart rate in bpm
+          altitude: string | null
+          distance: string | null
+          time: string | null
+          heartrate: string | null
+          fetched_at: string
+        }
+        Insert: {
+          activity_id: number
+          user_id: string
+          point_count: number
+          latlng?: string | null
+          altitude?: string | null
+          distance?: string | null
+          time?: string | null
+          heartrate?: string | null
+          fetched_at?: string
+        }
+        Update: {
+          point_count?: number
+          latlng?: string | null
+          altitude?: string | null
+          distance?: string | null
+          time?: string | null
+          heartrate?: string | null
+          fetched_at?: string
+        }
+      }
+      goals: {
+        Row: {
+          id: number
+          user_id: string
+          name: string
+          metric: 'distance' | 'elevation' | 'count' | 'moving_time'
+          // In the metric's unit: km, meters, activities or hours
+          target: number
+          // ISO dates (YYYY-MM-DD), inclusive
+          start_date: string
+          deadline: string | null
+          // Only activities whose description contains this count; null counts all
+          hashtag: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          name: string
+          metric?: 'distance' | 'elevation' | 'count' | 'moving_time'
+          target: number
+          start_date: string
+          deadline?: string | null
+          hashtag?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          name?: string
+          metric?: 'distance' | 'elevation' | 'count' | 'moving_time'
+          target?: number
+          start_date?: string
+          deadline?: string | null
+          hashtag?: string | null
+          updated_at?: string
+        }
+      }
+      user_settings: {
+        Row: {
+          user_id: string
+          qualification_rules: QualificationRules | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          qualification_rules?: QualificationRules | null
+        }
+        Update: {
+          qualification_rules?: QualificationRules | null
         }
       }
     }
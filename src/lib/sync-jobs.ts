@@ -0,0 +1,498 @@
+import { logger } from '@/lib/logger'
+import { getRepositories, type SyncJobRow, type SyncJobUpdate } from '@/lib/repositories'
+import { getSyncQualificationRules } from '@/lib/user-settings'
+import { stravaAPI, toActivityInsert, type StravaActivity } from '@/lib/strava'
+import { StravaRateLimitError } from '@/lib/strava-rate-limit'
+import { reconcileActivities } from '@/lib/reconcile'
+import { startSyncRun, getSyncRunForJob, finishSyncRun, describeSyncError, type SyncRunCounts } from '@/lib/sync-runs'
+
+/**
+ * Background sync jobs. A job walks the athlete's Strava activities one page per step
+ * and persists its cursor and running totals in `sync_jobs` after every page, so a step
+ * that times out or fails only loses that page. The cursor is a start time rather than
+ * a page number, so activities deleted on Strava between steps can't shift a later
+ * page past one the job hasn't seen. Each page reconciles the stretch of history it
+ * covered, so the job row only holds counts, not every ID it has seen. Steps are driven
+ * by the cron worker route or by the dashboard while it polls; a short lease keeps two
+ * drivers from processing the same job at once.
+ */
+
+export type SyncJob = SyncJobRow
+export type SyncJobStatus = SyncJob['status']
+
+// Emitted as a job runs so callers can stream progress (see /api/sync-jobs/[id]/events)
+export type SyncProgressEvent =
+  | {
+      type: 'page'
+      page: number
+      fetched: number
+      qualified: number
+      upserted: number
+      detailFailures: number
+      job: ReturnType<typeof toSyncJobStatus>
+    }
+  | {
+      type: 'error'
+      message: string
+      willRetry: boolean
+      retryAt: string | null
+      job: ReturnType<typeof toSyncJobStatus>
+    }
+  | {
+      type: 'completed'
+      removed: number
+      job: ReturnType<typeof toSyncJobStatus>
+    }
+
+export type SyncProgressListener = (event: SyncProgressEvent) => void
+
+// Small pages keep each step (one list call plus detail fetches) well inside serverless timeouts
+const PAGE_SIZE = 50
+const LEASE_SECONDS = 60
+const MAX_ATTEMPTS = 5
+const JOB_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function isActive(job: SyncJob): boolean {
+  return job.status === 'pending' || job.status === 'running'
+}
+
+export async function getSyncJob(jobId: string): Promise<SyncJob | null> {
+  // Postgres rejects a malformed UUID outright; to callers it's just a job that doesn't exist
+  if (!JOB_ID.test(jobId)) return null
+
+  return getRepositories().syncJobs.getById(jobId)
+}
+
+interface CreateSyncJobOptions {
+  full?: boolean
+  trigger?: 'manual' | 'cron'
+  // Recorded on the sync run; defaults to the user themselves
+  triggeredBy?: string
+}
+
+/**
+ * Start a job for the user, or return the one already in progress so repeated clicks
+ * don't queue duplicate syncs.
+ */
+export async function createSyncJob(userId: string, options: CreateSyncJobOptions = {}): Promise<SyncJob> {
+  const { users, syncJobs } = getRepositories()
+  const existing = await syncJobs.findActive(userId)
+
+  if (existing) {
+    logger.info('Reusing active sync job', { jobId: existing.id, status: existing.status }, 'sync-jobs', userId)
+    return existing
+  }
+
+  const userData = await users.getById(userId)
+
+  if (!userData) {
+    logger.error('User not found while creating sync job', undefined, { userId }, 'sync-jobs', userId)
+    throw new Error('User not found')
+  }
+
+  const after = options.full ? null : userData.last_synced_at
+
+  const job = await syncJobs.insert({
+    user_id: userId,
+    mode: after ? 'incremental' : 'full',
+    after
+  })
+
+  await startSyncRun({
+    userId,
+    trigger: options.trigger ?? 'manual',
+    triggeredBy: options.triggeredBy ?? userId,
+    mode: job.mode,
+    jobId: job.id
+  })
+
+  logger.info('Sync job created', {
+    jobId: job.id,
+    mode: job.mode,
+    trigger: options.trigger ?? 'manual',
+    after: after ? new Date(after * 1000).toISOString() : null
+  }, 'sync-jobs', userId)
+
+  return job
+}
+
+/**
+ * Queue an incremental sync for every user without one in progress. Called by the
+ * cron worker so dashboards stay current without anyone pressing "Sync Activities".
+ */
+export async function enqueueScheduledSyncJobs(): Promise<number> {
+  const userIds = await getRepositories().users.listIds()
+
+  let enqueued = 0
+  for (const userId of userIds) {
+    try {
+      await createSyncJob(userId, { trigger: 'cron', triggeredBy: 'cron' })
+      enqueued++
+    } catch (error) {
+      // One user's failure shouldn't stop everyone else's sync
+      logger.error('Failed to enqueue scheduled sync', error, undefined, 'sync-jobs', userId)
+    }
+  }
+
+  logger.info('Scheduled syncs enqueued', { users: userIds.length, enqueued }, 'sync-jobs')
+
+  return enqueued
+}
+
+async function acquireLease(job: SyncJob): Promise<SyncJob | null> {
+  const now = new Date()
+  return getRepositories().syncJobs.acquireLease(job.id, {
+    status: 'running',
+    locked_until: new Date(now.getTime() + LEASE_SECONDS * 1000).toISOString(),
+    started_at: job.started_at || now.toISOString()
+  }, now.toISOString())
+}
+
+async function saveJob(jobId: string, update: SyncJobUpdate): Promise<SyncJob> {
+  return getRepositories().syncJobs.update(jobId, update)
+}
+
+function startSeconds(activity: StravaActivity): number {
+  return Math.floor(new Date(activity.start_date).getTime() / 1000)
+}
+
+/**
+ * Where the next page starts (Unix seconds, both exclusive). Incremental jobs list oldest
+ * first from the watermark, full jobs newest first. The cursor second itself is listed
+ * again, since more activities than fitted on the last page may share it.
+ */
+function nextPageBounds(job: SyncJob): { after?: number, before?: number } {
+  if (job.after) {
+    return { after: job.latest_start !== null ? Math.max(job.after, job.latest_start - 1) : job.after }
+  }
+  return { before: job.earliest_start !== null ? job.earliest_start + 1 : undefined }
+}
+
+/**
+ * Fetch, qualify and store one page, reconcile the stored rows it covers, then advance
+ * the cursor. A page with nothing new means the history is exhausted, so the job
+ * reconciles the rest of its range, moves the user's watermark and completes.
+ */
+async function processPage(job: SyncJob, onProgress?: SyncProgressListener): Promise<SyncJob> {
+  const userId = job.user_id
+
+  const { users, activities: activityRepository } = getRepositories()
+  const userData = await users.getById(userId)
+
+  if (!userData) {
+    throw new Error('User not found')
+  }
+
+  const accessToken = await stravaAPI.ensureValidToken(
+    userId,
+    userData.access_token,
+    userData.refresh_token,
+    userData.expires_at,
+    users
+  )
+
+  const bounds = nextPageBounds(job)
+  const listed = await stravaAPI.getActivities(accessToken, 1, PAGE_SIZE, bounds.after, bounds.before)
+  // The overlap lists the activities at the cursor second again; skip the ones already done
+  const done = new Set(job.cursor_ids)
+  const activities = listed.filter(activity => !done.has(activity.id.toString()))
+
+  if (activities.length === 0) {
+    return finishJob(job, listed, onProgress)
+  }
+
+  const rules = await getSyncQualificationRules(userId)
+  const { activities: detailed, failedIds } = await stravaAPI.getActivitiesWithDetails(accessToken, activities, rules)
+  const { qualifying } = stravaAPI.qualifyActivities(detailed, rules)
+
+  const { inserted, updated: updatedRows } = await activityRepository.upsert(
+    userId,
+    qualifying.map(activity => toActivityInsert(activity, userId))
+  )
+
+  const latestStart = stravaAPI.getLatestStartTime(listed)!
+  const earliestStart = stravaAPI.getEarliestStartTime(listed)!
+  const earliestFailedStart = stravaAPI.getEarliestStartTime(activities.filter(activity => failedIds.includes(activity.id)))
+
+  const qualifyingIds = [...job.cursor_kept_ids, ...qualifying.map(activity => activity.id.toString())]
+  const unknownIds = failedIds.map(id => id.toString())
+
+  // Everything between the old cursor and this page's far end, which the next page lists again
+  const boundary = job.after ? latestStart : earliestStart
+  const reconciliation = await reconcileActivities({
+    userId,
+    after: job.after ? bounds.after : boundary,
+    before: job.after ? boundary : bounds.before,
+    fetchedIds: listed.map(activity => activity.id.toString()),
+    qualifyingIds,
+    unknownIds
+  })
+
+  // Rows the next page's reconcile must keep: qualifying or unknown ones at the new cursor
+  const kept = new Set([...qualifyingIds, ...unknownIds])
+
+  const atBoundary = listed
+    .filter(activity => startSeconds(activity) === boundary)
+    .map(activity => activity.id.toString())
+
+  const updated = await saveJob(job.id, {
+    next_page: job.next_page + 1,
+    pages_fetched: job.pages_fetched + 1,
+    activities_fetched: job.activities_fetched + activities.length,
+    activities_qualified: job.activities_qualified + qualifying.length,
+    activities_upserted: job.activities_upserted + qualifying.length,
+    activities_inserted: job.activities_inserted + inserted,
+    activities_updated: job.activities_updated + updatedRows,
+    activities_removed: job.activities_removed + reconciliation.removed.length,
+    cursor_ids: atBoundary,
+    cursor_kept_ids: atBoundary.filter(id => kept.has(id)),
+    latest_start: Math.max(job.latest_start ?? 0, latestStart),
+    earliest_start: Math.min(job.earliest_start ?? earliestStart, earliestStart),
+    earliest_failed_start: earliestFailedStart === null
+      ? job.earliest_failed_start
+      : Math.min(job.earliest_failed_start ?? earliestFailedStart, earliestFailedStart),
+    attempts: 0,
+    error: null,
+    // Extend the lease for the next page
+    locked_until: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString()
+  })
+
+  logger.info('Sync job page processed', {
+    jobId: job.id,
+    page: job.next_page,
+    fetched: activities.length,
+    qualified: qualifying.length,
+    detailFailures: failedIds.length,
+    totalFetched: updated.activities_fetched
+  }, 'sync-jobs', userId)
+
+  onProgress?.({
+    type: 'page',
+    page: job.next_page,
+    fetched: activities.length,
+    qualified: qualifying.length,
+    upserted: qualifying.length,
+    detailFailures: failedIds.length,
+    job: toSyncJobStatus(updated)
+  })
+
+  return updated
+}
+
+// `listed` is the last page, which only repeated activities at the cursor second
+async function finishJob(job: SyncJob, listed: StravaActivity[], onProgress?: SyncProgressListener): Promise<SyncJob> {
+  const userId = job.user_id
+
+  // The rest of the job's range: past the cursor there is nothing left on Strava
+  const reconciliation = await reconcileActivities({
+    userId,
+    ...nextPageBounds(job),
+    fetchedIds: listed.map(activity => activity.id.toString()),
+    qualifyingIds: job.cursor_kept_ids,
+    unknownIds: []
+  })
+
+  // Never move the watermark past an activity whose details failed, so the next sync retries it
+  const watermark = job.earliest_failed_start !== null
+    ? job.earliest_failed_start - 1
+    : job.latest_start
+
+  if (watermark !== null && watermark > (job.after ?? 0)) {
+    try {
+      await getRepositories().users.update(userId, { last_synced_at: watermark })
+    } catch (watermarkError) {
+      // Not fatal: the next sync just re-fetches from the old watermark
+      logger.error('Failed to update sync watermark', watermarkError, {
+        jobId: job.id,
+        watermark
+      }, 'sync-jobs', userId)
+    }
+  }
+
+  const finished = await saveJob(job.id, {
+    status: 'completed',
+    activities_removed: job.activities_removed + reconciliation.removed.length,
+    finished_at: new Date().toISOString(),
+    locked_until: null,
+    error: null
+  })
+
+  await finishSyncRun(await getSyncRunForJob(job.id), 'completed', toSyncRunCounts(finished), finished.errors)
+
+  logger.info('Sync job completed', {
+    jobId: job.id,
+    pages: finished.pages_fetched,
+    fetched: finished.activities_fetched,
+    qualified: finished.activities_qualified,
+    removed: finished.activities_removed
+  }, 'sync-jobs', userId)
+
+  onProgress?.({
+    type: 'completed',
+    removed: finished.activities_removed,
+    job: toSyncJobStatus(finished)
+  })
+
+  return finished
+}
+
+async function recordFailure(job: SyncJob, error: unknown, onProgress?: SyncProgressListener): Promise<SyncJob> {
+  const message = describeSyncError(error)
+
+  if (error instanceof StravaRateLimitError) {
+    // Running out of budget isn't the job's fault: park it until the window resets
+    logger.warn('Sync job deferred by Strava rate limit', {
+      jobId: job.id,
+      retryAt: error.retryAt.toISOString()
+    }, 'sync-jobs', job.user_id)
+
+    const deferred = await saveJob(job.id, {
+      status: 'pending',
+      run_after: error.retryAt.toISOString(),
+      locked_until: null,
+      error: message,
+      errors: [...job.errors, message]
+    })
+
+    onProgress?.({
+      type: 'error',
+      message,
+      willRetry: true,
+      retryAt: deferred.run_after,
+      job: toSyncJobStatus(deferred)
+    })
+
+    return deferred
+  }
+
+  const attempts = job.attempts + 1
+  const failed = attempts >= MAX_ATTEMPTS || message.includes('Re-authentication required')
+
+  logger.error('Sync job step failed', error, {
+    jobId: job.id,
+    page: job.next_page,
+    attempts,
+    giveUp: failed
+  }, 'sync-jobs', job.user_id)
+
+  const updated = await saveJob(job.id, {
+    status: failed ? 'failed' : 'pending',
+    attempts,
+    // Back off a little more after each failed attempt
+    run_after: new Date(Date.now() + 30 * 1000 * attempts).toISOString(),
+    locked_until: null,
+    error: message,
+    errors: [...job.errors, message],
+    finished_at: failed ? new Date().toISOString() : null
+  })
+
+  if (failed) {
+    await finishSyncRun(await getSyncRunForJob(job.id), 'failed', toSyncRunCounts(updated), updated.errors)
+  }
+
+  onProgress?.({
+    type: 'error',
+    message,
+    willRetry: !failed,
+    retryAt: failed ? null : updated.run_after,
+    job: toSyncJobStatus(updated)
+  })
+
+  return updated
+}
+
+/**
+ * Run pages of one job until it finishes or the time budget is spent. Returns the job's
+ * latest state, or the unchanged job when another worker holds the lease or it isn't due yet.
+ */
+export async function runSyncJob(
+  job: SyncJob,
+  budgetMs = 8000,
+  onProgress?: SyncProgressListener
+): Promise<SyncJob> {
+  if (!isActive(job) || new Date(job.run_after).getTime() > Date.now()) {
+    return job
+  }
+
+  const leased = await acquireLease(job)
+  if (!leased) {
+    logger.debug('Sync job is leased by another worker', { jobId: job.id }, 'sync-jobs', job.user_id)
+    return job
+  }
+
+  const deadline = Date.now() + budgetMs
+  let current = leased
+
+  while (current.status === 'running' && Date.now() < deadline) {
+    try {
+      current = await processPage(current, onProgress)
+    } catch (error) {
+      return recordFailure(current, error, onProgress)
+    }
+  }
+
+  // Out of time: release the lease so the next driver can pick up where we stopped
+  if (current.status === 'running') {
+    current = await saveJob(current.id, { locked_until: null })
+  }
+
+  return current
+}
+
+/**
+ * Cron entry point: advance every due job within the overall time budget, oldest first.
+ */
+export async function runDueSyncJobs(budgetMs = 8000): Promise<SyncJob[]> {
+  const deadline = Date.now() + budgetMs
+
+  const jobs = await getRepositories().syncJobs.listDue(new Date().toISOString(), 10)
+
+  const processed: SyncJob[] = []
+  for (const job of jobs) {
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) break
+    processed.push(await runSyncJob(job, remaining))
+  }
+
+  logger.info('Sync worker pass completed', {
+    due: jobs.length,
+    processed: processed.length,
+    completed: processed.filter(job => job.status === 'completed').length
+  }, 'sync-jobs')
+
+  return processed
+}
+
+function toSyncRunCounts(job: SyncJob): SyncRunCounts {
+  return {
+    fetched: job.activities_fetched,
+    qualified: job.activities_qualified,
+    inserted: job.activities_inserted,
+    updated: job.activities_updated,
+    removed: job.activities_removed
+  }
+}
+
+/**
+ * The fields the dashboard needs to show progress, without the cursor bookkeeping.
+ */
+export function toSyncJobStatus(job: SyncJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    mode: job.mode,
+    pagesFetched: job.pages_fetched,
+    activitiesFetched: job.activities_fetched,
+    activitiesQualified: job.activities_qualified,
+    activitiesUpserted: job.activities_upserted,
+    activitiesInserted: job.activities_inserted,
+    activitiesUpdated: job.activities_updated,
+    activitiesRemoved: job.activities_removed,
+    attempts: job.attempts,
+    error: job.error,
+    runAfter: job.run_after,
+    startedAt: job.started_at,
+    finishedAt: job.finished_at,
+    createdAt: job.created_at
+  }
+}
@@ -0,0 +1,176 @@
+import { logger } from '@/lib/logger'
+import { getRepositories, type SyncRunRow } from '@/lib/repositories'
+
+/**
+ * Audit trail of syncs. Every manual sync, sync job and webhook event writes one
+ * `sync_runs` row recording who started it, what it changed and the stored total
+ * before and after. Writes here are best-effort: a failed audit write is logged but
+ * never fails the sync itself.
+ */
+
+export type SyncRun = SyncRunRow
+export type SyncRunTrigger = SyncRun['trigger']
+
+export interface SyncRunCounts {
+  fetched: number
+  qualified: number
+  inserted: number
+  updated: number
+  removed: number
+}
+
+interface StartSyncRunOptions {
+  userId: string
+  trigger: SyncRunTrigger
+  // User ID for manual syncs and imports, 'strava' for webhook events, 'cron' for scheduled syncs
+  triggeredBy: string
+  mode: SyncRun['mode']
+  jobId?: string
+  requestId?: string
+}
+
+/**
+ * A readable message for the run's error list. Supabase errors are plain objects with
+ * a `message`, not Error instances.
+ */
+export function describeSyncError(error: unknown): string {
+  if (error instanceof Error) return error.message
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+    return error.message
+  }
+  return String(error)
+}
+
+async function getStoredDistance(userId: string): Promise<number | null> {
+  try {
+    const { totalDistance } = await getRepositories().activities.aggregate(userId)
+    return totalDistance
+  } catch (error) {
+    logger.error('Failed to total stored distance for sync run', error, { userId }, 'sync-runs', userId)
+    return null
+  }
+}
+
+export async function startSyncRun({
+  userId,
+  trigger,
+  triggeredBy,
+  mode,
+  jobId,
+  requestId
+}: StartSyncRunOptions): Promise<SyncRun | null> {
+  const distanceBefore = await getStoredDistance(userId)
+
+  let data: SyncRun
+  try {
+    data = await getRepositories().syncRuns.insert({
+      user_id: userId,
+      job_id: jobId ?? null,
+      trigger,
+      triggered_by: triggeredBy,
+      mode,
+      distance_before: distanceBefore
+    })
+  } catch (error) {
+    logger.error('Failed to record sync run start', error, {
+      userId,
+      trigger,
+      jobId
+    }, 'sync-runs', userId, requestId)
+    return null
+  }
+
+  logger.debug('Sync run started', { runId: data.id, trigger, mode, jobId }, 'sync-runs', userId, requestId)
+
+  return data
+}
+
+export async function getSyncRunForJob(jobId: string): Promise<SyncRun | null> {
+  try {
+    return await getRepositories().syncRuns.getByJobId(jobId)
+  } catch (error) {
+    logger.error('Failed to fetch sync run for job', error, { jobId }, 'sync-runs')
+    return null
+  }
+}
+
+/**
+ * Close a run with its final counts. Accepts the null returned by a failed
+ * `startSyncRun` so callers don't have to branch.
+ */
+export async function finishSyncRun(
+  run: SyncRun | null,
+  status: 'completed' | 'failed',
+  counts: Partial<SyncRunCounts>,
+  errors: string[] = [],
+  requestId?: string
+): Promise<void> {
+  if (!run) return
+
+  const finishedAt = new Date()
+  const distanceAfter = await getStoredDistance(run.user_id)
+
+  try {
+    await getRepositories().syncRuns.update(run.id, {
+      status,
+      activities_fetched: counts.fetched ?? 0,
+      activities_qualified: counts.qualified ?? 0,
+      activities_inserted: counts.inserted ?? 0,
+      activities_updated: counts.updated ?? 0,
+      activities_removed: counts.removed ?? 0,
+      distance_after: distanceAfter,
+      errors,
+      finished_at: finishedAt.toISOString(),
+      duration_ms: finishedAt.getTime() - new Date(run.started_at).getTime()
+    })
+  } catch (error) {
+    logger.error('Failed to record sync run result', error, {
+      runId: run.id,
+      status
+    }, 'sync-runs', run.user_id, requestId)
+    return
+  }
+
+  logger.info('Sync run recorded', {
+    runId: run.id,
+    trigger: run.trigger,
+    status,
+    ...counts,
+    distanceChange: distanceAfter !== null && run.distance_before !== null
+      ? Math.round(distanceAfter - run.distance_before)
+      : null,
+    errors: errors.length
+  }, 'sync-runs', run.user_id, requestId)
+}
+
+export async function listSyncRuns(userId: string, limit = 20): Promise<SyncRun[]> {
+  return getRepositories().syncRuns.listByUser(userId, limit)
+}
+
+export function toSyncRunSummary(run: SyncRun) {
+  return {
+    id: run.id,
+    jobId: run.job_id,
+    trigger: run.trigger,
+    triggeredBy: run.triggered_by,
+    mode: run.mode,
+    status: run.status,
+    fetched: run.activities_fetched,
+    qualified: run.activities_qualified,
+    inserted: run.activities_inserted,
+    updated: run.activities_updated,
+    removed: run.activities_removed,
+    distanceBefore: run.distance_before,
+    distanceAfter: run.distance_after,
+    // Meters the run added to (or took off) the stored total
+    distanceChange: run.distance_after !== null && run.distance_before !== null
+      ? run.distance_after - run.distance_before
+      : null,
+    errors: run.errors,
+    startedAt: run.started_at,
+    finishedAt: run.finished_at,
+    durationMs: run.duration_ms
+  }
+}
+
+export type SyncRunSummary = ReturnType<typeof toSyncRunSummary>
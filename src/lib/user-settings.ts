@@ -0,0 +1,35 @@
+import { logger } from '@/lib/logger'
+import { getRepositories } from '@/lib/repositories'
+import { normalizeQualificationRules, type QualificationRules } from '@/lib/qualification'
+import { listGoals, withGoalHashtags } from '@/lib/goals'
+
+// The user's qualification rules, or the defaults when they've never saved any
+export async function getQualificationRules(userId: string): Promise<QualificationRules> {
+  logger.info('Fetching qualification rules', { userId }, 'user-settings')
+
+  const settings = await getRepositories().settings.get(userId)
+  const rules = normalizeQualificationRules(settings?.qualification_rules)
+
+  logger.info('Qualification rules fetched', {
+    userId,
+    usingDefaults: !settings?.qualification_rules,
+    rules
+  }, 'user-settings')
+
+  return rules
+}
+
+// The rules syncs and imports qualify activities with: the user's rules, with their goals'
+// hashtags accepted in place of the required ones
+export async function getSyncQualificationRules(userId: string): Promise<QualificationRules> {
+  const [rules, goals] = await Promise.all([getQualificationRules(userId), listGoals(userId)])
+  return withGoalHashtags(rules, goals)
+}
+
+export async function saveQualificationRules(userId: string, rules: QualificationRules): Promise<void> {
+  logger.info('Saving qualification rules', { userId, rules }, 'user-settings')
+
+  await getRepositories().settings.save({ user_id: userId, qualification_rules: rules })
+
+  logger.info('Qualification rules saved', { userId }, 'user-settings')
+}
@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { ActivityFileError, detectFormat, parseActivityFile } from '@/lib/activity-files'
+import { parseFit } from '@/lib/activity-files/fit'
+import { parseGpx } from '@/lib/activity-files/gpx'
+import { buildFit, type FitRecord } from './helpers/fit'
+
+/**
+ * GPX, TCX and FIT parsing and the track summaries built from them.
+ */
+
+const START = Date.parse('2025-05-10T08:00:00Z')
+
+// A kilometre north along the trail, climbing 20 m every 20 seconds
+function records(count: number, compressed = false): FitRecord[] {
+  return Array.from({ length: count }, (_, index) => ({
+    time: new Date(START + index * 20_000),
+    lat: 46.5 + index * 0.003,
+    lng: 8.0,
+    altitude: 1200 + index * 20,
+    distance: index * 333.5,
+    compressed: compressed && index > 0
+  }))
+}
+
+const gpx = (body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">${body}</gpx>`
+
+const point = (tag: string, index: number, extra = '') =>
+  `<${tag} lat="${46.5 + index * 0.003}" lon="8.0"><ele>${1200 + index * 20}</ele>` +
+  `<time>${new Date(START + index * 20_000).toISOString()}</time>${extra}</${tag}>`
+
+describe('FIT files', () => {
+  it('reads records, the device odometer and the session sport', () => {
+    const parsed = parseActivityFile('morning.fit', buildFit(records(4), 17))
+    assert.equal(parsed.format, 'fit')
+    assert.equal(parsed.sportType, 'Hike')
+    assert.equal(parsed.summary.startDate.getTime(), START)
+    assert.equal(parsed.summary.elapsedTime, 60)
+    assert.ok(Math.abs(parsed.summary.distance - 1000.5) < 0.01)
+    assert.equal(parsed.summary.elevationGain, 60)
+    assert.deepEqual(parsed.summary.startLatLng?.map(value => value.toFixed(5)), ['46.50000', '8.00000'])
+  })
+
+  it('resolves compressed timestamps across the 32 second rollover', () => {
+    const { points } = parseFit(buildFit(records(4, true)))
+    assert.deepEqual(
+      points.map(point => point.time?.getTime()),
+      [START, START + 20_000, START + 40_000, START + 60_000]
+    )
+  })
+
+  it('rejects a file that ends mid-message', () => {
+    const fit = buildFit(records(4))
+    assert.throws(() => parseFit(fit.subarray(0, fit.length - 8)), new ActivityFileError('FIT file is truncated or corrupt'))
+  })
+
+  it('rejects data that is not FIT', () => {
+    assert.throws(() => parseFit(Buffer.from('not a fit file at all')), /Not a FIT file/)
+  })
+})
+
+describe('GPX files', () => {
+  it('reads a track and its own name, not a point name', () => {
+    const parsed = parseActivityFile('hike.gpx', Buffer.from(gpx(
+      `<trk><name>Ridge walk</name><type>hiking</type><trkseg>${point('trkpt', 0, '<name>Start</name>')}${point('trkpt', 1)}</trkseg>` +
+      `<trkseg>${point('trkpt', 2)}</trkseg></trk>`
+    )))
+    assert.equal(parsed.name, 'Ridge walk')
+    assert.equal(parsed.sportType, 'Hike')
+    assert.equal(parsed.summary.elapsedTime, 40)
+    assert.equal(parsed.summary.elevationGain, 40)
+  })
+
+  it('falls back to route points when the file has no track', () => {
+    const track = parseGpx(gpx(
+      `<metadata><name>Planned loop</name></metadata><rte><name>Loop</name>${point('rtept', 0)}${point('rtept', 1)}${point('rtept', 2)}</rte>`
+    ))
+    assert.equal(track.name, 'Planned loop')
+    assert.equal(track.points.length, 3)
+    assert.deepEqual(track.points.map(point => point.elevation), [1200, 1220, 1240])
+  })
+
+  it('ignores a byte order mark before the XML declaration', () => {
+    const content = Buffer.from(`\uFEFF${gpx(`<trk><trkseg>${point('trkpt', 0)}${point('trkpt', 1)}</trkseg></trk>`)}`)
+    assert.equal(parseActivityFile('hike.gpx', content).summary.startDate.getTime(), START)
+  })
+
+  it('refuses a file without track points', () => {
+    assert.throws(() => parseActivityFile('empty.gpx', Buffer.from(gpx('<trk><trkseg></trkseg></trk>'))), /contains no track points/)
+  })
+})
+
+describe('TCX files', () => {
+  it('joins the laps of the first activity', () => {
+    const trackpoint = (index: number) =>
+      `<Trackpoint><Time>${new Date(START + index * 20_000).toISOString()}</Time>` +
+      `<Position><LatitudeDegrees>${46.5 + index * 0.003}</LatitudeDegrees><LongitudeDegrees>8.0</LongitudeDegrees></Position>` +
+      `<AltitudeMeters>${1200 + index * 20}</AltitudeMeters><DistanceMeters>${index * 333.5}</DistanceMeters>` +
+      `<HeartRateBpm><Value>${120 + index}</Value></HeartRateBpm></Trackpoint>`
+    const tcx = `<?xml version="1.0"?><TrainingCenterDatabase><Activities><Activity Sport="Hiking"><Id>x</Id><Notes>Lake loop</Notes>` +
+      `<Lap><Track>${trackpoint(0)}${trackpoint(1)}</Track></Lap><Lap><Track>${trackpoint(2)}</Track></Lap>` +
+      '</Activity></Activities></TrainingCenterDatabase>'
+
+    const parsed = parseActivityFile('lake.tcx', Buffer.from(tcx))
+    assert.equal(parsed.name, 'Lake loop')
+    assert.equal(parsed.sportType, 'Hike')
+    assert.equal(parsed.summary.distance, 667)
+    assert.equal(parsed.summary.maxHeartrate, 122)
+  })
+})
+
+describe('detectFormat', () => {
+  it('sniffs files saved without a usable extension', () => {
+    assert.equal(detectFormat('upload', buildFit(records(2))), 'fit')
+    assert.equal(detectFormat('upload.xml', Buffer.from(gpx(''))), 'gpx')
+    assert.throws(() => detectFormat('notes.txt', Buffer.from('hello')), ActivityFileError)
+  })
+})
@@ -0,0 +1,145 @@
+// Must load first: installs the AsyncLocalStorage global Next's request storage needs
+import 'next/dist/server/node-environment-baseline'
+import assert from 'node:assert/strict'
+import { beforeEach, describe, it } from 'node:test'
+import { createInMemoryRepositories, setRepositories, type Repositories } from '@/lib/repositories'
+import { GET as getQualificationRules, PUT as putQualificationRules } from '@/app/api/qualification-rules/route'
+import { POST as createSyncJob } from '@/app/api/sync-jobs/route'
+import { GET as getSyncJob } from '@/app/api/sync-jobs/[id]/route'
+import { GET as getSyncRuns } from '@/app/api/sync-runs/route'
+import { GET as getActivities } from '@/app/api/activities/route'
+import { GET as getGoals } from '@/app/api/goals/route'
+import { GET as getForecast } from '@/app/api/progress/forecast/route'
+import { asUser, request } from './helpers/routes'
+
+/**
+ * Route handlers against the in-memory store (run with DATA_STORE=memory, see the
+ * `test` script), with the session cookie set the way Next sets it for a request.
+ */
+
+const USER_ID = '12345'
+
+describe('API routes on the in-memory store', () => {
+  let repositories: Repositories
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories()
+    setRepositories(repositories)
+    await repositories.users.upsert({
+      id: USER_ID,
+      strava_id: USER_ID,
+      access_token: 'access',
+      refresh_token: 'refresh',
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      last_synced_at: null
+    })
+  })
+
+  it('rejects anonymous requests', async () => {
+    const response = await asUser(null, () => getQualificationRules(request('/api/qualification-rules')))
+    assert.equal(response.status, 401)
+  })
+
+  it('saves and reads back qualification rules', async () => {
+    const saved = await asUser(USER_ID, () => putQualificationRules(request('/api/qualification-rules', {
+      method: 'PUT',
+      body: { sportTypes: ['Hike', 'Walk'], minDistance: 2000 }
+    })))
+    assert.equal(saved.status, 200)
+
+    const response = await asUser(USER_ID, () => getQualificationRules(request('/api/qualification-rules')))
+    const { rules } = await response.json()
+    assert.deepEqual(rules.sportTypes, ['Hike', 'Walk'])
+    assert.equal(rules.minDistance, 2000)
+  })
+
+  it('creates a sync job once and records its run', async () => {
+    const created = await asUser(USER_ID, () => createSyncJob(request('/api/sync-jobs', { method: 'POST' })))
+    assert.equal(created.status, 202)
+    const { job } = await created.json()
+    assert.equal(job.status, 'pending')
+    assert.equal(job.mode, 'full')
+
+    // A second click reuses the job in progress
+    const again = await asUser(USER_ID, () => createSyncJob(request('/api/sync-jobs', { method: 'POST' })))
+    assert.equal((await again.json()).job.id, job.id)
+
+    const fetched = await asUser(USER_ID, () => getSyncJob(request(`/api/sync-jobs/${job.id}`), {
+      params: Promise.resolve({ id: job.id })
+    }))
+    assert.equal(fetched.status, 200)
+
+    const runs = await asUser(USER_ID, () => getSyncRuns(request('/api/sync-runs')))
+    const body = await runs.json()
+    assert.equal(body.runs.length, 1)
+    assert.equal(body.runs[0].jobId, job.id)
+    assert.equal(body.runs[0].status, 'running')
+  })
+
+  it('answers 404 for malformed and other users\' sync job IDs', async () => {
+    const malformed = await asUser(USER_ID, () => getSyncJob(request('/api/sync-jobs/not-a-uuid'), {
+      params: Promise.resolve({ id: 'not-a-uuid' })
+    }))
+    assert.equal(malformed.status, 404)
+
+    const job = await repositories.syncJobs.insert({ user_id: 'someone-else', mode: 'full' })
+    const foreign = await asUser(USER_ID, () => getSyncJob(request(`/api/sync-jobs/${job.id}`), {
+      params: Promise.resolve({ id: job.id })
+    }))
+    assert.equal(foreign.status, 404)
+  })
+
+  it('returns the progress toward every challenge with the activities', async () => {
+    await repositories.goals.insert({ user_id: USER_ID, name: '1000 km', metric: 'distance', target: 1000, start_date: '2025-01-01' })
+    await repositories.goals.insert({ user_id: USER_ID, name: '52 summits', metric: 'count', target: 52, start_date: '2025-01-01' })
+    await repositories.activities.insert({
+      user_id: USER_ID,
+      source: 'manual',
+      name: 'Ridge walk',
+      type: 'Hike',
+      distance: 12000,
+      moving_time: 3600,
+      elevation_gain: 600,
+      start_date: '2025-03-01T08:00:00Z'
+    })
+
+    const response = await asUser(USER_ID, () => getActivities(request('/api/activities')))
+    const { activities, stats } = await response.json()
+    assert.equal(activities.length, 1)
+    const values = Object.fromEntries(stats.challenges.map((challenge: { goal: { name: string }, value: number }) => [challenge.goal.name, challenge.value]))
+    assert.deepEqual(values, { '1000 km': 12, '52 summits': 1 })
+    assert.equal(stats.active.totalKm, 12)
+    assert.deepEqual(JSON.parse(response.headers.get('X-Stats')!), stats.active)
+  })
+
+  it('serves goal names outside Latin-1 and leaves out distance views without a distance goal', async () => {
+    await repositories.goals.insert({
+      user_id: USER_ID,
+      name: 'Summits 🏔',
+      metric: 'count',
+      target: 52,
+      start_date: '2025-01-01'
+    })
+
+    const activities = await asUser(USER_ID, () => getActivities(request('/api/activities')))
+    assert.equal(activities.status, 200)
+    assert.equal(activities.headers.get('X-Stats'), null)
+    const { stats } = await activities.json()
+    assert.deepEqual(stats.challenges.map((challenge: { goal: { name: string } }) => challenge.goal.name), ['Summits 🏔'])
+    assert.equal(stats.active, null)
+
+    const goals = await asUser(USER_ID, () => getGoals(request('/api/goals')))
+    assert.equal((await goals.json()).activeGoalId, null)
+
+    const forecast = await asUser(USER_ID, () => getForecast(request('/api/progress/forecast')))
+    assert.equal(forecast.status, 404)
+  })
+
+  it('measures users without goals against the default 3800 km', async () => {
+    const activities = await asUser(USER_ID, () => getActivities(request('/api/activities')))
+    assert.equal(JSON.parse(activities.headers.get('X-Stats')!).goalKm, 3800)
+
+    const forecast = await asUser(USER_ID, () => getForecast(request('/api/progress/forecast')))
+    assert.equal(forecast.status, 200)
+  })
+})
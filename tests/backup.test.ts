@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict'
+import { beforeEach, describe, it } from 'node:test'
+import { createInMemoryRepositories, setRepositories, type Repositories, type StravaActivityInsert } from '@/lib/repositories'
+import { createBackup, restoreBackup } from '@/lib/backup'
+
+/**
+ * Backup and restore against the in-memory store.
+ */
+
+const ALICE = '111'
+const BOB = '222'
+
+function hike(userId: string, stravaId: string, name: string): StravaActivityInsert {
+  return {
+    strava_id: stravaId,
+    source: 'strava',
+    user_id: userId,
+    name,
+    type: 'Hike',
+    distance: 10000,
+    moving_time: 3600,
+    elevation_gain: 300,
+    start_date: '2025-05-01T08:00:00.000Z'
+  }
+}
+
+describe('restoreBackup', () => {
+  let repositories: Repositories
+
+  beforeEach(async () => {
+    repositories = createInMemoryRepositories()
+    setRepositories(repositories)
+    for (const id of [ALICE, BOB]) {
+      await repositories.users.upsert({
+        id,
+        strava_id: id,
+        access_token: 'access',
+        refresh_token: 'refresh',
+        expires_at: Math.floor(Date.now() / 1000) + 3600,
+        last_synced_at: null
+      })
+    }
+    await repositories.activities.upsert(ALICE, [hike(ALICE, '9001', 'Alice on the ridge')])
+  })
+
+  it('restores a bundle into its own user', async () => {
+    const bundle = await createBackup(ALICE)
+    await repositories.activities.deleteByStravaIds(ALICE, ['9001'])
+
+    const result = await restoreBackup(ALICE, bundle)
+    assert.equal(result.inserted, 1)
+    assert.equal(result.skipped, 0)
+    assert.equal((await repositories.activities.listByUser(ALICE)).length, 1)
+  })
+
+  it('cannot take over another user\'s activities with a forged bundle', async () => {
+    // Alice's export, relabelled as Bob's and with the activity renamed
+    const bundle = await createBackup(ALICE)
+    bundle.user.id = BOB
+    bundle.activities[0].name = 'Stolen'
+    bundle.activities.push({ ...bundle.activities[0], strava_id: '9002', name: 'Bob at the lake' })
+
+    const result = await restoreBackup(BOB, bundle)
+    assert.equal(result.skipped, 1)
+    assert.equal(result.inserted, 1)
+
+    const [alices] = await repositories.activities.listByUser(ALICE)
+    assert.equal(alices.strava_id, '9001')
+    assert.equal(alices.name, 'Alice on the ridge')
+
+    const bobs = await repositories.activities.listByUser(BOB)
+    assert.deepEqual(bobs.map(activity => activity.strava_id), ['9002'])
+  })
+})
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict'
+import { beforeEach, describe, it } from 'node:test'
+import { createInMemoryRepositories, type ActivityInsert, type ActivityRow, type Repositories } from '@/lib/repositories'
+import { toExportRecord, toGpx } from '@/lib/export'
+import { encodePolyline } from '@/lib/polyline'
+import type { ActivityStreams } from '@/lib/activity-streams'
+
+/**
+ * CSV/JSON records and GPX tracks built from stored rows.
+ */
+
+const USER_ID = '12345'
+
+const ROUTE: [number, number][] = [[37.9235, -122.5965], [37.9241, -122.5971], [37.9250, -122.5980]]
+
+describe('exports', () => {
+  let repositories: Repositories
+
+  const store = (activity: Partial<ActivityInsert>): Promise<ActivityRow> => repositories.activities.insert({
+    user_id: USER_ID,
+    source: 'upload',
+    name: 'Evening loop',
+    type: 'Hike',
+    distance: 8000,
+    moving_time: 7200,
+    elevation_gain: 400,
+    start_date: '2025-06-01T03:30:00Z',
+    ...activity
+  })
+
+  beforeEach(() => {
+    repositories = createInMemoryRepositories()
+  })
+
+  it('dates an activity by the day it started where it happened', async () => {
+    // 20:30 on May 31st in California is already June 1st in UTC
+    const local = await store({ start_date_local: '2025-05-31T20:30:00Z' })
+    assert.equal(toExportRecord(local).date, '2025-05-31')
+
+    const utc = await store({ start_date_local: null })
+    assert.equal(toExportRecord(utc).date, '2025-06-01')
+  })
+
+  it('writes every stored stream point with its elevation and time', async () => {
+    const row = await store({ summary_polyline: encodePolyline(ROUTE.slice(0, 2)) })
+    const streams: ActivityStreams = {
+      pointCount: 3,
+      latlng: ROUTE,
+      altitude: [100, 105.5, 111],
+      distance: [0, 80, 170],
+      time: [0, 60, 130],
+      heartrate: null
+    }
+
+    const { gpx, skipped } = toGpx([row], new Map([[row.id, streams]]))
+    assert.equal(skipped, 0)
+    assert.equal(gpx.match(/<trkpt /g)?.length, 3)
+    assert.match(gpx, /<trkpt lat="37\.925000" lon="-122\.598000"><ele>111\.0<\/ele><time>2025-06-01T03:32:10\.000Z<\/time><\/trkpt>/)
+  })
+
+  it('falls back to the summary route and leaves out activities without a track', async () => {
+    const routed = await store({ summary_polyline: encodePolyline(ROUTE) })
+    const manual = await store({ source: 'manual', summary_polyline: null })
+
+    const { gpx, skipped } = toGpx([routed, manual])
+    assert.equal(skipped, 1)
+    assert.equal(gpx.match(/<trkpt lat="[-\d.]+" lon="[-\d.]+"\/>/g)?.length, 3)
+  })
+})
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { calculateGoalStats, countsTowardGoal, DEFAULT_GOAL, selectActiveGoal, withGoalHashtags, type Goal } from '@/lib/goals'
+import { DEFAULT_QUALIFICATION_RULES, evaluateActivity } from '@/lib/qualification'
+import type { StravaActivity } from '@/lib/strava'
+
+const SUMMITS: Goal = { ...DEFAULT_GOAL, id: 1, name: '52 summits', metric: 'count', target: 52, hashtag: '#summit' }
+
+describe('countsTowardGoal', () => {
+  const hike = { start_date: '2025-06-01T08:00:00Z' }
+
+  it('requires the hashtag on Strava activities', () => {
+    assert.equal(countsTowardGoal({ ...hike, source: 'strava', description: 'Up #Summit' }, SUMMITS), true)
+    assert.equal(countsTowardGoal({ ...hike, source: 'strava', description: 'Valley walk' }, SUMMITS), false)
+    assert.equal(countsTowardGoal({ ...hike, description: null }, SUMMITS), false)
+  })
+
+  it('counts uploaded and manual activities without one', () => {
+    assert.equal(countsTowardGoal({ ...hike, source: 'upload', description: null }, SUMMITS), true)
+    assert.equal(countsTowardGoal({ ...hike, source: 'manual' }, SUMMITS), true)
+  })
+
+  it('still applies the dates to every source', () => {
+    const goal = { ...SUMMITS, startDate: '2025-06-02' }
+    assert.equal(countsTowardGoal({ ...hike, source: 'manual' }, goal), false)
+  })
+})
+
+describe('selectActiveGoal', () => {
+  const now = new Date('2025-06-01T12:00:00Z')
+  const distance: Goal = { ...DEFAULT_GOAL, id: 2, name: '1000 km', target: 1000, startDate: '2025-01-01' }
+
+  it('falls back to the default goal only for users without goals', () => {
+    assert.equal(selectActiveGoal([], now), DEFAULT_GOAL)
+    assert.equal(selectActiveGoal([SUMMITS], now), null)
+    assert.equal(selectActiveGoal([SUMMITS, distance], now), distance)
+  })
+})
+
+describe('withGoalHashtags', () => {
+  const hike = {
+    id: 1,
+    name: 'Ridge walk',
+    type: 'Hike',
+    sport_type: 'Hike',
+    distance: 12000,
+    moving_time: 3600,
+    elapsed_time: 4000,
+    total_elevation_gain: 600,
+    start_date: '2025-06-01T08:00:00Z',
+    start_date_local: '2025-06-01T10:00:00Z',
+    description: 'Long day #5000km'
+  } as StravaActivity
+  const fiveThousand: Goal = { ...DEFAULT_GOAL, id: 3, name: '5000 km', target: 5000, hashtag: '#5000km' }
+
+  it('accepts a goal hashtag in place of the required one', () => {
+    assert.equal(evaluateActivity(hike, DEFAULT_QUALIFICATION_RULES).qualifies, false)
+
+    const rules = withGoalHashtags(DEFAULT_QUALIFICATION_RULES, [fiveThousand])
+    assert.deepEqual(rules.requiredHashtags, ['#3800km', '#5000km'])
+    assert.equal(evaluateActivity(hike, rules).qualifies, true)
+    assert.equal(countsTowardGoal({ ...hike, source: 'strava' }, fiveThousand), true)
+  })
+
+  it('leaves rules without a required hashtag alone', () => {
+    const rules = { ...DEFAULT_QUALIFICATION_RULES, requiredHashtags: [] }
+    assert.equal(withGoalHashtags(rules, [fiveThousand]), rules)
+    assert.deepEqual(withGoalHashtags(DEFAULT_QUALIFICATION_RULES, [{ ...fiveThousand, hashtag: '#3800KM' }]).requiredHashtags, ['#3800km'])
+  })
+})
+
+describe('calculateGoalStats', () => {
+  it('stops counting down once the goal is reached', () => {
+    const hikes = [{ distance: 30000, moving_time: 3600, elevation_gain: 0, start_date: '2025-06-01T08:00:00Z' }]
+    const stats = calculateGoalStats(hikes, { ...DEFAULT_GOAL, target: 20 })
+    assert.equal(stats.totalKm, 30)
+    assert.equal(stats.remainingKm, 0)
+  })
+})
@@ -0,0 +1,42 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import type { AddressInfo } from 'net'
+import { createFakeStravaServer, type FakeStravaFixtures, type FakeStravaOptions } from '../../scripts/fake-strava/server'
+
+/**
+ * The fake Strava server from scripts/fake-strava on a free port, with STRAVA_BASE_URL
+ * pointed at it. Loads the same fixtures as `npm run fake-strava`.
+ */
+
+export const fixtures = JSON.parse(
+  readFileSync(path.resolve(process.cwd(), 'scripts/fake-strava/fixtures.json'), 'utf8')
+) as FakeStravaFixtures
+
+export const FAKE_ATHLETE_ID = fixtures.athlete.id.toString()
+export const FAKE_TOKENS = fixtures.tokens!
+
+export async function startFakeStrava(options: Partial<FakeStravaOptions> = {}) {
+  const fake = createFakeStravaServer({ fixtures, ...options })
+  await new Promise<void>(resolve => fake.server.listen(0, '127.0.0.1', resolve))
+
+  const { port } = fake.server.address() as AddressInfo
+  const baseUrl = `http://127.0.0.1:${port}`
+  process.env.STRAVA_BASE_URL = baseUrl
+
+  return {
+    ...fake,
+    baseUrl,
+    // Control endpoints, e.g. control('DELETE', '/__fake/activities/9000000001')
+    control: (method: string, pathname: string, body?: unknown) => fetch(`${baseUrl}${pathname}`, {
+      method,
+      headers: { 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }),
+    close: () => new Promise<void>(resolve => {
+      fake.server.closeAllConnections()
+      fake.server.close(() => resolve())
+    })
+  }
+}
+
+export type RunningFakeStrava = Awaited<ReturnType<typeof startFakeStrava>>
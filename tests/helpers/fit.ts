@@ -0,0 +1,72 @@
+/**
+ * Builds a little-endian FIT file in memory: `record` messages and, with `sport`, a
+ * `session`. Records marked `compressed` use a compressed timestamp header instead of a
+ * timestamp field. CRCs are left at zero; parseFit doesn't check them.
+ */
+
+export interface FitRecord {
+  time: Date
+  lat: number
+  lng: number
+  // Meters
+  altitude: number
+  distance: number
+  compressed?: boolean
+}
+
+const FIT_EPOCH_SECONDS = 631065600
+
+// Field number, size and base type of each record field, in write order
+const TIMESTAMP = [253, 4, 0x86]
+const RECORD_FIELDS = [[0, 4, 0x85], [1, 4, 0x85], [2, 2, 0x84], [5, 4, 0x86]]
+
+function definition(localType: number, globalNumber: number, fields: number[][]): Buffer {
+  const message = Buffer.alloc(6 + fields.length * 3)
+  message.writeUInt8(0x40 | localType, 0)
+  message.writeUInt16LE(globalNumber, 3)
+  message.writeUInt8(fields.length, 5)
+  fields.forEach((field, index) => Buffer.from(field).copy(message, 6 + index * 3))
+  return message
+}
+
+function recordValues(record: FitRecord): Buffer {
+  const values = Buffer.alloc(14)
+  values.writeInt32LE(Math.round(record.lat * 2 ** 31 / 180), 0)
+  values.writeInt32LE(Math.round(record.lng * 2 ** 31 / 180), 4)
+  values.writeUInt16LE(Math.round((record.altitude + 500) * 5), 8)
+  values.writeUInt32LE(Math.round(record.distance * 100), 10)
+  return values
+}
+
+export function buildFit(records: FitRecord[], sport?: number): Buffer {
+  const messages: Buffer[] = [
+    definition(0, 20, [TIMESTAMP, ...RECORD_FIELDS]),
+    // Compressed timestamp headers only address local types 0-3
+    definition(1, 20, RECORD_FIELDS)
+  ]
+
+  for (const record of records) {
+    const timestamp = Math.round(record.time.getTime() / 1000) - FIT_EPOCH_SECONDS
+    if (record.compressed) {
+      messages.push(Buffer.from([0x80 | (1 << 5) | (timestamp & 0x1f)]), recordValues(record))
+    } else {
+      const time = Buffer.alloc(4)
+      time.writeUInt32LE(timestamp)
+      messages.push(Buffer.from([0x00]), time, recordValues(record))
+    }
+  }
+
+  if (sport !== undefined) {
+    messages.push(definition(2, 18, [[5, 1, 0x00]]), Buffer.from([0x02, sport]))
+  }
+
+  const data = Buffer.concat(messages)
+  const header = Buffer.alloc(14)
+  header.writeUInt8(14, 0)
+  header.writeUInt8(0x20, 1)
+  header.writeUInt16LE(2132, 2)
+  header.writeUInt32LE(data.length, 4)
+  header.write('.FIT', 8, 'ascii')
+
+  return Buffer.concat([header, data, Buffer.alloc(2)])
+}
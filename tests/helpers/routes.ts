@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server'
+import { RequestCookies } from 'next/dist/server/web/spec-extension/cookies'
+import { workUnitAsyncStorage, type RequestStore } from 'next/dist/server/app-render/work-unit-async-storage.external'
+import { USER_COOKIE } from '@/lib/auth'
+
+/**
+ * Calling route handlers the way Next does. Test files using these must import
+ * 'next/dist/server/node-environment-baseline' before anything else.
+ */
+
+export function request(path: string, init: { method?: string, body?: unknown } = {}): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method: init.method ?? 'GET',
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    headers: { 'content-type': 'application/json' }
+  })
+}
+
+// Runs a handler inside a request scope, so cookies() sees the session cookie (or none)
+export function asUser<T>(userId: string | null, handler: () => Promise<T>): Promise<T> {
+  const headers = new Headers(userId ? { cookie: `${USER_COOKIE}=${userId}` } : {})
+  const store = { type: 'request', phase: 'render', cookies: new RequestCookies(headers) } as unknown as RequestStore
+  return workUnitAsyncStorage.run(store, handler)
+}
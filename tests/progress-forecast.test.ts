@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { buildProgressForecast } from '@/lib/progress-forecast'
+
+/**
+ * Rolling averages, projected completion dates and the chart series of the progress forecast.
+ */
+
+const NOW = new Date('2025-07-01T12:00:00Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A hike of `km` every `everyDays` days, the most recent one `latestDaysAgo` days before NOW
+function hikes(count: number, km: number, everyDays = 7, latestDaysAgo = 1) {
+  return Array.from({ length: count }, (_, index) => ({
+    distance: km * 1000,
+    start_date: new Date(NOW.getTime() - (latestDaysAgo + index * everyDays) * DAY_MS).toISOString()
+  }))
+}
+
+describe('buildProgressForecast', () => {
+  it('projects completion from the 12-week average and bands it with the others', () => {
+    const forecast = buildProgressForecast(hikes(12, 5), {
+      goalKm: 100,
+      startDate: '2025-01-01',
+      deadline: '2025-12-31',
+      now: NOW
+    })
+
+    assert.equal(forecast.totalKm, 60)
+    assert.equal(forecast.remainingKm, 40)
+    // The 52-week average only spans the 26 weeks since the start date
+    assert.deepEqual(forecast.windows.map(window => [window.weeks, window.kmPerWeek]), [[4, 5], [12, 5], [52, 2.3]])
+    assert.equal(forecast.projectedCompletion, '2025-08-26')
+    assert.deepEqual(forecast.projectedRange, { earliest: '2025-08-26', latest: '2025-10-31' })
+    assert.equal(forecast.requiredKmPerWeek, 1.5)
+    assert.equal(forecast.onTrack, true)
+    assert.equal(forecast.completedOn, null)
+  })
+
+  it('draws the cumulative line, the ideal pace and the band through the deadline', () => {
+    const forecast = buildProgressForecast(hikes(12, 5), {
+      goalKm: 100,
+      startDate: '2025-01-01',
+      deadline: '2025-12-31',
+      now: NOW
+    })
+
+    assert.deepEqual(forecast.cumulative[0], { date: '2025-01-01', km: 0 })
+    assert.deepEqual(forecast.cumulative.slice(-2), [{ date: '2025-06-30', km: 60 }, { date: '2025-07-01', km: 60 }])
+    assert.deepEqual(forecast.idealPace, [{ date: '2025-01-01', km: 0 }, { date: '2025-12-31', km: 100 }])
+
+    assert.deepEqual(forecast.forecast[0], { date: '2025-07-01', low: 60, expected: 60, high: 60 })
+    const last = forecast.forecast[forecast.forecast.length - 1]
+    assert.ok(last.date >= '2025-12-31')
+    assert.deepEqual([last.low, last.expected, last.high], [100, 100, 100])
+  })
+
+  it('averages over at least a week when the challenge is younger than the window', () => {
+    const forecast = buildProgressForecast(hikes(1, 10, 7, 2), { goalKm: 100, startDate: '2025-06-28', now: NOW })
+    assert.deepEqual(forecast.windows.map(window => window.kmPerWeek), [10, 10, 10])
+    assert.equal(forecast.onTrack, null)
+    assert.deepEqual(forecast.idealPace, [])
+  })
+
+  it('reports the day the goal was reached and stops forecasting', () => {
+    const forecast = buildProgressForecast(hikes(6, 10), { goalKm: 50, deadline: '2025-12-31', now: NOW })
+
+    assert.equal(forecast.remainingKm, 0)
+    assert.equal(forecast.completedOn, '2025-06-23')
+    assert.equal(forecast.projectedCompletion, null)
+    assert.deepEqual(forecast.forecast, [])
+    assert.equal(forecast.onTrack, true)
+  })
+
+  it('has no projection when nothing was hiked recently', () => {
+    const forecast = buildProgressForecast(hikes(3, 10, 7, 400), {
+      goalKm: 100,
+      startDate: '2024-01-01',
+      deadline: '2025-12-31',
+      now: NOW
+    })
+
+    assert.deepEqual(forecast.windows.map(window => window.kmPerWeek), [0, 0, 0])
+    assert.equal(forecast.projectedCompletion, null)
+    assert.equal(forecast.onTrack, false)
+  })
+})
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  DEFAULT_QUALIFICATION_RULES,
+  evaluateActivity,
+  normalizeQualificationRules,
+  parseQualificationRules,
+  summarizeQualification,
+  type QualificationRules
+} from '@/lib/qualification'
+import { fixtures } from './helpers/fake-strava'
+
+/**
+ * The qualification rules engine and the validation of user-supplied rules.
+ */
+
+// A Hike tagged #3800km: 18.25 km on gear g100001, started 2025-03-08T15:12:04Z
+const [MOUNT_TAM] = fixtures.activities
+
+const evaluate = (rules: Partial<QualificationRules>, activity = MOUNT_TAM) =>
+  evaluateActivity(activity, { ...DEFAULT_QUALIFICATION_RULES, ...rules })
+
+describe('evaluateActivity', () => {
+  it('accepts a tagged hike under the default rules', () => {
+    const result = evaluate({})
+    assert.equal(result.qualifies, true)
+    assert.deepEqual(result.passed, ['sport_type', 'required_hashtag'])
+  })
+
+  it('reports the first rule that rejects an activity', () => {
+    const walk = evaluate({}, { ...MOUNT_TAM, type: 'Walk', sport_type: 'Walk', description: '' })
+    assert.equal(walk.rejectedBy, 'sport_type')
+    assert.deepEqual(walk.passed, [])
+
+    const untagged = evaluate({}, { ...MOUNT_TAM, description: undefined })
+    assert.equal(untagged.rejectedBy, 'required_hashtag')
+    assert.equal(untagged.reason, 'Activity has no description')
+    assert.deepEqual(untagged.passed, ['sport_type'])
+  })
+
+  it('matches hashtags and name patterns case-insensitively', () => {
+    assert.equal(evaluate({ requiredHashtags: ['#3800KM'] }).qualifies, true)
+    assert.equal(evaluate({ excludedHashtags: ['#3800KM'] }).rejectedBy, 'excluded_hashtag')
+    assert.equal(evaluate({ namePatterns: ['^mount'] }).qualifies, true)
+    assert.equal(evaluate({ excludedNamePatterns: ['TAM'] }).rejectedBy, 'excluded_name_pattern')
+  })
+
+  it('counts the whole end day of the date window', () => {
+    assert.equal(evaluate({ startDate: '2025-03-08', endDate: '2025-03-08' }).qualifies, true)
+    assert.equal(evaluate({ startDate: '2025-03-09' }).rejectedBy, 'date_window')
+    assert.equal(evaluate({ endDate: '2025-03-07' }).rejectedBy, 'date_window')
+  })
+
+  it('applies the minimum distance and gear list', () => {
+    assert.equal(evaluate({ minDistance: 18250.4 }).qualifies, true)
+    assert.equal(evaluate({ minDistance: 20000 }).rejectedBy, 'min_distance')
+    assert.equal(evaluate({ gearIds: ['g100001'] }).qualifies, true)
+    assert.equal(evaluate({ gearIds: ['g100001'] }, { ...MOUNT_TAM, gear_id: undefined }).reason, 'Activity has no gear')
+  })
+
+  it('accepts everything when no rules are configured', () => {
+    const result = evaluate({ sportTypes: [], requiredHashtags: [] }, { ...MOUNT_TAM, type: 'Ride', sport_type: 'Ride' })
+    assert.equal(result.qualifies, true)
+    assert.equal(result.reason, 'No rules configured')
+  })
+
+  it('summarizes results by rejecting rule', () => {
+    const summary = summarizeQualification(fixtures.activities.map(activity => evaluate({}, activity)))
+    assert.equal(summary.evaluated, fixtures.activities.length)
+    assert.equal(summary.accepted, 3)
+    assert.equal(summary.rejected, fixtures.activities.length - 3)
+  })
+})
+
+describe('parseQualificationRules', () => {
+  it('keeps the base value of omitted fields and trims list entries', () => {
+    const { rules } = parseQualificationRules({ sportTypes: [' Walk ', '', 'Snowshoe'], minDistance: 5000 })
+    assert.deepEqual(rules, {
+      ...DEFAULT_QUALIFICATION_RULES,
+      sportTypes: ['Walk', 'Snowshoe'],
+      minDistance: 5000
+    })
+  })
+
+  it('clears nullable fields set to null or empty', () => {
+    const base = { ...DEFAULT_QUALIFICATION_RULES, minDistance: 5000, startDate: '2025-01-01' }
+    const { rules } = parseQualificationRules({ minDistance: null, startDate: '' }, base)
+    assert.equal(rules?.minDistance, null)
+    assert.equal(rules?.startDate, null)
+  })
+
+  it('collects every invalid field', () => {
+    const { rules, errors } = parseQualificationRules({
+      sportTypes: 'Hike',
+      namePatterns: ['(unclosed'],
+      minDistance: -1,
+      startDate: 'soon'
+    })
+    assert.equal(rules, null)
+    assert.deepEqual(errors, [
+      'sportTypes must be an array of strings',
+      'startDate must be an ISO date',
+      'Invalid name pattern: (unclosed',
+      'minDistance must be a non-negative number of meters'
+    ])
+  })
+
+  it('rejects a window that ends before it starts', () => {
+    const { errors } = parseQualificationRules({ startDate: '2025-06-01', endDate: '2025-05-31' })
+    assert.deepEqual(errors, ['startDate must be on or before endDate'])
+  })
+
+  it('falls back to the defaults for stored rules that no longer validate', () => {
+    assert.equal(normalizeQualificationRules(null), DEFAULT_QUALIFICATION_RULES)
+    assert.equal(normalizeQualificationRules({ minDistance: 'far' }), DEFAULT_QUALIFICATION_RULES)
+    assert.deepEqual(normalizeQualificationRules({ gearIds: ['g1'] }).gearIds, ['g1'])
+  })
+})
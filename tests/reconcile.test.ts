@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict'
+import { beforeEach, describe, it } from 'node:test'
+import { createInMemoryRepositories, setRepositories, type Repositories, type StravaActivityInsert } from '@/lib/repositories'
+import { reconcileActivities } from '@/lib/reconcile'
+
+/**
+ * Reconciling stored rows with what a fetch from Strava returned, on the in-memory store.
+ */
+
+const USER_ID = '12345'
+
+// Unix seconds
+const at = (iso: string) => Date.parse(iso) / 1000
+
+describe('reconcileActivities', () => {
+  let repositories: Repositories
+
+  const store = (stravaId: string, startDate: string, activity: Partial<StravaActivityInsert> = {}) =>
+    repositories.activities.upsert(USER_ID, [{
+      user_id: USER_ID,
+      strava_id: stravaId,
+      source: 'strava',
+      name: `Hike ${stravaId}`,
+      type: 'Hike',
+      distance: 10000,
+      moving_time: 7200,
+      elevation_gain: 300,
+      start_date: startDate,
+      ...activity
+    }])
+
+  const storedIds = async () => (await repositories.activities.listByUser(USER_ID))
+    .map(activity => activity.strava_id ?? activity.source)
+    .sort()
+
+  beforeEach(() => {
+    repositories = createInMemoryRepositories()
+    setRepositories(repositories)
+  })
+
+  it('keeps qualifying rows and skips unknown ones on a full resync', async () => {
+    await store('1', '2025-03-01T10:00:00Z')
+    await store('2', '2025-03-02T10:00:00Z')
+    await store('3', '2025-03-03T10:00:00Z')
+    await store('4', '2025-03-04T10:00:00Z', { distance: 2500 })
+
+    const result = await reconcileActivities({
+      userId: USER_ID,
+      fetchedIds: ['1', '2', '3'],
+      qualifyingIds: ['1'],
+      unknownIds: ['3'],
+      reasons: { 2: 'Description has none of #3800km' }
+    })
+
+    assert.equal(result.scope, 'full')
+    assert.equal(result.checked, 4)
+    assert.equal(result.skipped, 1)
+    assert.equal(result.removedDistance, 12500)
+    assert.deepEqual(result.removed.map(({ stravaId, reason }) => [stravaId, reason]), [
+      ['4', 'Not returned by Strava (deleted or made private)'],
+      ['2', 'Description has none of #3800km']
+    ])
+    assert.deepEqual(await storedIds(), ['1', '3'])
+  })
+
+  it('only vouches for rows strictly inside the fetched window', async () => {
+    await store('1', '2025-03-01T10:00:00Z')
+    await store('2', '2025-03-02T10:00:00Z')
+    await store('3', '2025-03-03T10:00:00Z')
+
+    const result = await reconcileActivities({
+      userId: USER_ID,
+      after: at('2025-03-01T10:00:00Z'),
+      before: at('2025-03-03T10:00:00Z'),
+      fetchedIds: [],
+      qualifyingIds: [],
+      unknownIds: []
+    })
+
+    assert.equal(result.scope, 'window')
+    assert.equal(result.checked, 1)
+    assert.deepEqual(await storedIds(), ['1', '3'])
+  })
+
+  it('leaves uploaded activities alone', async () => {
+    await store('1', '2025-03-01T10:00:00Z')
+    await repositories.activities.insert({
+      user_id: USER_ID,
+      source: 'upload',
+      name: 'Old trip',
+      type: 'Hike',
+      distance: 8000,
+      moving_time: 7200,
+      elevation_gain: 400,
+      start_date: '2025-03-02T10:00:00Z'
+    })
+
+    const result = await reconcileActivities({ userId: USER_ID, fetchedIds: [], qualifyingIds: [], unknownIds: [] })
+    assert.equal(result.checked, 1)
+    assert.deepEqual(await storedIds(), ['upload'])
+  })
+})
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict'
+import { beforeEach, describe, it } from 'node:test'
+import { createInMemoryRepositories, setRepositories, type Repositories } from '@/lib/repositories'
+import { importStravaArchive, readStravaArchive } from '@/lib/strava-archive'
+import { ZipArchive, ZipError } from '@/lib/strava-archive/zip'
+import { buildZip } from './helpers/zip'
+
+/**
+ * Archive imports against the in-memory store.
+ */
+
+const USER_ID = '12345'
+
+const CSV = [
+  'Activity ID,Activity Date,Activity Name,Activity Type,Activity Description,Elapsed Time,Moving Time,Distance,Elevation Gain',
+  '101,"Mar 8, 2025, 3:12:04 PM",Ridge walk,Hike,#3800km,7200,6000,12000.5,640',
+  '102,"Mar 9, 2025, 9:00:00 AM",Lake loop,Hike,#3800km,3600,3300,8000,120'
+].join('\n')
+
+describe('Strava archive import', () => {
+  let repositories: Repositories
+
+  beforeEach(() => {
+    repositories = createInMemoryRepositories()
+    setRepositories(repositories)
+  })
+
+  it('adds new activities without overwriting ones a sync stored', async () => {
+    await repositories.activities.upsert(USER_ID, [{
+      strava_id: '101',
+      source: 'strava',
+      user_id: USER_ID,
+      name: 'Ridge walk',
+      type: 'Hike',
+      description: '#3800km',
+      distance: 12000.5,
+      moving_time: 6000,
+      elevation_gain: 640,
+      start_date: '2025-03-08T15:12:04.000Z',
+      start_date_local: '2025-03-08T16:12:04Z',
+      timezone: '(GMT+01:00) Europe/Oslo',
+      gear_id: 'g123',
+      location_city: 'Bergen'
+    }])
+
+    const result = await importStravaArchive(USER_ID, readStravaArchive('activities.csv', Buffer.from(CSV)))
+    assert.equal(result.inserted, 1)
+    assert.equal(result.skipped, 1)
+
+    const stored = await repositories.activities.listByUser(USER_ID)
+    assert.equal(stored.length, 2)
+
+    const synced = stored.find(activity => activity.strava_id === '101')!
+    assert.equal(synced.start_date_local, '2025-03-08T16:12:04Z')
+    assert.equal(synced.timezone, '(GMT+01:00) Europe/Oslo')
+    assert.equal(synced.gear_id, 'g123')
+    assert.equal(synced.location_city, 'Bergen')
+  })
+})
+
+describe('ZipArchive', () => {
+  it('reads deflated entries', () => {
+    const zip = new ZipArchive(buildZip([{ name: 'activities.csv', data: Buffer.from(CSV) }]))
+    assert.equal(zip.read('activities.csv')!.toString('utf8'), CSV)
+  })
+
+  it('stops inflating at the declared size', () => {
+    const bomb = buildZip([{ name: 'activities.csv', data: Buffer.alloc(8 * 1024 * 1024), declaredSize: 1024 }])
+    assert.throws(() => new ZipArchive(bomb).read('activities.csv'), ZipError)
+  })
+
+  it('refuses entries that declare more than it will inflate', () => {
+    const huge = buildZip([{ name: 'activities.csv', data: Buffer.from(CSV), declaredSize: 0xfffffffe }])
+    assert.throws(() => new ZipArchive(huge).read('activities.csv'), /larger than/)
+  })
+})
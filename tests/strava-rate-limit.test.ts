@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict'
+import { after, before, beforeEach, describe, it, mock } from 'node:test'
+import { stravaFetch, stravaRateLimiter, StravaRateLimitError } from '@/lib/strava-rate-limit'
+import { FAKE_TOKENS, startFakeStrava, type RunningFakeStrava } from './helpers/fake-strava'
+
+/**
+ * Retries and deferral in the shared Strava request layer, against the fake Strava server.
+ */
+
+const DETAIL_PATH = '/api/v3/activities/9000000001'
+
+describe('stravaFetch', () => {
+  let strava: RunningFakeStrava
+
+  const get = () => stravaFetch(`${strava.baseUrl}${DETAIL_PATH}`, {
+    headers: { Authorization: `Bearer ${FAKE_TOKENS.access_token}` }
+  })
+
+  before(async () => {
+    strava = await startFakeStrava()
+  })
+
+  after(() => strava.close())
+
+  beforeEach(() => strava.reset())
+
+  it('retries server errors until one succeeds', async () => {
+    const { retriedRequests } = stravaRateLimiter.getStatus()
+    strava.addFault({ status: 503, count: 2, path: DETAIL_PATH })
+
+    const response = await get()
+    assert.equal(response.status, 200)
+    assert.equal(stravaRateLimiter.getStatus().retriedRequests - retriedRequests, 2)
+  })
+
+  it('gives up on server errors after a bounded number of retries', async () => {
+    const { retriedRequests } = stravaRateLimiter.getStatus()
+    strava.addFault({ status: 500, count: 10, path: DETAIL_PATH })
+
+    const response = await get()
+    assert.equal(response.status, 500)
+    assert.equal(stravaRateLimiter.getStatus().retriedRequests - retriedRequests, 3)
+  })
+
+  it('retries a 429 while no limit is used up', async () => {
+    const responses = [new Response('{}', { status: 429 }), new Response('{}', { status: 200 })]
+    const fetchMock = mock.method(globalThis, 'fetch', async () => responses.shift()!)
+    try {
+      const response = await get()
+      assert.equal(response.status, 200)
+      assert.equal(fetchMock.mock.callCount(), 2)
+    } finally {
+      fetchMock.mock.restore()
+    }
+  })
+
+  // Last: the limiter keeps the used-up daily budget for the rest of this process
+  it('defers until the daily reset once the daily limit is used up', async () => {
+    const exhausted = await startFakeStrava({ rateLimits: { shortTerm: 200, daily: 1 } })
+    try {
+      exhausted.addFault({ status: 429, path: DETAIL_PATH })
+      const error = await stravaFetch(`${exhausted.baseUrl}${DETAIL_PATH}`, {
+        headers: { Authorization: `Bearer ${FAKE_TOKENS.access_token}` }
+      }).then(() => null, (error: unknown) => error)
+
+      assert.ok(error instanceof StravaRateLimitError)
+      const midnight = new Date()
+      midnight.setUTCHours(24, 0, 0, 0)
+      assert.equal(error.retryAt.getTime(), midnight.getTime())
+    } finally {
+      await exhausted.close()
+    }
+  })
+})
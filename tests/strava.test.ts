@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import { createInMemoryRepositories, setRepositories, type Repositories } from '@/lib/repositories'
+import { DEFAULT_QUALIFICATION_RULES } from '@/lib/qualification'
+import { stravaAPI } from '@/lib/strava'
+import { cache } from '@/lib/cache'
+import { StravaRateLimitError } from '@/lib/strava-rate-limit'
+import { FAKE_ATHLETE_ID, FAKE_TOKENS, fixtures, startFakeStrava, type RunningFakeStrava } from './helpers/fake-strava'
+
+/**
+ * The Strava client against the fake Strava server.
+ */
+
+const ids = (activities: { id: number }[]) => activities.map(activity => activity.id).sort()
+
+describe('filterHikingActivities', () => {
+  it('keeps hikes tagged with the challenge hashtag', () => {
+    assert.deepEqual(ids(stravaAPI.filterHikingActivities(fixtures.activities)), [9000000001, 9000000003, 9000000005])
+  })
+
+  it('applies custom rules', () => {
+    const walks = stravaAPI.filterHikingActivities(fixtures.activities, {
+      ...DEFAULT_QUALIFICATION_RULES,
+      sportTypes: ['Walk'],
+      requiredHashtags: [],
+      minDistance: 4000
+    })
+    assert.deepEqual(ids(walks), [9000000006])
+  })
+
+  it('rejects summaries, which have no description to find the hashtag in', () => {
+    const summaries = fixtures.activities.map(activity => ({ ...activity, description: undefined }))
+    assert.deepEqual(stravaAPI.filterHikingActivities(summaries), [])
+  })
+})
+
+describe('Strava client', () => {
+  let strava: RunningFakeStrava
+  let repositories: Repositories
+
+  before(async () => {
+    strava = await startFakeStrava()
+  })
+
+  after(() => strava.close())
+
+  beforeEach(async () => {
+    strava.reset()
+    cache.clear()
+    repositories = createInMemoryRepositories()
+    setRepositories(repositories)
+    await repositories.users.upsert({
+      id: FAKE_ATHLETE_ID,
+      strava_id: FAKE_ATHLETE_ID,
+      access_token: FAKE_TOKENS.access_token,
+      refresh_token: FAKE_TOKENS.refresh_token,
+      expires_at: Math.floor(Date.now() / 1000) + 6 * 3600,
+      last_synced_at: null
+    })
+  })
+
+  it('filters the synced activities once their details are fetched', async () => {
+    const listed = await stravaAPI.getAllActivities(FAKE_TOKENS.access_token)
+    assert.equal(listed.length, fixtures.activities.length)
+    assert.deepEqual(stravaAPI.filterHikingActivities(listed), [])
+
+    const { activities, failedIds } = await stravaAPI.getActivitiesWithDetails(FAKE_TOKENS.access_token, listed)
+    assert.deepEqual(failedIds, [])
+    assert.deepEqual(ids(stravaAPI.filterHikingActivities(activities)), [9000000001, 9000000003, 9000000005])
+  })
+
+  it('keeps a token that is not about to expire', async () => {
+    const token = await stravaAPI.ensureValidToken(
+      FAKE_ATHLETE_ID, FAKE_TOKENS.access_token, FAKE_TOKENS.refresh_token,
+      Math.floor(Date.now() / 1000) + 6 * 3600, repositories.users
+    )
+    assert.equal(token, FAKE_TOKENS.access_token)
+  })
+
+  it('refreshes an expired token and stores the new one', async () => {
+    strava.expireTokens()
+    await assert.rejects(stravaAPI.getActivity(FAKE_TOKENS.access_token, 9000000001))
+
+    const token = await stravaAPI.ensureValidToken(
+      FAKE_ATHLETE_ID, FAKE_TOKENS.access_token, FAKE_TOKENS.refresh_token,
+      Math.floor(Date.now() / 1000) - 60, repositories.users
+    )
+    assert.notEqual(token, FAKE_TOKENS.access_token)
+
+    const user = await repositories.users.getById(FAKE_ATHLETE_ID)
+    assert.equal(user?.access_token, token)
+    assert.ok(user!.expires_at > Date.now() / 1000)
+    assert.equal((await stravaAPI.getActivity(token, 9000000001)).id, 9000000001)
+  })
+
+  it('asks for re-authentication when the refresh token is revoked', async () => {
+    strava.revokeTokens()
+    await assert.rejects(
+      stravaAPI.ensureValidToken(
+        FAKE_ATHLETE_ID, FAKE_TOKENS.access_token, FAKE_TOKENS.refresh_token,
+        Math.floor(Date.now() / 1000) - 60, repositories.users
+      ),
+      /Re-authentication required/
+    )
+    assert.equal((await repositories.users.getById(FAKE_ATHLETE_ID))?.access_token, FAKE_TOKENS.access_token)
+  })
+
+  // Last: the 429 leaves the shared rate limiter out of budget for this process
+  it('stops fetching details once Strava rate limits the app', async () => {
+    strava.addFault({ status: 429, count: 10, path: '/api/v3/activities/' })
+    await assert.rejects(
+      stravaAPI.getActivitiesWithDetails(FAKE_TOKENS.access_token, fixtures.activities),
+      StravaRateLimitError
+    )
+  })
+})
@@ -0,0 +1,94 @@
+// Must load first: installs the AsyncLocalStorage global Next's request storage needs
+import 'next/dist/server/node-environment-baseline'
+import assert from 'node:assert/strict'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import { createInMemoryRepositories, setRepositories, type Repositories } from '@/lib/repositories'
+import { cache } from '@/lib/cache'
+import { POST as syncActivities } from '@/app/api/sync-activities/route'
+import { FAKE_ATHLETE_ID, FAKE_TOKENS, fixtures, startFakeStrava, type RunningFakeStrava } from './helpers/fake-strava'
+import { asUser, request } from './helpers/routes'
+
+/**
+ * The one-shot sync route and its watermark, against the fake Strava server.
+ */
+
+const [MOUNT_TAM] = fixtures.activities
+
+// Unix seconds
+const at = (iso: string) => Date.parse(iso) / 1000
+
+describe('POST /api/sync-activities', () => {
+  let strava: RunningFakeStrava
+  let repositories: Repositories
+
+  const sync = async (full = false) => {
+    const response = await asUser(FAKE_ATHLETE_ID, () => syncActivities(
+      request(`/api/sync-activities${full ? '?full=true' : ''}`, { method: 'POST' })
+    ))
+    assert.equal(response.status, 200)
+    return response.json()
+  }
+
+  const watermark = async () => (await repositories.users.getById(FAKE_ATHLETE_ID))?.last_synced_at
+
+  const storedIds = async () => (await repositories.activities.listByUser(FAKE_ATHLETE_ID))
+    .map(activity => activity.strava_id)
+    .sort()
+
+  before(async () => {
+    strava = await startFakeStrava()
+  })
+
+  after(() => strava.close())
+
+  beforeEach(async () => {
+    strava.reset()
+    cache.clear()
+    repositories = createInMemoryRepositories()
+    setRepositories(repositories)
+    await repositories.users.upsert({
+      id: FAKE_ATHLETE_ID,
+      strava_id: FAKE_ATHLETE_ID,
+      access_token: FAKE_TOKENS.access_token,
+      refresh_token: FAKE_TOKENS.refresh_token,
+      expires_at: Math.floor(Date.now() / 1000) + 6 * 3600,
+      last_synced_at: null
+    })
+  })
+
+  it('moves the watermark to the newest activity and only fetches past it next time', async () => {
+    await sync()
+    assert.equal(await watermark(), at('2025-06-20T01:15:00Z'))
+    assert.deepEqual(await storedIds(), ['9000000001', '9000000003', '9000000005'])
+
+    // Added to Strava late but started before the watermark: only a full resync finds it
+    await strava.control('POST', '/__fake/activities', { ...MOUNT_TAM, id: 9000000010, start_date: '2025-05-01T08:00:00Z' })
+    await strava.control('POST', '/__fake/activities', { ...MOUNT_TAM, id: 9000000011, start_date: '2025-07-04T08:00:00Z' })
+
+    await sync()
+    assert.equal(await watermark(), at('2025-07-04T08:00:00Z'))
+    assert.deepEqual(await storedIds(), ['9000000001', '9000000003', '9000000005', '9000000011'])
+
+    await sync(true)
+    assert.deepEqual(await storedIds(), ['9000000001', '9000000003', '9000000005', '9000000010', '9000000011'])
+  })
+
+  it('holds the watermark before an activity whose details failed', async () => {
+    strava.addFault({ status: 401, count: 1, path: '/api/v3/activities/9000000005' })
+    await sync()
+
+    // The newest activity before the failed one, so the next sync fetches it again
+    assert.equal(await watermark(), at('2025-04-02T13:30:00Z'))
+
+    await sync()
+    assert.deepEqual(await storedIds(), ['9000000001', '9000000003', '9000000005'])
+    assert.equal(await watermark(), at('2025-06-20T01:15:00Z'))
+  })
+
+  it('leaves the watermark alone when nothing new was listed', async () => {
+    await repositories.users.update(FAKE_ATHLETE_ID, { last_synced_at: at('2025-08-01T00:00:00Z') })
+    const body = await sync()
+    assert.equal(body.reconciliation.removed.length, 0)
+    assert.equal(await watermark(), at('2025-08-01T00:00:00Z'))
+  })
+})
@@ -0,0 +1,176 @@
+import assert from 'node:assert/strict'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import { createInMemoryRepositories, setRepositories, type Repositories } from '@/lib/repositories'
+import { toActivityInsert, type StravaActivity } from '@/lib/strava'
+import { cache } from '@/lib/cache'
+import { createSyncJob, runSyncJob, type SyncProgressEvent } from '@/lib/sync-jobs'
+import { FAKE_ATHLETE_ID, FAKE_TOKENS, fixtures, startFakeStrava, type RunningFakeStrava } from './helpers/fake-strava'
+
+/**
+ * Sync jobs paging through the fake Strava server into the in-memory store.
+ */
+
+const [MOUNT_TAM] = fixtures.activities
+// After every fixture
+const NEWEST = Date.parse('2025-07-01T12:00:00Z') / 1000
+
+// One more hike than fits on a page, an hour apart
+function hikes(): StravaActivity[] {
+  return Array.from({ length: 51 }, (_, index) => ({
+    ...MOUNT_TAM,
+    id: 9100000000 + index,
+    start_date: new Date((NEWEST - index * 3600) * 1000).toISOString()
+  }))
+}
+
+describe('sync jobs', () => {
+  let strava: RunningFakeStrava
+  let repositories: Repositories
+
+  const storedIds = async () => (await repositories.activities.listByUser(FAKE_ATHLETE_ID))
+    .map(activity => activity.strava_id)
+    .sort()
+
+  const run = async (full: boolean) => {
+    const job = await createSyncJob(FAKE_ATHLETE_ID, { full })
+    return runSyncJob(job, 60_000)
+  }
+
+  before(async () => {
+    strava = await startFakeStrava()
+  })
+
+  after(() => strava.close())
+
+  beforeEach(async () => {
+    strava.reset()
+    cache.clear()
+    repositories = createInMemoryRepositories()
+    setRepositories(repositories)
+    await repositories.users.upsert({
+      id: FAKE_ATHLETE_ID,
+      strava_id: FAKE_ATHLETE_ID,
+      access_token: FAKE_TOKENS.access_token,
+      refresh_token: FAKE_TOKENS.refresh_token,
+      expires_at: Math.floor(Date.now() / 1000) + 6 * 3600,
+      last_synced_at: null
+    })
+  })
+
+  const load = async (activities: StravaActivity[]) => {
+    await strava.control('DELETE', '/__fake/activities/9000000001')
+    for (const activity of activities) {
+      await strava.control('POST', '/__fake/activities', activity)
+    }
+  }
+
+  it('pages a full sync past activities sharing the cursor second', async () => {
+    const activities = hikes()
+    // The last hike on the first page and the one after it started in the same second
+    activities[50].start_date = activities[49].start_date
+    await load(activities)
+
+    // Stored earlier but since deleted on Strava, in the middle of the second page's range
+    await repositories.activities.upsert(FAKE_ATHLETE_ID, [toActivityInsert({
+      ...MOUNT_TAM,
+      id: 9199999999,
+      start_date: '2025-03-20T12:00:00Z'
+    }, FAKE_ATHLETE_ID)])
+
+    const job = await run(true)
+    assert.equal(job.status, 'completed')
+    assert.equal(job.activities_fetched, 56)
+    assert.equal(job.activities_removed, 1)
+    assert.ok(job.cursor_ids.length <= 2)
+
+    const expected = [...activities.map(activity => activity.id), 9000000003, 9000000005].map(String).sort()
+    assert.deepEqual(await storedIds(), expected)
+  })
+
+  it('pages an incremental sync past activities sharing the cursor second', async () => {
+    const activities = hikes()
+    // Oldest first from the watermark: the last hike on the first page is the second newest
+    activities[0].start_date = activities[1].start_date
+    await load(activities)
+    await repositories.users.update(FAKE_ATHLETE_ID, { last_synced_at: NEWEST - 60 * 3600 })
+
+    const job = await run(false)
+    assert.equal(job.mode, 'incremental')
+    assert.equal(job.status, 'completed')
+    assert.equal(job.activities_fetched, 51)
+    assert.equal(job.activities_removed, 0)
+    assert.deepEqual(await storedIds(), activities.map(activity => activity.id.toString()).sort())
+
+    const user = await repositories.users.getById(FAKE_ATHLETE_ID)
+    assert.equal(user?.last_synced_at, NEWEST - 3600)
+  })
+
+  it('removes rows that no longer qualify on the page that lists them', async () => {
+    await run(true)
+    assert.deepEqual(await storedIds(), ['9000000001', '9000000003', '9000000005'])
+
+    await strava.control('POST', '/__fake/activities', { ...MOUNT_TAM, description: 'Foggy start' })
+    cache.clear()
+    const job = await run(true)
+    assert.equal(job.activities_removed, 1)
+    assert.deepEqual(await storedIds(), ['9000000003', '9000000005'])
+  })
+
+  it('keeps a row whose details failed and holds the watermark just before it', async () => {
+    await run(true)
+    cache.clear()
+
+    strava.addFault({ status: 401, count: 1, path: '/api/v3/activities/9000000005' })
+    const job = await run(true)
+    assert.equal(job.activities_removed, 0)
+    assert.deepEqual(await storedIds(), ['9000000001', '9000000003', '9000000005'])
+
+    const user = await repositories.users.getById(FAKE_ATHLETE_ID)
+    assert.equal(user?.last_synced_at, Date.parse('2025-06-14T12:05:33Z') / 1000 - 1)
+  })
+
+  it('reports each page, failed steps and completion to the progress listener', async () => {
+    await load(hikes())
+    strava.addFault({ status: 401, count: 1, path: '/api/v3/athlete/activities' })
+
+    const events: SyncProgressEvent[] = []
+    const failed = await runSyncJob(await createSyncJob(FAKE_ATHLETE_ID), 60_000, event => events.push(event))
+    assert.equal(failed.status, 'pending')
+
+    const due = await repositories.syncJobs.update(failed.id, { run_after: new Date().toISOString() })
+    await runSyncJob(due, 60_000, event => events.push(event))
+
+    assert.deepEqual(events.map(event => event.type), ['error', 'page', 'page', 'completed'])
+    const [error, first, second, completed] = events
+    assert.equal(error.type === 'error' && error.willRetry, true)
+    assert.equal(first.type === 'page' && first.fetched, 50)
+    assert.equal(second.type === 'page' && second.fetched, 6)
+    assert.equal(completed.job.activitiesFetched, 56)
+    assert.equal(completed.job.status, 'completed')
+  })
+
+  it('leaves a job alone while another worker holds its lease', async () => {
+    const job = await createSyncJob(FAKE_ATHLETE_ID)
+    const leased = await repositories.syncJobs.update(job.id, {
+      status: 'running',
+      locked_until: new Date(Date.now() + 60_000).toISOString()
+    })
+
+    const result = await runSyncJob(leased, 60_000)
+    assert.equal(result, leased)
+    assert.equal((await repositories.syncJobs.getById(job.id))?.pages_fetched, 0)
+    assert.deepEqual(await storedIds(), [])
+  })
+
+  it('releases the lease when out of time so the next worker resumes the job', async () => {
+    const job = await createSyncJob(FAKE_ATHLETE_ID)
+
+    const stopped = await runSyncJob(job, 0)
+    assert.equal(stopped.status, 'running')
+    assert.equal(stopped.locked_until, null)
+
+    const resumed = await runSyncJob(stopped, 60_000)
+    assert.equal(resumed.status, 'completed')
+    assert.deepEqual(await storedIds(), ['9000000001', '9000000003', '9000000005'])
+  })
+})
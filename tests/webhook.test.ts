@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import { NextRequest } from 'next/server'
+import { createInMemoryRepositories, setRepositories, type Repositories } from '@/lib/repositories'
+import { toActivityInsert } from '@/lib/strava'
+import { cache } from '@/lib/cache'
+import { POST as postEvent } from '@/app/api/webhooks/strava/route'
+import { FAKE_ATHLETE_ID, FAKE_TOKENS, fixtures, startFakeStrava, type RunningFakeStrava } from './helpers/fake-strava'
+
+/**
+ * Strava webhook events against the in-memory store and the fake Strava server.
+ */
+
+const SUBSCRIPTION_ID = 777
+const [MOUNT_TAM] = fixtures.activities
+
+function event(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/webhooks/strava', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'content-type': 'application/json' }
+  })
+}
+
+function deleteEvent(objectId: number) {
+  return event({
+    object_type: 'activity',
+    object_id: objectId,
+    aspect_type: 'delete',
+    owner_id: Number(FAKE_ATHLETE_ID),
+    subscription_id: SUBSCRIPTION_ID,
+    event_time: Math.floor(Date.now() / 1000)
+  })
+}
+
+describe('Strava webhook', () => {
+  let strava: RunningFakeStrava
+  let repositories: Repositories
+
+  before(async () => {
+    strava = await startFakeStrava()
+    process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID = SUBSCRIPTION_ID.toString()
+  })
+
+  after(() => strava.close())
+
+  beforeEach(async () => {
+    strava.reset()
+    cache.clear()
+    repositories = createInMemoryRepositories()
+    setRepositories(repositories)
+    await repositories.users.upsert({
+      id: FAKE_ATHLETE_ID,
+      strava_id: FAKE_ATHLETE_ID,
+      access_token: FAKE_TOKENS.access_token,
+      refresh_token: FAKE_TOKENS.refresh_token,
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      last_synced_at: null
+    })
+    await repositories.activities.upsert(FAKE_ATHLETE_ID, [toActivityInsert(MOUNT_TAM, FAKE_ATHLETE_ID)])
+  })
+
+  it('rejects bodies that are not events', async () => {
+    for (const body of [null, [], 'delete', { aspect_type: 'delete', object_id: '1', owner_id: 1, subscription_id: SUBSCRIPTION_ID }]) {
+      const response = await postEvent(event(body))
+      assert.equal(response.status, 400, JSON.stringify(body))
+    }
+  })
+
+  it('rejects events from another subscription', async () => {
+    const response = await postEvent(event({
+      object_type: 'activity',
+      object_id: MOUNT_TAM.id,
+      aspect_type: 'delete',
+      owner_id: Number(FAKE_ATHLETE_ID),
+      subscription_id: 1
+    }))
+    assert.equal(response.status, 403)
+    assert.equal((await repositories.activities.listByUser(FAKE_ATHLETE_ID)).length, 1)
+  })
+
+  it('refuses events while no subscription ID is configured', async () => {
+    delete process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID
+    try {
+      const response = await postEvent(deleteEvent(MOUNT_TAM.id))
+      assert.equal(response.status, 500)
+    } finally {
+      process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID = SUBSCRIPTION_ID.toString()
+    }
+  })
+
+  it('keeps an activity when a delete event is not confirmed by Strava', async () => {
+    const response = await postEvent(deleteEvent(MOUNT_TAM.id))
+    assert.equal(response.status, 200)
+    assert.equal((await response.json()).action, 'kept')
+    assert.equal((await repositories.activities.listByUser(FAKE_ATHLETE_ID)).length, 1)
+  })
+
+  it('removes an activity Strava no longer has', async () => {
+    await strava.control('DELETE', `/__fake/activities/${MOUNT_TAM.id}`)
+
+    const response = await postEvent(deleteEvent(MOUNT_TAM.id))
+    assert.equal((await response.json()).action, 'removed')
+    assert.equal((await repositories.activities.listByUser(FAKE_ATHLETE_ID)).length, 0)
+  })
+})